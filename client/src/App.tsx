@@ -5,10 +5,14 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import Dashboard from "@/pages/dashboard";
 import Invoices from "@/pages/invoices";
+import Estimates from "@/pages/estimates";
+import Recurring from "@/pages/recurring";
 import Customers from "@/pages/customers";
 import Items from "@/pages/items";
 import Taxes from "@/pages/taxes";
 import Templates from "@/pages/templates";
+import Trash from "@/pages/trash";
+import Settings from "@/pages/settings";
 import NotFound from "@/pages/not-found";
 import Sidebar from "@/components/sidebar";
 
@@ -20,10 +24,14 @@ function Router() {
         <Switch>
           <Route path="/" component={Dashboard} />
           <Route path="/invoices" component={Invoices} />
+          <Route path="/estimates" component={Estimates} />
+          <Route path="/recurring" component={Recurring} />
           <Route path="/customers" component={Customers} />
           <Route path="/items" component={Items} />
           <Route path="/taxes" component={Taxes} />
           <Route path="/templates" component={Templates} />
+          <Route path="/trash" component={Trash} />
+          <Route path="/settings" component={Settings} />
           <Route component={NotFound} />
         </Switch>
       </main>
@@ -0,0 +1,314 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLineItemCatalog } from "@/hooks/use-line-item-catalog";
+import LineItemsEditor, { billableLineItems, calculateLineItemTotals, type LineItemForm } from "@/components/line-items-editor";
+import type { Customer, EstimateWithDetails } from "@shared/schema";
+import { fromDiscountValue, toDiscountValue, type DiscountType } from "@shared/invoice-totals";
+import { formatMoney } from "@shared/money";
+import { defaultRoundingPolicy, roundingPolicies, roundingPolicyValues, type RoundingPolicy } from "@shared/rounding";
+import type { Page } from "@shared/list-query";
+import { estimateStatusLabel } from "@shared/estimate-status";
+
+const estimateFormSchema = z.object({
+  estimateNumber: z.string().optional(),
+  customerId: z.string().min(1, "Customer is required"),
+  issueDate: z.string().min(1, "Issue date is required"),
+  validUntil: z.string().optional(),
+  discountType: z.enum(["flat", "percent"]).default("flat"),
+  discountValue: z.string().or(z.number()).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).default(defaultRoundingPolicy),
+});
+
+interface EstimateFormProps {
+  estimate?: EstimateWithDetails;
+  onSuccess: () => void;
+}
+
+export default function EstimateForm({ estimate, onSuccess }: EstimateFormProps) {
+  const [lineItems, setLineItems] = useState<LineItemForm[]>([]);
+  const { toast } = useToast();
+
+  const { data: customerPage } = useQuery<Page<Customer>>({
+    queryKey: ["/api/customers"],
+  });
+  const customers = customerPage?.data ?? [];
+
+  const items = useLineItemCatalog(lineItems);
+
+  const form = useForm<z.infer<typeof estimateFormSchema>>({
+    resolver: zodResolver(estimateFormSchema),
+    defaultValues: {
+      estimateNumber: estimate?.estimateNumber || "",
+      customerId: estimate?.customerId || "",
+      issueDate: estimate?.issueDate ? new Date(estimate.issueDate).toISOString().split('T')[0] : "",
+      validUntil: estimate?.validUntil ? new Date(estimate.validUntil).toISOString().split('T')[0] : "",
+      discountType: (estimate?.discountType as DiscountType) || "flat",
+      discountValue: estimate ? fromDiscountValue(estimate.discountType, estimate.discountValue).toString() : "0",
+      roundingPolicy: (estimate?.roundingPolicy as RoundingPolicy) || defaultRoundingPolicy,
+    },
+  });
+
+  // Blank numbers are allocated by the server; show which one the estimate will get
+  const issueDate = form.watch("issueDate");
+  const { data: nextNumber } = useQuery<{ estimateNumber: string }>({
+    queryKey: [`/api/estimates/next-number?issueDate=${encodeURIComponent(issueDate || "")}`],
+    enabled: !estimate,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (estimate?.lineItems) {
+      setLineItems(
+        estimate.lineItems.map((item) => ({
+          id: item.id,
+          itemId: item.itemId,
+          quantity: item.quantity,
+          unit: item.unit,
+          unitPrice: Number(item.unitPrice),
+          discountType: item.discountType as DiscountType,
+          discountValue: item.discountValue,
+        }))
+      );
+    }
+  }, [estimate]);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("POST", "/api/estimates", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Estimate created successfully" });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to create estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest("PUT", `/api/estimates/${estimate!.id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Estimate updated successfully" });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const billableLines = billableLineItems(lineItems);
+  const totals = calculateLineItemTotals(lineItems, items, {
+    type: form.watch("discountType"),
+    value: toDiscountValue(form.watch("discountType"), form.watch("discountValue")),
+  }, form.watch("roundingPolicy"));
+
+  const onSubmit = (data: z.infer<typeof estimateFormSchema>, status: "draft" | "sent" = "draft") => {
+    if (lineItems.length === 0) {
+      toast({ title: "Please add at least one line item", variant: "destructive" });
+      return;
+    }
+
+    const estimateData = {
+      ...data,
+      discountValue: toDiscountValue(data.discountType, data.discountValue),
+      issueDate: new Date(data.issueDate).toISOString(),
+      validUntil: data.validUntil ? new Date(data.validUntil).toISOString() : null,
+      subtotal: totals.subtotal,
+      totalTax: totals.totalTax,
+      total: totals.total,
+      lineItems: billableLines.map((item, index) => ({
+        id: item.id,
+        itemId: item.itemId,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice: item.unitPrice,
+        discountType: item.discountType,
+        discountValue: item.discountValue,
+        total: totals.lines[index].lineTotal,
+      })),
+    };
+
+    if (estimate) {
+      updateMutation.mutate(estimateData);
+    } else {
+      createMutation.mutate({ ...estimateData, status });
+    }
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
+      {/* Estimate Details */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label htmlFor="estimateNumber">Estimate Number</Label>
+          <Input
+            id="estimateNumber"
+            {...form.register("estimateNumber")}
+            placeholder={nextNumber?.estimateNumber ? `Auto: ${nextNumber.estimateNumber}` : "Auto-generated"}
+            data-testid="input-estimate-number"
+          />
+        </div>
+        <div>
+          <Label htmlFor="issueDate">Issue Date</Label>
+          <Input
+            id="issueDate"
+            type="date"
+            {...form.register("issueDate")}
+            data-testid="input-estimate-issue-date"
+          />
+          {form.formState.errors.issueDate && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.issueDate.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label htmlFor="customerId">Customer</Label>
+          <Select
+            value={form.watch("customerId")}
+            onValueChange={(value) => form.setValue("customerId", value)}
+          >
+            <SelectTrigger data-testid="select-estimate-customer">
+              <SelectValue placeholder="Select Customer" />
+            </SelectTrigger>
+            <SelectContent>
+              {customers.map((customer) => (
+                <SelectItem key={customer.id} value={customer.id}>
+                  {customer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {form.formState.errors.customerId && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.customerId.message}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="validUntil">Valid Until (Optional)</Label>
+          <Input
+            id="validUntil"
+            type="date"
+            {...form.register("validUntil")}
+            data-testid="input-valid-until"
+          />
+        </div>
+      </div>
+
+      {estimate && (
+        <div>
+          <Label>Status</Label>
+          <p className="text-sm text-foreground mt-2" data-testid="text-estimate-status">
+            {estimateStatusLabel(estimate.status)}
+          </p>
+        </div>
+      )}
+
+      <LineItemsEditor lineItems={lineItems} onChange={setLineItems} items={items} />
+
+      {/* Estimate Totals */}
+      <Card>
+        <CardContent className="p-6">
+          <h4 className="text-lg font-medium text-foreground mb-4">Estimate Summary</h4>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Subtotal:</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.subtotal)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Discount (before tax):</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("discountType")}
+                  onChange={(e) => form.setValue("discountType", e.target.value as DiscountType)}
+                  data-testid="select-estimate-discount-type"
+                >
+                  <option value="flat">₹</option>
+                  <option value="percent">%</option>
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-24 h-8 text-right"
+                  {...form.register("discountValue")}
+                  data-testid="input-estimate-discount"
+                />
+                <span className="text-foreground font-medium">-{formatMoney(totals.discount)}</span>
+              </div>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Total Tax:</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.totalTax)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Round off:</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("roundingPolicy")}
+                  onChange={(e) => form.setValue("roundingPolicy", e.target.value as RoundingPolicy)}
+                  data-testid="select-estimate-rounding"
+                >
+                  {roundingPolicies.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-foreground font-medium">{totals.roundOff > 0 ? "+" : ""}{formatMoney(totals.roundOff)}</span>
+              </div>
+            </div>
+            <div className="border-t border-border pt-2">
+              <div className="flex justify-between">
+                <span className="text-foreground font-semibold">Total:</span>
+                <span className="text-foreground font-bold text-lg">{formatMoney(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Form Actions */}
+      <div className="flex items-center justify-end space-x-3">
+        <Button
+          type="submit"
+          variant={estimate ? "default" : "outline"}
+          disabled={createMutation.isPending || updateMutation.isPending}
+          data-testid="button-submit-estimate"
+        >
+          {estimate ? "Update Estimate" : "Save as Draft"}
+        </Button>
+        {!estimate && (
+          <Button
+            type="button"
+            onClick={form.handleSubmit((data) => onSubmit(data, "sent"))}
+            disabled={createMutation.isPending}
+            data-testid="button-send-estimate"
+          >
+            Create & Mark Sent
+          </Button>
+        )}
+      </div>
+    </form>
+  );
+}
@@ -0,0 +1,134 @@
+import { useState, type KeyboardEvent } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Search } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
+import { listQueryString } from "@shared/list-query";
+import { maxSearchLength, plainText, searchEntityLabels, type HighlightPart, type SearchResult } from "@shared/search";
+
+// A result opens its list, searched down to it
+const resultPath = (result: SearchResult): string => {
+  const search = plainText(result.title);
+  switch (result.type) {
+    case "customer":
+      return `/customers${listQueryString({ search })}`;
+    case "item":
+      return `/items${listQueryString({ search })}`;
+    case "invoice":
+      return `/invoices${listQueryString({ search })}`;
+    default:
+      return `/invoices${listQueryString({ view: "notes", search })}`;
+  }
+};
+
+function Highlighted({ parts }: { parts: HighlightPart[] }) {
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.match ? (
+          <mark key={index} className="bg-yellow-200 text-foreground rounded-sm">{part.text}</mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export default function GlobalSearch() {
+  const [, navigate] = useLocation();
+  const [text, setText] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const q = useDebouncedValue(text.trim());
+
+  // Edits elsewhere change what matches, so results are never reused
+  const { data: results = [], isFetching } = useQuery<SearchResult[]>({
+    queryKey: ["/api/search", listQueryString({ q })],
+    enabled: q.length > 0,
+    staleTime: 0,
+  });
+
+  const open = (result: SearchResult) => {
+    navigate(resultPath(result));
+    setText("");
+    setIsOpen(false);
+  };
+
+  const onKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown") {
+      event.preventDefault();
+      setActiveIndex(index => Math.min(index + 1, results.length - 1));
+    } else if (event.key === "ArrowUp") {
+      event.preventDefault();
+      setActiveIndex(index => Math.max(index - 1, 0));
+    } else if (event.key === "Enter" && results[activeIndex]) {
+      event.preventDefault();
+      open(results[activeIndex]);
+    } else if (event.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+      <Input
+        type="search"
+        placeholder="Search everything..."
+        className="pl-10"
+        value={text}
+        maxLength={maxSearchLength}
+        onChange={(e) => {
+          setText(e.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={onKeyDown}
+        data-testid="input-global-search"
+      />
+      {isOpen && q && (
+        <div className="absolute z-50 mt-1 w-96 max-h-96 overflow-y-auto rounded-md border border-border bg-popover shadow-md">
+          {results.length === 0 ? (
+            <p className="px-4 py-3 text-sm text-muted-foreground">{isFetching ? "Searching..." : "No matches"}</p>
+          ) : (
+            <ul>
+              {results.map((result, index) => (
+                <li key={`${result.type}-${result.id}`}>
+                  <button
+                    type="button"
+                    className={cn(
+                      "w-full text-left px-4 py-2 hover:bg-accent",
+                      index === activeIndex && "bg-accent"
+                    )}
+                    // Keeps focus in the input, so its blur does not close the list before the click lands
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => open(result)}
+                    data-testid={`search-result-${result.type}-${result.id}`}
+                  >
+                    <div className="flex items-center justify-between space-x-2">
+                      <p className="text-sm font-medium text-foreground truncate">
+                        <Highlighted parts={result.title} />
+                      </p>
+                      <Badge variant="secondary">{searchEntityLabels[result.type]}</Badge>
+                    </div>
+                    {result.snippet.length > 0 && (
+                      <p className="text-xs text-muted-foreground truncate">
+                        <Highlighted parts={result.snippet} />
+                      </p>
+                    )}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
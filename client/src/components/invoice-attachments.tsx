@@ -0,0 +1,138 @@
+import { useRef } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Download, Paperclip, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { InvoiceAttachment } from "@shared/schema";
+import {
+  attachmentAccept, formatFileSize, isAllowedAttachmentType, maxAttachmentSize, maxAttachmentsPerInvoice
+} from "@shared/attachments";
+
+interface InvoiceAttachmentsProps {
+  invoiceId: string;
+}
+
+// Delivery receipts, purchase orders and other files kept with an invoice
+export default function InvoiceAttachments({ invoiceId }: InvoiceAttachmentsProps) {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+  const attachmentsUrl = `/api/invoices/${invoiceId}/attachments`;
+
+  const { data: attachments = [], isLoading } = useQuery<InvoiceAttachment[]>({
+    queryKey: [attachmentsUrl],
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const body = new FormData();
+      body.append("file", file);
+      // Sent as multipart, so not through apiRequest
+      const response = await fetch(attachmentsUrl, { method: "POST", body, credentials: "include" });
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(error.message);
+      }
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [attachmentsUrl] });
+      toast({ title: "File attached" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to attach file", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (attachmentId: string) => {
+      await apiRequest("DELETE", `${attachmentsUrl}/${attachmentId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [attachmentsUrl] });
+      toast({ title: "Attachment removed" });
+    },
+    onError: () => {
+      toast({ title: "Failed to remove attachment", variant: "destructive" });
+    },
+  });
+
+  const handleFile = (file: File | undefined) => {
+    if (fileInput.current) fileInput.current.value = "";
+    if (!file) return;
+    if (!isAllowedAttachmentType(file.type)) {
+      toast({ title: "Unsupported file type", description: "Attach a PDF, image, text, Word or Excel file", variant: "destructive" });
+      return;
+    }
+    if (file.size > maxAttachmentSize) {
+      toast({ title: "File is too large", description: `Attachments can be at most ${formatFileSize(maxAttachmentSize)}`, variant: "destructive" });
+      return;
+    }
+    uploadMutation.mutate(file);
+  };
+
+  return (
+    <Card>
+      <CardContent className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h4 className="text-lg font-medium text-foreground">Attachments</h4>
+          <input
+            ref={fileInput}
+            type="file"
+            accept={attachmentAccept}
+            className="hidden"
+            onChange={(e) => handleFile(e.target.files?.[0])}
+            data-testid="input-attachment-file"
+          />
+          <Button
+            type="button"
+            variant="secondary"
+            onClick={() => fileInput.current?.click()}
+            disabled={uploadMutation.isPending || attachments.length >= maxAttachmentsPerInvoice}
+            data-testid="button-add-attachment"
+          >
+            <Paperclip className="w-4 h-4 mr-2" />
+            {uploadMutation.isPending ? "Uploading..." : "Attach File"}
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading attachments...</p>
+        ) : attachments.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No files attached</p>
+        ) : (
+          <ul className="divide-y divide-border">
+            {attachments.map((attachment) => (
+              <li key={attachment.id} className="flex items-center justify-between py-2">
+                <div>
+                  <p className="text-sm font-medium text-foreground">{attachment.fileName}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatFileSize(attachment.size)} · {new Date(attachment.createdAt).toLocaleDateString()}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button variant="ghost" size="sm" asChild>
+                    <a href={`${attachmentsUrl}/${attachment.id}/download`} data-testid={`link-download-attachment-${attachment.id}`}>
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteMutation.mutate(attachment.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-attachment-${attachment.id}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -5,76 +5,131 @@ import { useMutation, useQuery } from "@tanstack/react-query";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent } from "@/components/ui/card";
-import { Trash2, Plus } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import type { Customer, Item, Invoice, InvoiceLineItem, Tax } from "@shared/schema";
-
-type InvoiceWithDetails = Invoice & {
-  customer: Customer;
-  lineItems: (InvoiceLineItem & { item: Item })[];
-};
-
-type ItemWithTaxes = Item & { taxes: Tax[] };
-
-interface LineItemForm {
-  itemId: string;
-  quantity: number;
-  unitPrice: number;
-}
+import { useLineItemCatalog } from "@/hooks/use-line-item-catalog";
+import LineItemsEditor, { billableLineItems, calculateLineItemTotals, type LineItemForm } from "@/components/line-items-editor";
+import type { Customer, InvoiceWithDetails, OrganisationSettings, Tax } from "@shared/schema";
+import { fromDiscountValue, toDiscountValue, type DiscountType } from "@shared/invoice-totals";
+import { formatMoney } from "@shared/money";
+import { defaultRoundingPolicy, roundingPolicies, roundingPolicyValues, type RoundingPolicy } from "@shared/rounding";
+import type { Page } from "@shared/list-query";
+import { statusLabel } from "@shared/invoice-status";
+import { dueDateFor, paymentTermsOptions, paymentTermsValues, type PaymentTerms } from "@shared/payment-terms";
+import { documentTypeLabels, type DocumentType } from "@shared/numbering";
 
 const invoiceFormSchema = z.object({
-  invoiceNumber: z.string().min(1, "Invoice number is required"),
+  invoiceNumber: z.string().optional(),
   customerId: z.string().min(1, "Customer is required"),
   issueDate: z.string().min(1, "Issue date is required"),
   dueDate: z.string().optional(),
-  status: z.enum(["pending", "paid", "overdue"]).default("pending"),
-  discount: z.string().or(z.number()).optional(),
+  paymentTerms: z.enum(paymentTermsValues).default("custom"),
+  notes: z.string().optional(),
+  terms: z.string().optional(),
+  discountType: z.enum(["flat", "percent"]).default("flat"),
+  discountValue: z.string().or(z.number()).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).default(defaultRoundingPolicy),
+  noteReason: z.string().optional(),
 });
 
 interface InvoiceFormProps {
   invoice?: InvoiceWithDetails;
+  // Set when raising a credit or debit note against an issued invoice
+  note?: { documentType: DocumentType; originalInvoice: InvoiceWithDetails };
   onSuccess: () => void;
 }
 
-export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
+export default function InvoiceForm({ invoice, note, onSuccess }: InvoiceFormProps) {
   const [lineItems, setLineItems] = useState<LineItemForm[]>([]);
   const { toast } = useToast();
 
-  const { data: customers = [] } = useQuery<Customer[]>({
+  const documentType = (invoice?.documentType as DocumentType) || note?.documentType || "invoice";
+  const documentLabel = documentTypeLabels[documentType];
+  const originalInvoice = invoice?.originalInvoice ?? note?.originalInvoice ?? null;
+
+  const { data: customerPage } = useQuery<Page<Customer>>({
     queryKey: ["/api/customers"],
   });
+  const customers = customerPage?.data ?? [];
+
+  const items = useLineItemCatalog(lineItems);
+
+  const { data: taxes = [] } = useQuery<Tax[]>({
+    queryKey: ["/api/taxes"],
+  });
 
-  const { data: items = [] } = useQuery<ItemWithTaxes[]>({
-    queryKey: ["/api/items"],
+  const { data: settings } = useQuery<OrganisationSettings>({
+    queryKey: ["/api/settings"],
   });
 
   const form = useForm<z.infer<typeof invoiceFormSchema>>({
     resolver: zodResolver(invoiceFormSchema),
     defaultValues: {
       invoiceNumber: invoice?.invoiceNumber || "",
-      customerId: invoice?.customerId || "",
+      customerId: invoice?.customerId || note?.originalInvoice.customerId || "",
       issueDate: invoice?.issueDate ? new Date(invoice.issueDate).toISOString().split('T')[0] : "",
       dueDate: invoice?.dueDate ? new Date(invoice.dueDate).toISOString().split('T')[0] : "",
-      status: (invoice?.status as "pending" | "paid" | "overdue") || "pending",
-      discount: invoice?.discount?.toString() || "0",
+      paymentTerms: (invoice?.paymentTerms as PaymentTerms) || "custom",
+      notes: invoice?.notes || "",
+      terms: invoice?.terms || "",
+      discountType: (invoice?.discountType as DiscountType) || "flat",
+      discountValue: invoice ? fromDiscountValue(invoice.discountType, invoice.discountValue).toString() : "0",
+      roundingPolicy: (invoice?.roundingPolicy as RoundingPolicy) || defaultRoundingPolicy,
+      noteReason: invoice?.noteReason || "",
     },
   });
 
+  // Blank numbers are allocated by the server; show which one the invoice will get
+  const issueDate = form.watch("issueDate");
+  const { data: nextNumber } = useQuery<{ invoiceNumber: string }>({
+    queryKey: [`/api/invoices/next-number?documentType=${documentType}&issueDate=${encodeURIComponent(issueDate || "")}`],
+    enabled: !invoice,
+    staleTime: 0,
+  });
+
+  // New documents start from the organisation defaults
+  useEffect(() => {
+    if (!invoice && settings) {
+      form.setValue("paymentTerms", settings.defaultPaymentTerms as PaymentTerms);
+      form.setValue("notes", settings.defaultNotes || "");
+      form.setValue("terms", settings.defaultTerms || "");
+    }
+  }, [invoice, settings, form]);
+
+  // A preset works the due date out from the issue date; the server applies the same rule
+  const paymentTerms = form.watch("paymentTerms");
+  const termsDueDate = issueDate ? dueDateFor(paymentTerms, new Date(`${issueDate}T00:00:00`)) : undefined;
+
   useEffect(() => {
-    if (invoice?.lineItems) {
+    // A credit note starts from the original's lines, to be trimmed down to what is returned or corrected
+    const source = invoice ?? (note?.documentType === "credit_note" ? note.originalInvoice : undefined);
+    if (source?.lineItems) {
       setLineItems(
-        invoice.lineItems.map((item) => ({
-          itemId: item.itemId,
+        source.lineItems.map((item) => ({
+          // Edited lines keep their ids; a note's lines are new lines of its own
+          ...(source === invoice ? { id: item.id } : {}),
+          itemId: item.itemId ?? "",
+          description: item.description ?? "",
+          // Lines whose item has since been deleted carry on as ad-hoc lines under the saved name
+          ...(item.itemId ? {} : {
+            adHoc: true,
+            description: item.itemName ?? item.description ?? "",
+            hsnSac: item.hsnSac ?? "",
+            taxIds: item.taxes.flatMap((tax) => tax.taxId ? [tax.taxId] : []),
+          }),
           quantity: item.quantity,
-          unitPrice: parseFloat(item.unitPrice),
+          unit: item.unit,
+          unitPrice: Number(item.unitPrice),
+          discountType: item.discountType as DiscountType,
+          discountValue: item.discountValue,
         }))
       );
     }
-  }, [invoice]);
+  }, [invoice, note?.documentType, note?.originalInvoice]);
 
   const createMutation = useMutation({
     mutationFn: async (data: any) => {
@@ -82,11 +137,11 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
       return response.json();
     },
     onSuccess: () => {
-      toast({ title: "Invoice created successfully" });
+      toast({ title: `${documentLabel} created successfully` });
       onSuccess();
     },
-    onError: () => {
-      toast({ title: "Failed to create invoice", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: `Failed to create ${documentLabel.toLowerCase()}`, description: error.message, variant: "destructive" });
     },
   });
 
@@ -96,79 +151,48 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
       return response.json();
     },
     onSuccess: () => {
-      toast({ title: "Invoice updated successfully" });
+      toast({ title: `${documentLabel} updated successfully` });
       onSuccess();
     },
-    onError: () => {
-      toast({ title: "Failed to update invoice", variant: "destructive" });
+    onError: (error) => {
+      toast({ title: `Failed to update ${documentLabel.toLowerCase()}`, description: error.message, variant: "destructive" });
     },
   });
 
-  const addLineItem = () => {
-    setLineItems([...lineItems, { itemId: "", quantity: 1, unitPrice: 0 }]);
-  };
-
-  const removeLineItem = (index: number) => {
-    setLineItems(lineItems.filter((_, i) => i !== index));
-  };
-
-  const updateLineItem = (index: number, field: keyof LineItemForm, value: any) => {
-    setLineItems(prev => {
-      const updated = [...prev];
-      updated[index] = { ...updated[index], [field]: value };
-      return updated;
-    });
-  };
-
-  const calculateTotals = () => {
-    let subtotal = 0;
-    let totalTax = 0;
-    const discount = Number(form.watch("discount")) || 0;
-
-    lineItems.forEach((lineItem) => {
-      const item = items.find((i) => String(i.id) === String(lineItem.itemId));
-      const quantity = Number(lineItem.quantity) || 0;
-      const unitPrice = Number(lineItem.unitPrice) || 0;
-      
-      const lineTotal = quantity * unitPrice;
-      subtotal += lineTotal;
-
-      if (item) {
-        // Calculate taxes for this line item
-        item.taxes.forEach((tax) => {
-          totalTax += (lineTotal * Number(tax.percentage)) / 100;
-        });
-      }
-    });
-
-    return {
-      subtotal,
-      totalTax,
-      total: Math.max(0, subtotal + totalTax - discount),
-    };
-  };
-
-  const totals = calculateTotals();
+  const billableLines = billableLineItems(lineItems);
+  const totals = calculateLineItemTotals(lineItems, items, {
+    type: form.watch("discountType"),
+    value: toDiscountValue(form.watch("discountType"), form.watch("discountValue")),
+  }, form.watch("roundingPolicy"), taxes);
 
-  const onSubmit = (data: z.infer<typeof invoiceFormSchema>) => {
+  // New invoices are saved as drafts unless issued straight away; existing ones are always drafts
+  const onSubmit = (data: z.infer<typeof invoiceFormSchema>, status: "draft" | "issued" = "draft") => {
     if (lineItems.length === 0) {
       toast({ title: "Please add at least one line item", variant: "destructive" });
       return;
     }
 
-    const processedLineItems = lineItems
-      .filter((item) => item.itemId && item.quantity > 0)
-      .map((item) => ({
-        itemId: item.itemId,
-        quantity: item.quantity,
-        unitPrice: item.unitPrice,
-        total: item.quantity * item.unitPrice,
-      }));
+    const processedLineItems = billableLines.map((item, index) => ({
+      id: item.id,
+      ...(item.adHoc
+        ? { itemId: null, description: item.description, hsnSac: item.hsnSac || null, taxIds: item.taxIds }
+        : { itemId: item.itemId, description: item.description || null }),
+      quantity: item.quantity,
+      unit: item.unit,
+      unitPrice: item.unitPrice,
+      discountType: item.discountType,
+      discountValue: item.discountValue,
+      total: totals.lines[index].lineTotal,
+    }));
 
     const invoiceData = {
       ...data,
+      noteReason: originalInvoice ? data.noteReason || null : null,
+      discountValue: toDiscountValue(data.discountType, data.discountValue),
       issueDate: new Date(data.issueDate).toISOString(),
       dueDate: data.dueDate ? new Date(data.dueDate).toISOString() : null,
+      notes: data.notes || null,
+      terms: data.terms || null,
       subtotal: totals.subtotal,
       totalTax: totals.totalTax,
       total: totals.total,
@@ -178,20 +202,25 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
     if (invoice) {
       updateMutation.mutate(invoiceData);
     } else {
-      createMutation.mutate(invoiceData);
+      createMutation.mutate({
+        ...invoiceData,
+        status,
+        documentType,
+        originalInvoiceId: note?.originalInvoice.id ?? null,
+      });
     }
   };
 
   return (
-    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+    <form onSubmit={form.handleSubmit((data) => onSubmit(data))} className="space-y-6">
       {/* Invoice Details */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
         <div>
-          <Label htmlFor="invoiceNumber">Invoice Number</Label>
+          <Label htmlFor="invoiceNumber">{documentLabel} Number</Label>
           <Input
             id="invoiceNumber"
             {...form.register("invoiceNumber")}
-            placeholder="INV-001"
+            placeholder={nextNumber?.invoiceNumber ? `Auto: ${nextNumber.invoiceNumber}` : "Auto-generated"}
             data-testid="input-invoice-number"
           />
           {form.formState.errors.invoiceNumber && (
@@ -222,6 +251,7 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
           <Select
             value={form.watch("customerId")}
             onValueChange={(value) => form.setValue("customerId", value)}
+            disabled={!!originalInvoice}
           >
             <SelectTrigger data-testid="select-customer">
               <SelectValue placeholder="Select Customer" />
@@ -240,109 +270,77 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
             </p>
           )}
         </div>
-        <div>
-          <Label htmlFor="dueDate">Due Date (Optional)</Label>
-          <Input
-            id="dueDate"
-            type="date"
-            {...form.register("dueDate")}
-            data-testid="input-due-date"
-          />
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <Label>Payment Terms</Label>
+            <Select
+              value={paymentTerms}
+              onValueChange={(value) => form.setValue("paymentTerms", value as PaymentTerms)}
+            >
+              <SelectTrigger data-testid="select-payment-terms">
+                <SelectValue placeholder="Payment terms" />
+              </SelectTrigger>
+              <SelectContent>
+                {paymentTermsOptions.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="dueDate">Due Date{paymentTerms === "custom" ? " (Optional)" : ""}</Label>
+            {paymentTerms === "custom" ? (
+              <Input
+                id="dueDate"
+                type="date"
+                {...form.register("dueDate")}
+                data-testid="input-due-date"
+              />
+            ) : (
+              <Input
+                id="dueDate"
+                value={termsDueDate ? termsDueDate.toLocaleDateString() : "Set from the issue date"}
+                disabled
+                data-testid="text-due-date"
+              />
+            )}
+          </div>
         </div>
       </div>
 
-      <div>
-        <Label htmlFor="status">Status</Label>
-        <Select
-          value={form.watch("status")}
-          onValueChange={(value) => form.setValue("status", value as "pending" | "paid" | "overdue")}
-        >
-          <SelectTrigger data-testid="select-status">
-            <SelectValue />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="pending">Pending</SelectItem>
-            <SelectItem value="paid">Paid</SelectItem>
-            <SelectItem value="overdue">Overdue</SelectItem>
-          </SelectContent>
-        </Select>
-      </div>
-
-      {/* Line Items */}
-      <div>
-        <div className="flex items-center justify-between mb-4">
-          <h4 className="text-lg font-medium text-foreground">Line Items</h4>
-          <Button type="button" variant="secondary" onClick={addLineItem} data-testid="button-add-line-item">
-            <Plus className="w-4 h-4 mr-2" />
-            Add Item
-          </Button>
+      {originalInvoice && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <Label>Original Invoice</Label>
+            <p className="text-sm text-foreground mt-2" data-testid="text-original-invoice">
+              {originalInvoice.invoiceNumber} ({new Date(originalInvoice.issueDate).toLocaleDateString()})
+            </p>
+          </div>
+          <div>
+            <Label htmlFor="noteReason">Reason</Label>
+            <Input
+              id="noteReason"
+              {...form.register("noteReason")}
+              placeholder={documentType === "credit_note" ? "Sales return, price correction..." : "Additional charges, price revision..."}
+              data-testid="input-note-reason"
+            />
+          </div>
         </div>
+      )}
 
-        <div className="space-y-3">
-          {lineItems.map((lineItem, index) => (
-            <Card key={index}>
-              <CardContent className="p-4">
-                <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-                  <div className="md:col-span-2">
-                    <Label>Item</Label>
-                    <select
-                      className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
-                      value={lineItem.itemId}
-                      onChange={(e) => {
-                        const value = e.target.value;
-                        updateLineItem(index, "itemId", value);
-                        const item = items.find((i) => String(i.id) === String(value));
-                        if (item) {
-                          updateLineItem(index, "unitPrice", parseFloat(item.unitPrice.toString()));
-                        }
-                      }}
-                      data-testid={`select-item-${index}`}
-                    >
-                      <option value="">Select Item</option>
-                      {items.map((item) => (
-                        <option key={item.id} value={String(item.id)}>
-                          {item.name} - ₹{parseFloat(item.unitPrice.toString()).toLocaleString()}
-                        </option>
-                      ))}
-                    </select>
-                  </div>
-                  <div>
-                    <Label>Quantity</Label>
-                    <Input
-                      type="number"
-                      min="1"
-                      value={lineItem.quantity}
-                      onChange={(e) => updateLineItem(index, "quantity", parseInt(e.target.value) || 1)}
-                      data-testid={`input-quantity-${index}`}
-                    />
-                  </div>
-                  <div>
-                    <Label>Rate (₹)</Label>
-                    <Input
-                      type="number"
-                      step="0.01"
-                      value={lineItem.unitPrice}
-                      onChange={(e) => updateLineItem(index, "unitPrice", parseFloat(e.target.value) || 0)}
-                      data-testid={`input-rate-${index}`}
-                    />
-                  </div>
-                  <div className="flex items-end">
-                    <Button
-                      type="button"
-                      variant="ghost"
-                      size="sm"
-                      onClick={() => removeLineItem(index)}
-                      data-testid={`button-remove-item-${index}`}
-                    >
-                      <Trash2 className="w-4 h-4" />
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
+      {invoice && (
+        <div>
+          <Label>Status</Label>
+          {/* Status changes through the lifecycle actions on the invoice list, not here */}
+          <p className="text-sm text-foreground mt-2" data-testid="text-status">
+            {statusLabel(invoice.status)}
+          </p>
         </div>
-      </div>
+      )}
+
+      <LineItemsEditor lineItems={lineItems} onChange={setLineItems} items={items} taxes={taxes} />
 
       {/* Invoice Totals */}
       <Card>
@@ -351,43 +349,105 @@ export default function InvoiceForm({ invoice, onSuccess }: InvoiceFormProps) {
           <div className="space-y-2">
             <div className="flex justify-between text-sm">
               <span className="text-muted-foreground">Subtotal:</span>
-              <span className="text-foreground font-medium">₹{totals.subtotal.toLocaleString()}</span>
-            </div>
-            <div className="flex justify-between text-sm">
-              <span className="text-muted-foreground">Total Tax:</span>
-              <span className="text-foreground font-medium">₹{totals.totalTax.toLocaleString()}</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.subtotal)}</span>
             </div>
             <div className="flex justify-between items-center text-sm">
-              <span className="text-muted-foreground">Discount:</span>
+              <span className="text-muted-foreground">Discount (before tax):</span>
               <div className="flex items-center space-x-2">
-                <span className="text-muted-foreground">₹</span>
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("discountType")}
+                  onChange={(e) => form.setValue("discountType", e.target.value as DiscountType)}
+                  data-testid="select-invoice-discount-type"
+                >
+                  <option value="flat">₹</option>
+                  <option value="percent">%</option>
+                </select>
                 <Input
                   type="number"
+                  min="0"
+                  step="0.01"
                   className="w-24 h-8 text-right"
-                  {...form.register("discount")}
+                  {...form.register("discountValue")}
                   data-testid="input-invoice-discount"
                 />
+                <span className="text-foreground font-medium">-{formatMoney(totals.discount)}</span>
+              </div>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Total Tax:</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.totalTax)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Round off:</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("roundingPolicy")}
+                  onChange={(e) => form.setValue("roundingPolicy", e.target.value as RoundingPolicy)}
+                  data-testid="select-invoice-rounding"
+                >
+                  {roundingPolicies.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-foreground font-medium">{totals.roundOff > 0 ? "+" : ""}{formatMoney(totals.roundOff)}</span>
               </div>
             </div>
             <div className="border-t border-border pt-2">
               <div className="flex justify-between">
                 <span className="text-foreground font-semibold">Total:</span>
-                <span className="text-foreground font-bold text-lg">₹{totals.total.toLocaleString()}</span>
+                <span className="text-foreground font-bold text-lg">{formatMoney(totals.total)}</span>
               </div>
             </div>
           </div>
         </CardContent>
       </Card>
 
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label htmlFor="notes">Notes</Label>
+          <Textarea
+            id="notes"
+            {...form.register("notes")}
+            placeholder="Thank you for your business"
+            rows={3}
+            data-testid="input-invoice-notes"
+          />
+        </div>
+        <div>
+          <Label htmlFor="terms">Terms & Conditions</Label>
+          <Textarea
+            id="terms"
+            {...form.register("terms")}
+            rows={3}
+            data-testid="input-invoice-terms"
+          />
+        </div>
+      </div>
+
       {/* Form Actions */}
       <div className="flex items-center justify-end space-x-3">
         <Button
           type="submit"
+          variant={invoice ? "default" : "outline"}
           disabled={createMutation.isPending || updateMutation.isPending}
           data-testid="button-submit-invoice"
         >
-          {invoice ? "Update Invoice" : "Create Invoice"}
+          {invoice ? "Update Draft" : "Save as Draft"}
         </Button>
+        {!invoice && (
+          <Button
+            type="button"
+            onClick={form.handleSubmit((data) => onSubmit(data, "issued"))}
+            disabled={createMutation.isPending}
+            data-testid="button-issue-invoice"
+          >
+            Create & Issue
+          </Button>
+        )}
       </div>
     </form>
   );
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { Customer, InvoiceRevision } from "@shared/schema";
+import { dateFields, moneyFields, type FieldChange, type RevisionDiff, type SnapshotValue } from "@shared/invoice-revisions";
+import { statusLabel } from "@shared/invoice-status";
+import { paymentTermsLabel } from "@shared/payment-terms";
+import { formatMoney } from "@shared/money";
+import type { Page } from "@shared/list-query";
+
+interface InvoiceHistoryProps {
+  invoiceId: string;
+}
+
+type RevisionSummary = Omit<InvoiceRevision, "snapshot">;
+
+const lineKindColors: Record<string, string> = {
+  added: "bg-green-100 text-green-800",
+  removed: "bg-red-100 text-red-800",
+  changed: "bg-blue-100 text-blue-800",
+};
+
+// Every saved revision of an invoice, and the field-level changes between any two
+export default function InvoiceHistory({ invoiceId }: InvoiceHistoryProps) {
+  const revisionsUrl = `/api/invoices/${invoiceId}/revisions`;
+  const [from, setFrom] = useState<number | null>(null);
+  const [to, setTo] = useState<number | null>(null);
+
+  // Every save adds a revision, so the list is fetched afresh each time the history opens;
+  // a diff never changes once both revisions exist
+  const { data: revisions = [], isLoading } = useQuery<RevisionSummary[]>({
+    queryKey: [revisionsUrl],
+    staleTime: 0,
+  });
+
+  const { data: customerPage } = useQuery<Page<Customer>>({
+    queryKey: ["/api/customers"],
+  });
+  const customers = customerPage?.data ?? [];
+
+  // Start with the latest save compared against the one before it
+  useEffect(() => {
+    if (revisions.length > 0 && to === null) {
+      setTo(revisions[0].revision);
+      setFrom(revisions.length > 1 ? revisions[1].revision : null);
+    }
+  }, [revisions, to]);
+
+  const { data: diff, isLoading: isDiffLoading } = useQuery<RevisionDiff>({
+    queryKey: [`${revisionsUrl}/diff?from=${from}&to=${to}`],
+    enabled: from !== null && to !== null,
+  });
+
+  const formatValue = (field: string, value: SnapshotValue): string => {
+    if (value === null || value === "") return "—";
+    if (moneyFields.has(field)) return formatMoney(Number(value));
+    if (dateFields.has(field)) return new Date(String(value)).toLocaleDateString();
+    if (field === "customerId") return customers.find(customer => customer.id === value)?.name ?? String(value);
+    if (field === "status") return statusLabel(String(value));
+    if (field === "paymentTerms") return paymentTermsLabel(String(value));
+    if (field === "discountValue") return String(Number(value) / 100);
+    return String(value);
+  };
+
+  const renderChanges = (changes: FieldChange[]) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Field</TableHead>
+          <TableHead>Before</TableHead>
+          <TableHead>After</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {changes.map((change) => (
+          <TableRow key={change.field}>
+            <TableCell className="font-medium">{change.label}</TableCell>
+            <TableCell className="text-muted-foreground whitespace-pre-wrap">{formatValue(change.field, change.before)}</TableCell>
+            <TableCell className="whitespace-pre-wrap">{formatValue(change.field, change.after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+
+  const revisionSelect = (value: number | null, onChange: (revision: number) => void, testId: string) => (
+    <Select value={value === null ? undefined : String(value)} onValueChange={(revision) => onChange(Number(revision))}>
+      <SelectTrigger data-testid={testId}>
+        <SelectValue placeholder="Select revision" />
+      </SelectTrigger>
+      <SelectContent>
+        {revisions.map((revision) => (
+          <SelectItem key={revision.id} value={String(revision.revision)}>
+            #{revision.revision} · {new Date(revision.createdAt).toLocaleString()}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  if (isLoading) {
+    return <p className="text-sm text-muted-foreground">Loading history...</p>;
+  }
+  if (revisions.length === 0) {
+    return <p className="text-sm text-muted-foreground">No revisions recorded yet</p>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h4 className="text-lg font-medium text-foreground mb-2">Revisions</h4>
+        <ul className="divide-y divide-border">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="flex items-center justify-between py-2 text-sm" data-testid={`revision-${revision.revision}`}>
+              <span className="font-medium">#{revision.revision}</span>
+              <span className="text-muted-foreground">{revision.changedBy || "Unknown user"}</span>
+              <span className="text-muted-foreground">{new Date(revision.createdAt).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      {revisions.length > 1 && (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Compare</Label>
+              {revisionSelect(from, setFrom, "select-revision-from")}
+            </div>
+            <div>
+              <Label>With</Label>
+              {revisionSelect(to, setTo, "select-revision-to")}
+            </div>
+          </div>
+
+          {isDiffLoading || !diff ? (
+            <p className="text-sm text-muted-foreground">Comparing revisions...</p>
+          ) : diff.header.length === 0 && diff.lines.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No changes between these revisions</p>
+          ) : (
+            <div className="space-y-4">
+              {diff.header.length > 0 && renderChanges(diff.header)}
+              {diff.lines.map((line, index) => (
+                <div key={index} className="space-y-2">
+                  <div className="flex items-center space-x-2">
+                    <Badge className={lineKindColors[line.kind]}>
+                      {line.kind === "added" ? "Line added" : line.kind === "removed" ? "Line removed" : "Line changed"}
+                    </Badge>
+                    <span className="text-sm font-medium">{line.name}</span>
+                  </div>
+                  {renderChanges(line.changes)}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
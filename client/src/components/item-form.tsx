@@ -8,12 +8,20 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { insertItemSchema, type Item, type Tax } from "@shared/schema";
+import { fromPaise, toPaise } from "@shared/money";
+import { defaultUnit, findUnit, maxQuantityDecimals, unitsOfMeasure } from "@shared/units";
 
 type ItemWithTaxes = Item & { taxes: Tax[] };
 
+// The price is edited in rupees and stored in paise
+const itemFormSchema = insertItemSchema.extend({
+  unitPrice: z.coerce.number().min(0, "Price cannot be negative"),
+});
+
 interface ItemFormProps {
   item?: ItemWithTaxes;
   onSuccess: () => void;
@@ -29,12 +37,15 @@ export default function ItemForm({ item, onSuccess }: ItemFormProps) {
     queryKey: ["/api/taxes"],
   });
 
-  const form = useForm<z.infer<typeof insertItemSchema>>({
-    resolver: zodResolver(insertItemSchema),
+  const form = useForm<z.infer<typeof itemFormSchema>>({
+    resolver: zodResolver(itemFormSchema),
     defaultValues: {
       name: item?.name || "",
       description: item?.description || "",
-      unitPrice: item?.unitPrice || "0",
+      hsnSac: item?.hsnSac || "",
+      unitPrice: item ? fromPaise(item.unitPrice) : 0,
+      unit: item?.unit || defaultUnit,
+      quantityDecimals: item?.quantityDecimals ?? 0,
     },
   });
 
@@ -74,8 +85,8 @@ export default function ItemForm({ item, onSuccess }: ItemFormProps) {
     }
   };
 
-  const onSubmit = (data: z.infer<typeof insertItemSchema>) => {
-    const submitData = { ...data, taxIds: selectedTaxIds };
+  const onSubmit = (data: z.infer<typeof itemFormSchema>) => {
+    const submitData = { ...data, unitPrice: toPaise(data.unitPrice), taxIds: selectedTaxIds };
     
     if (item) {
       updateMutation.mutate(submitData);
@@ -117,6 +128,21 @@ export default function ItemForm({ item, onSuccess }: ItemFormProps) {
         )}
       </div>
 
+      <div>
+        <Label htmlFor="hsnSac">HSN/SAC</Label>
+        <Input
+          id="hsnSac"
+          {...form.register("hsnSac")}
+          placeholder="HSN code for goods, SAC for services"
+          data-testid="input-item-hsn"
+        />
+        {form.formState.errors.hsnSac && (
+          <p className="text-sm text-destructive mt-1">
+            {form.formState.errors.hsnSac.message}
+          </p>
+        )}
+      </div>
+
       <div>
         <Label htmlFor="unitPrice">Unit Price (₹) *</Label>
         <Input
@@ -135,6 +161,48 @@ export default function ItemForm({ item, onSuccess }: ItemFormProps) {
         )}
       </div>
 
+      <div className="grid grid-cols-2 gap-4">
+        <div>
+          <Label>Unit</Label>
+          <Select
+            value={form.watch("unit")}
+            onValueChange={(value) => {
+              form.setValue("unit", value);
+              // Suggest the usual precision for the unit; it can still be changed below
+              form.setValue("quantityDecimals", findUnit(value)?.decimals ?? 0);
+            }}
+          >
+            <SelectTrigger data-testid="select-item-unit">
+              <SelectValue placeholder="Select Unit" />
+            </SelectTrigger>
+            <SelectContent>
+              {unitsOfMeasure.map((unit) => (
+                <SelectItem key={unit.code} value={unit.code}>
+                  {unit.code} ({unit.label})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="quantityDecimals">Quantity Decimals</Label>
+          <Input
+            id="quantityDecimals"
+            type="number"
+            min="0"
+            max={maxQuantityDecimals}
+            step="1"
+            {...form.register("quantityDecimals")}
+            data-testid="input-item-quantity-decimals"
+          />
+          {form.formState.errors.quantityDecimals && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.quantityDecimals.message}
+            </p>
+          )}
+        </div>
+      </div>
+
       <div>
         <Label>Applicable Taxes</Label>
         <div className="space-y-2 mt-2">
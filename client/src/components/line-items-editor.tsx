@@ -0,0 +1,286 @@
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Trash2, Plus, PenLine } from "lucide-react";
+import type { Item, Tax } from "@shared/schema";
+import {
+  calculateInvoiceTotals, fromDiscountValue, toDiscountValue, type Discount, type DiscountType
+} from "@shared/invoice-totals";
+import { formatMoney, fromPaise, toPaise, type Paise } from "@shared/money";
+import type { RoundingPolicy } from "@shared/rounding";
+import { defaultUnit, maxQuantityDecimals, roundQuantity, unitsOfMeasure } from "@shared/units";
+
+export type ItemWithTaxes = Item & { taxes: Tax[] };
+
+// Amounts are kept in paise, as sent to the server; the inputs show rupees
+export interface LineItemForm {
+  id?: string; // the saved line, when editing an invoice
+  itemId: string;
+  quantity: number;
+  unit: string; // taken from the item, can be changed per line
+  unitPrice: Paise;
+  discountType: DiscountType;
+  discountValue: number; // paise, or basis points for a percentage
+  // An ad-hoc line is described here instead of picked from the catalog, and is
+  // taxed with the taxes ticked on the line
+  adHoc?: boolean;
+  description?: string; // the item's description, which can be edited per line
+  hsnSac?: string;
+  taxIds?: string[];
+}
+
+// Only lines that will actually be submitted count towards the totals
+export const billableLineItems = (lineItems: LineItemForm[]) =>
+  lineItems.filter((item) => (item.adHoc ? item.description?.trim() : item.itemId) && item.quantity > 0);
+
+// Same calculation the server applies, so the preview always matches what gets stored
+export function calculateLineItemTotals(
+  lineItems: LineItemForm[],
+  items: ItemWithTaxes[],
+  discount: Discount,
+  rounding?: RoundingPolicy,
+  taxes: Tax[] = []
+) {
+  return calculateInvoiceTotals(
+    billableLineItems(lineItems).map((lineItem) => {
+      const item = items.find((i) => String(i.id) === String(lineItem.itemId));
+      return {
+        quantity: Number(lineItem.quantity) || 0,
+        unitPrice: Number(lineItem.unitPrice) || 0,
+        taxes: lineItem.adHoc
+          ? taxes.filter((tax) => lineItem.taxIds?.includes(tax.id))
+          : item?.taxes || [],
+        discount: { type: lineItem.discountType, value: lineItem.discountValue },
+      };
+    }),
+    { discount, rounding }
+  );
+}
+
+interface LineItemsEditorProps {
+  lineItems: LineItemForm[];
+  onChange: (update: (lineItems: LineItemForm[]) => LineItemForm[]) => void;
+  items: ItemWithTaxes[];
+  // Passing the tax list allows ad-hoc lines and per-line descriptions; only invoices
+  // and notes support them
+  taxes?: Tax[];
+}
+
+// The line item rows shared by invoices, credit/debit notes and estimates
+export default function LineItemsEditor({ lineItems, onChange, items, taxes }: LineItemsEditorProps) {
+  const addLineItem = () => {
+    onChange(prev => [...prev, { itemId: "", quantity: 1, unit: "", unitPrice: 0, discountType: "flat", discountValue: 0 }]);
+  };
+
+  const addAdHocLineItem = () => {
+    onChange(prev => [...prev, {
+      itemId: "", quantity: 1, unit: defaultUnit, unitPrice: 0, discountType: "flat", discountValue: 0,
+      adHoc: true, description: "", hsnSac: "", taxIds: [],
+    }]);
+  };
+
+  const removeLineItem = (index: number) => {
+    onChange(prev => prev.filter((_, i) => i !== index));
+  };
+
+  // Precision allowed by the line's item; whole numbers until an item is picked
+  const quantityDecimals = (lineItem: LineItemForm) => lineItem.adHoc
+    ? maxQuantityDecimals
+    : items.find((i) => String(i.id) === String(lineItem.itemId))?.quantityDecimals ?? 0;
+
+  const toggleLineTax = (index: number, taxId: string, checked: boolean) => {
+    const taxIds = lineItems[index].taxIds ?? [];
+    updateLineItem(index, "taxIds", checked ? [...taxIds, taxId] : taxIds.filter(id => id !== taxId));
+  };
+
+  const updateLineItem = (index: number, field: keyof LineItemForm, value: any) => {
+    onChange(prev => {
+      const updated = [...prev];
+      updated[index] = { ...updated[index], [field]: value };
+      return updated;
+    });
+  };
+
+  return (
+  <div>
+    <div className="flex items-center justify-between mb-4">
+      <h4 className="text-lg font-medium text-foreground">Line Items</h4>
+      <div className="flex items-center space-x-2">
+        {taxes && (
+          <Button type="button" variant="outline" onClick={addAdHocLineItem} data-testid="button-add-adhoc-line-item">
+            <PenLine className="w-4 h-4 mr-2" />
+            Add Custom Line
+          </Button>
+        )}
+        <Button type="button" variant="secondary" onClick={addLineItem} data-testid="button-add-line-item">
+          <Plus className="w-4 h-4 mr-2" />
+          Add Item
+        </Button>
+      </div>
+    </div>
+
+    <div className="space-y-3">
+      {lineItems.map((lineItem, index) => (
+        <Card key={index}>
+          <CardContent className="p-4">
+            <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+              <div className="md:col-span-2">
+                <Label>{lineItem.adHoc ? "Description" : "Item"}</Label>
+                {lineItem.adHoc ? (
+                  <Input
+                    value={lineItem.description ?? ""}
+                    onChange={(e) => updateLineItem(index, "description", e.target.value)}
+                    placeholder="e.g. Courier charges"
+                    data-testid={`input-line-description-${index}`}
+                  />
+                ) : (
+                  <select
+                    className="flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background file:border-0 file:bg-transparent file:text-sm file:font-medium placeholder:text-muted-foreground focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50"
+                    value={lineItem.itemId}
+                    onChange={(e) => {
+                      const value = e.target.value;
+                      updateLineItem(index, "itemId", value);
+                      const item = items.find((i) => String(i.id) === String(value));
+                      if (item) {
+                        updateLineItem(index, "unitPrice", item.unitPrice);
+                        updateLineItem(index, "unit", item.unit);
+                        updateLineItem(index, "description", item.description ?? "");
+                        updateLineItem(index, "quantity", roundQuantity(lineItem.quantity, item.quantityDecimals) || 1);
+                      }
+                    }}
+                    data-testid={`select-item-${index}`}
+                  >
+                    <option value="">Select Item</option>
+                    {items.filter((item) => !item.deletedAt || item.id === lineItem.itemId).map((item) => (
+                      <option key={item.id} value={String(item.id)}>
+                        {item.name} - {formatMoney(item.unitPrice)}{item.deletedAt ? " (in trash)" : ""}
+                      </option>
+                    ))}
+                  </select>
+                )}
+              </div>
+              <div>
+                <Label>Quantity</Label>
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    step={1 / 10 ** quantityDecimals(lineItem)}
+                    value={lineItem.quantity}
+                    onChange={(e) => updateLineItem(index, "quantity", roundQuantity(e.target.value || 0, quantityDecimals(lineItem)))}
+                    data-testid={`input-quantity-${index}`}
+                  />
+                  <select
+                    className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+                    value={lineItem.unit}
+                    onChange={(e) => updateLineItem(index, "unit", e.target.value)}
+                    title="Unit of measure"
+                    data-testid={`select-unit-${index}`}
+                  >
+                    {!lineItem.unit && <option value="">Unit</option>}
+                    {unitsOfMeasure.map((unit) => (
+                      <option key={unit.code} value={unit.code} title={unit.label}>
+                        {unit.code}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+              <div>
+                <Label>Rate (₹)</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  value={fromPaise(lineItem.unitPrice)}
+                  onChange={(e) => updateLineItem(index, "unitPrice", toPaise(e.target.value))}
+                  data-testid={`input-rate-${index}`}
+                />
+              </div>
+              <div>
+                <Label>Discount</Label>
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={fromDiscountValue(lineItem.discountType, lineItem.discountValue)}
+                    onChange={(e) => updateLineItem(index, "discountValue", toDiscountValue(lineItem.discountType, e.target.value))}
+                    data-testid={`input-line-discount-${index}`}
+                  />
+                  <select
+                    className="h-10 rounded-md border border-input bg-background px-2 text-sm"
+                    value={lineItem.discountType}
+                    onChange={(e) => updateLineItem(index, "discountType", e.target.value as DiscountType)}
+                    data-testid={`select-line-discount-type-${index}`}
+                  >
+                    <option value="flat">₹</option>
+                    <option value="percent">%</option>
+                  </select>
+                </div>
+              </div>
+              <div className="flex items-end">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeLineItem(index)}
+                  data-testid={`button-remove-item-${index}`}
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            {taxes && !lineItem.adHoc && lineItem.itemId && (
+              <div className="mt-4">
+                <Label>Description</Label>
+                <Input
+                  value={lineItem.description ?? ""}
+                  onChange={(e) => updateLineItem(index, "description", e.target.value)}
+                  placeholder="Printed under the item name"
+                  data-testid={`input-line-item-description-${index}`}
+                />
+              </div>
+            )}
+            {lineItem.adHoc && (
+              <div className="grid grid-cols-1 md:grid-cols-6 gap-4 mt-4">
+                <div>
+                  <Label>HSN/SAC</Label>
+                  <Input
+                    value={lineItem.hsnSac ?? ""}
+                    onChange={(e) => updateLineItem(index, "hsnSac", e.target.value)}
+                    placeholder="e.g. 996812"
+                    data-testid={`input-line-hsn-${index}`}
+                  />
+                </div>
+                <div className="md:col-span-5">
+                  <Label>Taxes</Label>
+                  <div className="flex flex-wrap items-center gap-4 h-10">
+                    {(taxes ?? []).map((tax) => (
+                      <div key={tax.id} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={`line-tax-${index}-${tax.id}`}
+                          checked={lineItem.taxIds?.includes(tax.id) ?? false}
+                          onCheckedChange={(checked) => toggleLineTax(index, tax.id, checked as boolean)}
+                          data-testid={`checkbox-line-tax-${index}-${tax.id}`}
+                        />
+                        <Label htmlFor={`line-tax-${index}-${tax.id}`} className="text-sm font-normal">
+                          {tax.name} ({tax.percentage}%)
+                        </Label>
+                      </div>
+                    ))}
+                    {taxes?.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No taxes available</p>
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  </div>
+  );
+}
@@ -0,0 +1,84 @@
+import type { ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { TableHead } from "@/components/ui/table";
+import { ArrowDown, ArrowUp, ArrowUpDown, ChevronLeft, ChevronRight } from "lucide-react";
+import type { Page, SortOrder } from "@shared/list-query";
+
+// Paging and sorting for the tables backed by a paged list endpoint; see shared/list-query.ts
+
+export interface ListSort<K extends string> {
+  sort: K;
+  order: SortOrder;
+}
+
+// Clicking the current column flips the order; clicking another sorts by it, newest or largest first
+export const nextSort = <K extends string>(current: ListSort<K>, sort: K): ListSort<K> =>
+  current.sort === sort
+    ? { sort, order: current.order === "asc" ? "desc" : "asc" }
+    : { sort, order: "desc" };
+
+interface SortableHeadProps<K extends string> {
+  column: K;
+  current: ListSort<K>;
+  onSort: (sort: ListSort<K>) => void;
+  children: ReactNode;
+}
+
+export function SortableHead<K extends string>({ column, current, onSort, children }: SortableHeadProps<K>) {
+  const Icon = current.sort !== column ? ArrowUpDown : current.order === "asc" ? ArrowUp : ArrowDown;
+  return (
+    <TableHead>
+      <button
+        type="button"
+        className="inline-flex items-center hover:text-foreground"
+        onClick={() => onSort(nextSort(current, column))}
+        data-testid={`sort-${column}`}
+      >
+        {children}
+        <Icon className={`w-3 h-3 ml-1 ${current.sort === column ? "" : "opacity-40"}`} />
+      </button>
+    </TableHead>
+  );
+}
+
+interface ListPaginationProps {
+  page?: Page<unknown>;
+  onOffsetChange: (offset: number) => void;
+  disabled?: boolean;
+}
+
+export function ListPagination({ page, onOffsetChange, disabled }: ListPaginationProps) {
+  if (!page || page.total === 0) return null;
+  const first = page.offset + 1;
+  const last = Math.min(page.offset + page.limit, page.total);
+
+  return (
+    <div className="px-4 py-3 border-t border-border flex items-center justify-between">
+      <p className="text-sm text-muted-foreground" data-testid="text-page-range">
+        {first}–{last} of {page.total}
+      </p>
+      <div className="flex items-center space-x-2">
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(Math.max(0, page.offset - page.limit))}
+          disabled={disabled || page.offset === 0}
+          data-testid="button-previous-page"
+        >
+          <ChevronLeft className="w-4 h-4 mr-1" />
+          Previous
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => onOffsetChange(page.offset + page.limit)}
+          disabled={disabled || last >= page.total}
+          data-testid="button-next-page"
+        >
+          Next
+          <ChevronRight className="w-4 h-4 ml-1" />
+        </Button>
+      </div>
+    </div>
+  );
+}
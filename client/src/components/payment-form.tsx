@@ -0,0 +1,154 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { paymentModes, type PaymentMode } from "@shared/payments";
+import { formatMoney, fromPaise, toPaise } from "@shared/money";
+import type { InvoiceWithDetails } from "@shared/schema";
+
+const paymentFormSchema = z.object({
+  paymentDate: z.string().min(1, "Payment date is required"),
+  amount: z.coerce.number().positive("Amount must be greater than zero"), // rupees, sent as paise
+  mode: z.enum(["upi", "neft", "rtgs", "imps", "cash", "cheque", "card", "other"]),
+  referenceNumber: z.string().optional(),
+  allowOverpayment: z.boolean().default(false),
+});
+
+interface PaymentFormProps {
+  invoice: InvoiceWithDetails;
+  onSuccess: () => void;
+}
+
+export default function PaymentForm({ invoice, onSuccess }: PaymentFormProps) {
+  const { toast } = useToast();
+
+  const form = useForm<z.infer<typeof paymentFormSchema>>({
+    resolver: zodResolver(paymentFormSchema),
+    defaultValues: {
+      paymentDate: new Date().toISOString().split('T')[0],
+      amount: fromPaise(Math.max(invoice.balanceDue, 0)),
+      mode: "upi",
+      referenceNumber: "",
+      allowOverpayment: false,
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: z.infer<typeof paymentFormSchema>) => {
+      const response = await apiRequest("POST", `/api/invoices/${invoice.id}/payments`, {
+        ...data,
+        amount: toPaise(data.amount),
+        paymentDate: new Date(data.paymentDate).toISOString(),
+        referenceNumber: data.referenceNumber || null,
+      });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Payment recorded successfully" });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to record payment", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const isOverpayment = toPaise(form.watch("amount")) > invoice.balanceDue;
+
+  return (
+    <form onSubmit={form.handleSubmit((data) => createMutation.mutate(data))} className="space-y-4">
+      <div className="flex justify-between text-sm">
+        <span className="text-muted-foreground">Balance due:</span>
+        <span className="font-medium text-foreground">{formatMoney(invoice.balanceDue)}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label htmlFor="amount">Amount (₹) *</Label>
+          <Input
+            id="amount"
+            type="number"
+            step="0.01"
+            min="0"
+            {...form.register("amount")}
+            data-testid="input-payment-amount"
+          />
+          {form.formState.errors.amount && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.amount.message}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="paymentDate">Payment Date *</Label>
+          <Input
+            id="paymentDate"
+            type="date"
+            {...form.register("paymentDate")}
+            data-testid="input-payment-date"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Mode</Label>
+          <Select
+            value={form.watch("mode")}
+            onValueChange={(value) => form.setValue("mode", value as PaymentMode)}
+          >
+            <SelectTrigger data-testid="select-payment-mode">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {paymentModes.map((mode) => (
+                <SelectItem key={mode.value} value={mode.value}>
+                  {mode.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="referenceNumber">Reference Number</Label>
+          <Input
+            id="referenceNumber"
+            {...form.register("referenceNumber")}
+            placeholder="UTR / cheque number"
+            data-testid="input-payment-reference"
+          />
+        </div>
+      </div>
+
+      {isOverpayment && (
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="allowOverpayment"
+            checked={form.watch("allowOverpayment")}
+            onCheckedChange={(checked) => form.setValue("allowOverpayment", checked as boolean)}
+            data-testid="checkbox-allow-overpayment"
+          />
+          <Label htmlFor="allowOverpayment" className="text-sm">
+            Amount exceeds the balance; record the excess as an overpayment
+          </Label>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end space-x-3">
+        <Button
+          type="submit"
+          disabled={createMutation.isPending}
+          data-testid="button-submit-payment"
+        >
+          Record Payment
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -4,11 +4,19 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/u
 import { Card, CardContent } from "@/components/ui/card";
 import { Download, FileText, Palette, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import type { Invoice, Customer, InvoiceLineItem, Item, Template } from "@shared/schema";
+import type { InvoiceWithDetails, Template } from "@shared/schema";
+import { statusLabel } from "@shared/invoice-status";
+import type { DocumentType } from "@shared/numbering";
+import { formatMoney, fromBasisPoints } from "@shared/money";
+import { formatQuantity } from "@shared/units";
+import { paymentTermsLabel } from "@shared/payment-terms";
 
-type InvoiceWithDetails = Invoice & {
-  customer: Customer;
-  lineItems: (InvoiceLineItem & { item: Item })[];
+// Heading printed on each kind of document
+const documentTitles: Record<DocumentType, string> = {
+  invoice: "INVOICE",
+  credit_note: "CREDIT NOTE",
+  debit_note: "DEBIT NOTE",
+  estimate: "ESTIMATE",
 };
 
 interface PDFGeneratorProps {
@@ -21,30 +29,58 @@ export default function PDFGenerator({ invoice, template }: PDFGeneratorProps) {
   const [isGenerating, setIsGenerating] = useState(false);
   const { toast } = useToast();
 
+
   const generatePDFContent = () => {
-    const formatCurrency = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
     const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString();
 
-    // Calculate line item totals with taxes
-    const lineItemsWithTotals = invoice.lineItems.map(lineItem => {
-      const lineTotal = lineItem.quantity * parseFloat(lineItem.unitPrice);
-      return {
-        ...lineItem,
-        lineTotal: formatCurrency(lineTotal.toString())
-      };
+    // Line amounts and taxes come from the snapshot stored with the invoice, never the live catalog
+    const lineItemsWithTotals = invoice.lineItems.map(lineItem => ({
+      ...lineItem,
+      // An ad-hoc line has no item name; its description is the line's text
+      name: lineItem.itemName ?? lineItem.description ?? "",
+      details: lineItem.itemName ? lineItem.description : null,
+      formattedDiscount: lineItem.discount ? formatMoney(lineItem.discount) : null,
+      lineTotal: formatMoney(lineItem.total)
+    }));
+
+    const taxBreakdown = new Map<string, { name: string; rate: number; amount: number }>();
+    invoice.lineItems.forEach(lineItem => {
+      lineItem.taxes.forEach(tax => {
+        const key = `${tax.taxName}|${tax.rate}`;
+        const existing = taxBreakdown.get(key);
+        if (existing) {
+          existing.amount += tax.taxAmount;
+        } else {
+          taxBreakdown.set(key, { name: tax.taxName, rate: tax.rate, amount: tax.taxAmount });
+        }
+      });
     });
 
     return {
       invoice: {
         ...invoice,
-        formattedTotal: formatCurrency(invoice.total),
-        formattedSubtotal: formatCurrency(invoice.subtotal),
-        formattedTax: formatCurrency(invoice.totalTax),
+        formattedTotal: formatMoney(invoice.total),
+        formattedSubtotal: formatMoney(invoice.subtotal),
+        formattedTax: formatMoney(invoice.totalTax),
+        formattedDiscount: invoice.discount ? formatMoney(invoice.discount) : null,
+        // Signed, so a rounded-down total shows as a negative adjustment
+        formattedRoundOff: invoice.roundOff ? `${invoice.roundOff > 0 ? "+" : ""}${formatMoney(invoice.roundOff)}` : null,
+        discountLabel: invoice.discountType === "percent" ? `Discount (${fromBasisPoints(invoice.discountValue)}%)` : "Discount",
         formattedIssueDate: formatDate(invoice.issueDate.toString()),
         formattedDueDate: invoice.dueDate ? formatDate(invoice.dueDate.toString()) : null,
+        termsLabel: invoice.paymentTerms !== "custom" ? paymentTermsLabel(invoice.paymentTerms) : null,
+        title: documentTitles[invoice.documentType as DocumentType] ?? documentTitles.invoice,
+        originalReference: invoice.originalInvoice
+          ? `${invoice.originalInvoice.invoiceNumber} dated ${formatDate(invoice.originalInvoice.issueDate.toString())}`
+          : null,
       },
       customer: invoice.customer,
       lineItems: lineItemsWithTotals,
+      hasLineDiscounts: lineItemsWithTotals.some(item => item.formattedDiscount),
+      taxes: Array.from(taxBreakdown.values()).map(tax => ({
+        ...tax,
+        formattedAmount: formatMoney(tax.amount)
+      })),
       template: template || {
         name: "Default Template",
         primaryColor: "#3b82f6",
@@ -67,8 +103,8 @@ export default function PDFGenerator({ invoice, template }: PDFGeneratorProps) {
       
       // Create a simple text-based PDF content as placeholder
       const pdfContent = `
-INVOICE ${pdfData.invoice.invoiceNumber}
-
+${pdfData.invoice.title} ${pdfData.invoice.invoiceNumber}
+${pdfData.invoice.originalReference ? `Against Invoice: ${pdfData.invoice.originalReference}\n` : ''}${pdfData.invoice.noteReason ? `Reason: ${pdfData.invoice.noteReason}\n` : ''}
 Bill To:
 ${pdfData.customer.name}
 ${pdfData.customer.email || ''}
@@ -77,16 +113,19 @@ ${pdfData.customer.billingAddress || ''}
 Invoice Details:
 Issue Date: ${pdfData.invoice.formattedIssueDate}
 ${pdfData.invoice.formattedDueDate ? `Due Date: ${pdfData.invoice.formattedDueDate}` : ''}
-Status: ${pdfData.invoice.status.toUpperCase()}
+${pdfData.invoice.termsLabel ? `Payment Terms: ${pdfData.invoice.termsLabel}\n` : ''}Status: ${statusLabel(pdfData.invoice.status).toUpperCase()}
 
 Line Items:
 ${pdfData.lineItems.map(item => 
-  `${item.item.name} - Qty: ${item.quantity} x ${formatCurrency(item.unitPrice)} = ${item.lineTotal}`
+  `${item.name}${item.hsnSac ? ` (HSN/SAC ${item.hsnSac})` : ''} - Qty: ${formatQuantity(item.quantity, item.unit)} x ${formatMoney(item.unitPrice)}${item.formattedDiscount ? ` - ${item.formattedDiscount}` : ''} = ${item.lineTotal}`
 ).join('\n')}
 
 Subtotal: ${pdfData.invoice.formattedSubtotal}
+${pdfData.invoice.formattedDiscount ? `${pdfData.invoice.discountLabel}: -${pdfData.invoice.formattedDiscount}\n` : ''}${pdfData.taxes.map(tax => `${tax.name} (${tax.rate}%): ${tax.formattedAmount}`).join('\n')}
 Tax: ${pdfData.invoice.formattedTax}
-Total: ${pdfData.invoice.formattedTotal}
+${pdfData.invoice.formattedRoundOff ? `Round off: ${pdfData.invoice.formattedRoundOff}\n` : ''}Total: ${pdfData.invoice.formattedTotal}
+Amount in words: ${pdfData.invoice.amountInWords}
+${pdfData.invoice.notes ? `\nNotes:\n${pdfData.invoice.notes}\n` : ''}${pdfData.invoice.terms ? `\nTerms & Conditions:\n${pdfData.invoice.terms}\n` : ''}
 
 Generated by InvoicePro v2.1.0
       `.trim();
@@ -96,7 +135,7 @@ Generated by InvoicePro v2.1.0
       const url = URL.createObjectURL(blob);
       const link = document.createElement('a');
       link.href = url;
-      link.download = `invoice-${pdfData.invoice.invoiceNumber}.txt`;
+      link.download = `${pdfData.invoice.documentType.replace(/_/g, '-')}-${pdfData.invoice.invoiceNumber}.txt`;
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
@@ -139,8 +178,14 @@ Generated by InvoicePro v2.1.0
               </div>
             </div>
             <div className="text-right">
-              <h2 className="text-3xl font-bold text-gray-900">INVOICE</h2>
+              <h2 className="text-3xl font-bold text-gray-900">{pdfData.invoice.title}</h2>
               <p className="text-lg font-semibold text-gray-700">{pdfData.invoice.invoiceNumber}</p>
+              {pdfData.invoice.originalReference && (
+                <p className="text-sm text-gray-600">Against Invoice {pdfData.invoice.originalReference}</p>
+              )}
+              {pdfData.invoice.noteReason && (
+                <p className="text-sm text-gray-600">Reason: {pdfData.invoice.noteReason}</p>
+              )}
             </div>
           </div>
         </div>
@@ -171,9 +216,15 @@ Generated by InvoicePro v2.1.0
                   <span>{pdfData.invoice.formattedDueDate}</span>
                 </div>
               )}
+              {pdfData.invoice.termsLabel && (
+                <div className="flex justify-between">
+                  <span className="font-medium">Payment Terms:</span>
+                  <span>{pdfData.invoice.termsLabel}</span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="font-medium">Status:</span>
-                <span className="capitalize font-semibold">{pdfData.invoice.status}</span>
+                <span className="font-semibold">{statusLabel(pdfData.invoice.status)}</span>
               </div>
             </div>
           </div>
@@ -187,6 +238,7 @@ Generated by InvoicePro v2.1.0
                 <th className="text-left py-3 font-semibold">Description</th>
                 <th className="text-center py-3 font-semibold">Qty</th>
                 <th className="text-right py-3 font-semibold">Rate</th>
+                {pdfData.hasLineDiscounts && <th className="text-right py-3 font-semibold">Discount</th>}
                 <th className="text-right py-3 font-semibold">Amount</th>
               </tr>
             </thead>
@@ -195,14 +247,20 @@ Generated by InvoicePro v2.1.0
                 <tr key={index} className="border-b border-gray-200">
                   <td className="py-3">
                     <div>
-                      <p className="font-medium">{item.item.name}</p>
-                      {item.item.description && (
-                        <p className="text-sm text-gray-600">{item.item.description}</p>
+                      <p className="font-medium">{item.name}</p>
+                      {item.details && (
+                        <p className="text-sm text-gray-600">{item.details}</p>
+                      )}
+                      {item.hsnSac && (
+                        <p className="text-xs text-gray-500">HSN/SAC: {item.hsnSac}</p>
                       )}
                     </div>
                   </td>
-                  <td className="text-center py-3">{item.quantity}</td>
-                  <td className="text-right py-3">{formatCurrency(item.unitPrice)}</td>
+                  <td className="text-center py-3">{formatQuantity(item.quantity, item.unit)}</td>
+                  <td className="text-right py-3">{formatMoney(item.unitPrice)}</td>
+                  {pdfData.hasLineDiscounts && (
+                    <td className="text-right py-3">{item.formattedDiscount ? `-${item.formattedDiscount}` : "-"}</td>
+                  )}
                   <td className="text-right py-3 font-medium">{item.lineTotal}</td>
                 </tr>
               ))}
@@ -218,10 +276,28 @@ Generated by InvoicePro v2.1.0
                 <span>Subtotal:</span>
                 <span className="font-medium">{pdfData.invoice.formattedSubtotal}</span>
               </div>
+              {pdfData.invoice.formattedDiscount && (
+                <div className="flex justify-between py-2">
+                  <span>{pdfData.invoice.discountLabel}:</span>
+                  <span className="font-medium">-{pdfData.invoice.formattedDiscount}</span>
+                </div>
+              )}
+              {pdfData.taxes.map((tax) => (
+                <div key={`${tax.name}-${tax.rate}`} className="flex justify-between py-1 text-sm text-gray-600">
+                  <span>{tax.name} ({tax.rate}%):</span>
+                  <span>{tax.formattedAmount}</span>
+                </div>
+              ))}
               <div className="flex justify-between py-2">
                 <span>Tax:</span>
                 <span className="font-medium">{pdfData.invoice.formattedTax}</span>
               </div>
+              {pdfData.invoice.formattedRoundOff && (
+                <div className="flex justify-between py-2">
+                  <span>Round off:</span>
+                  <span className="font-medium">{pdfData.invoice.formattedRoundOff}</span>
+                </div>
+              )}
               <div className="flex justify-between py-3 border-t-2 border-gray-300 font-bold text-lg">
                 <span>Total:</span>
                 <span>{pdfData.invoice.formattedTotal}</span>
@@ -229,6 +305,23 @@ Generated by InvoicePro v2.1.0
             </div>
           </div>
         </div>
+        <div className="mt-4 text-sm" data-testid="text-amount-in-words">
+          <span className="font-semibold">Amount in words: </span>
+          <span>{pdfData.invoice.amountInWords}</span>
+        </div>
+
+        {pdfData.invoice.notes && (
+          <div className="mt-8 text-sm" data-testid="text-invoice-notes">
+            <h4 className="font-semibold mb-1">Notes</h4>
+            <p className="whitespace-pre-line text-gray-700">{pdfData.invoice.notes}</p>
+          </div>
+        )}
+        {pdfData.invoice.terms && (
+          <div className="mt-6 text-sm" data-testid="text-invoice-terms">
+            <h4 className="font-semibold mb-1">Terms & Conditions</h4>
+            <p className="whitespace-pre-line text-gray-700">{pdfData.invoice.terms}</p>
+          </div>
+        )}
 
         {/* Footer */}
         <div className="mt-12 pt-8 border-t border-gray-200 text-center text-gray-600">
@@ -238,8 +331,6 @@ Generated by InvoicePro v2.1.0
     );
   };
 
-  const formatCurrency = (amount: string) => `₹${parseFloat(amount).toLocaleString()}`;
-
   return (
     <div className="flex items-center space-x-2">
       <Button
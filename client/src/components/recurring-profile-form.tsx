@@ -0,0 +1,346 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent } from "@/components/ui/card";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useLineItemCatalog } from "@/hooks/use-line-item-catalog";
+import LineItemsEditor, { billableLineItems, calculateLineItemTotals, type LineItemForm } from "@/components/line-items-editor";
+import type { Customer, RecurringProfileWithDetails } from "@shared/schema";
+import { fromDiscountValue, toDiscountValue, type DiscountType } from "@shared/invoice-totals";
+import { formatMoney } from "@shared/money";
+import { defaultRoundingPolicy, roundingPolicies, roundingPolicyValues, type RoundingPolicy } from "@shared/rounding";
+import type { Page } from "@shared/list-query";
+import { recurrenceIntervals, type RecurrenceInterval } from "@shared/recurrence";
+
+const profileFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  customerId: z.string().min(1, "Customer is required"),
+  interval: z.enum(["monthly", "quarterly", "yearly"]),
+  dayOfMonth: z.coerce.number().int().min(1, "Day must be between 1 and 31").max(31, "Day must be between 1 and 31"),
+  startDate: z.string().min(1, "Start date is required"),
+  endDate: z.string().optional(),
+  dueInDays: z.string().optional(),
+  autoIssue: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  discountType: z.enum(["flat", "percent"]).default("flat"),
+  discountValue: z.string().or(z.number()).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).default(defaultRoundingPolicy),
+});
+
+interface RecurringProfileFormProps {
+  profile?: RecurringProfileWithDetails;
+  onSuccess: () => void;
+}
+
+export default function RecurringProfileForm({ profile, onSuccess }: RecurringProfileFormProps) {
+  const [lineItems, setLineItems] = useState<LineItemForm[]>([]);
+  const { toast } = useToast();
+
+  const { data: customerPage } = useQuery<Page<Customer>>({
+    queryKey: ["/api/customers"],
+  });
+  const customers = customerPage?.data ?? [];
+
+  const items = useLineItemCatalog(lineItems);
+
+  const form = useForm<z.infer<typeof profileFormSchema>>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: {
+      name: profile?.name || "",
+      customerId: profile?.customerId || "",
+      interval: (profile?.interval as RecurrenceInterval) || "monthly",
+      dayOfMonth: profile?.dayOfMonth || 1,
+      startDate: profile?.startDate ? new Date(profile.startDate).toISOString().split('T')[0] : "",
+      endDate: profile?.endDate ? new Date(profile.endDate).toISOString().split('T')[0] : "",
+      dueInDays: profile?.dueInDays != null ? String(profile.dueInDays) : "",
+      autoIssue: profile?.autoIssue ?? false,
+      isActive: profile?.isActive ?? true,
+      discountType: (profile?.discountType as DiscountType) || "flat",
+      discountValue: profile ? fromDiscountValue(profile.discountType, profile.discountValue).toString() : "0",
+      roundingPolicy: (profile?.roundingPolicy as RoundingPolicy) || defaultRoundingPolicy,
+    },
+  });
+
+  useEffect(() => {
+    if (profile?.lineItems) {
+      setLineItems(
+        profile.lineItems.map((item) => ({
+          itemId: item.itemId,
+          quantity: item.quantity,
+          unit: item.unit,
+          unitPrice: Number(item.unitPrice),
+          discountType: item.discountType as DiscountType,
+          discountValue: item.discountValue,
+        }))
+      );
+    }
+  }, [profile]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = profile
+        ? await apiRequest("PUT", `/api/recurring-profiles/${profile.id}`, data)
+        : await apiRequest("POST", "/api/recurring-profiles", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({ title: profile ? "Recurring profile updated successfully" : "Recurring profile created successfully" });
+      onSuccess();
+    },
+    onError: (error) => {
+      toast({ title: "Failed to save recurring profile", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const billableLines = billableLineItems(lineItems);
+  // Taxes are applied at the rates current when each invoice is raised; this is today's figure
+  const totals = calculateLineItemTotals(lineItems, items, {
+    type: form.watch("discountType"),
+    value: toDiscountValue(form.watch("discountType"), form.watch("discountValue")),
+  }, form.watch("roundingPolicy"));
+
+  const onSubmit = (data: z.infer<typeof profileFormSchema>) => {
+    if (billableLines.length === 0) {
+      toast({ title: "Please add at least one line item", variant: "destructive" });
+      return;
+    }
+
+    saveMutation.mutate({
+      ...data,
+      discountValue: toDiscountValue(data.discountType, data.discountValue),
+      startDate: new Date(data.startDate).toISOString(),
+      endDate: data.endDate ? new Date(data.endDate).toISOString() : null,
+      dueInDays: data.dueInDays ? Number(data.dueInDays) : null,
+      lineItems: billableLines.map((item) => ({
+        itemId: item.itemId,
+        quantity: item.quantity,
+        unit: item.unit,
+        unitPrice: item.unitPrice,
+        discountType: item.discountType,
+        discountValue: item.discountValue,
+      })),
+    });
+  };
+
+  return (
+    <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label htmlFor="name">Profile Name</Label>
+          <Input
+            id="name"
+            {...form.register("name")}
+            placeholder="Monthly retainer"
+            data-testid="input-profile-name"
+          />
+          {form.formState.errors.name && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.name.message}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="customerId">Customer</Label>
+          <Select
+            value={form.watch("customerId")}
+            onValueChange={(value) => form.setValue("customerId", value)}
+          >
+            <SelectTrigger data-testid="select-profile-customer">
+              <SelectValue placeholder="Select Customer" />
+            </SelectTrigger>
+            <SelectContent>
+              {customers.map((customer) => (
+                <SelectItem key={customer.id} value={customer.id}>
+                  {customer.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {form.formState.errors.customerId && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.customerId.message}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div>
+          <Label>Repeats</Label>
+          <Select
+            value={form.watch("interval")}
+            onValueChange={(value) => form.setValue("interval", value as RecurrenceInterval)}
+          >
+            <SelectTrigger data-testid="select-profile-interval">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {recurrenceIntervals.map((interval) => (
+                <SelectItem key={interval.value} value={interval.value}>
+                  {interval.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="dayOfMonth">Day of Month</Label>
+          <Input
+            id="dayOfMonth"
+            type="number"
+            min="1"
+            max="31"
+            {...form.register("dayOfMonth")}
+            data-testid="input-profile-day"
+          />
+          {form.formState.errors.dayOfMonth && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.dayOfMonth.message}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="dueInDays">Due After (days)</Label>
+          <Input
+            id="dueInDays"
+            type="number"
+            min="0"
+            {...form.register("dueInDays")}
+            placeholder="No due date"
+            data-testid="input-profile-due-days"
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <Label htmlFor="startDate">Start Date</Label>
+          <Input
+            id="startDate"
+            type="date"
+            {...form.register("startDate")}
+            data-testid="input-profile-start-date"
+          />
+          {form.formState.errors.startDate && (
+            <p className="text-sm text-destructive mt-1">
+              {form.formState.errors.startDate.message}
+            </p>
+          )}
+        </div>
+        <div>
+          <Label htmlFor="endDate">End Date (Optional)</Label>
+          <Input
+            id="endDate"
+            type="date"
+            {...form.register("endDate")}
+            data-testid="input-profile-end-date"
+          />
+        </div>
+      </div>
+
+      <div className="flex items-center space-x-6">
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="autoIssue"
+            checked={form.watch("autoIssue")}
+            onCheckedChange={(checked) => form.setValue("autoIssue", checked as boolean)}
+            data-testid="checkbox-profile-auto-issue"
+          />
+          <Label htmlFor="autoIssue" className="text-sm">Issue invoices automatically (otherwise saved as drafts)</Label>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="isActive"
+            checked={form.watch("isActive")}
+            onCheckedChange={(checked) => form.setValue("isActive", checked as boolean)}
+            data-testid="checkbox-profile-active"
+          />
+          <Label htmlFor="isActive" className="text-sm">Active</Label>
+        </div>
+      </div>
+
+      <LineItemsEditor lineItems={lineItems} onChange={setLineItems} items={items} />
+
+      <Card>
+        <CardContent className="p-6">
+          <h4 className="text-lg font-medium text-foreground mb-4">Each Invoice</h4>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Subtotal:</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.subtotal)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Discount (before tax):</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("discountType")}
+                  onChange={(e) => form.setValue("discountType", e.target.value as DiscountType)}
+                  data-testid="select-profile-discount-type"
+                >
+                  <option value="flat">₹</option>
+                  <option value="percent">%</option>
+                </select>
+                <Input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  className="w-24 h-8 text-right"
+                  {...form.register("discountValue")}
+                  data-testid="input-profile-discount"
+                />
+                <span className="text-foreground font-medium">-{formatMoney(totals.discount)}</span>
+              </div>
+            </div>
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Total Tax (at current rates):</span>
+              <span className="text-foreground font-medium">{formatMoney(totals.totalTax)}</span>
+            </div>
+            <div className="flex justify-between items-center text-sm">
+              <span className="text-muted-foreground">Round off:</span>
+              <div className="flex items-center space-x-2">
+                <select
+                  className="h-8 rounded-md border border-input bg-background px-2 text-sm"
+                  value={form.watch("roundingPolicy")}
+                  onChange={(e) => form.setValue("roundingPolicy", e.target.value as RoundingPolicy)}
+                  data-testid="select-profile-rounding"
+                >
+                  {roundingPolicies.map((policy) => (
+                    <option key={policy.value} value={policy.value}>
+                      {policy.label}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-foreground font-medium">{totals.roundOff > 0 ? "+" : ""}{formatMoney(totals.roundOff)}</span>
+              </div>
+            </div>
+            <div className="border-t border-border pt-2">
+              <div className="flex justify-between">
+                <span className="text-foreground font-semibold">Total:</span>
+                <span className="text-foreground font-bold text-lg">{formatMoney(totals.total)}</span>
+              </div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-end space-x-3">
+        <Button
+          type="submit"
+          disabled={saveMutation.isPending}
+          data-testid="button-submit-profile"
+        >
+          {profile ? "Update Profile" : "Create Profile"}
+        </Button>
+      </div>
+    </form>
+  );
+}
@@ -1,20 +1,29 @@
 import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
+import GlobalSearch from "@/components/global-search";
 import { 
   FileText, 
   Users, 
   Package, 
   Calculator, 
-  Palette
+  Palette,
+  ClipboardList,
+  Repeat,
+  Trash2,
+  Settings
 } from "lucide-react";
 
 const navigationItems = [
   { href: "/", label: "Dashboard", icon: FileText },
   { href: "/invoices", label: "Invoices", icon: FileText },
+  { href: "/estimates", label: "Estimates", icon: ClipboardList },
+  { href: "/recurring", label: "Recurring", icon: Repeat },
   { href: "/customers", label: "Customers", icon: Users },
   { href: "/items", label: "Items", icon: Package },
   { href: "/taxes", label: "Taxes", icon: Calculator },
   { href: "/templates", label: "PDF Templates", icon: Palette },
+  { href: "/trash", label: "Trash", icon: Trash2 },
+  { href: "/settings", label: "Settings", icon: Settings },
 ];
 
 export default function Sidebar() {
@@ -34,6 +43,10 @@ export default function Sidebar() {
         </div>
       </div>
 
+      <div className="px-4 pb-4">
+        <GlobalSearch />
+      </div>
+
       <nav className="px-4 pb-4">
         <ul className="space-y-2">
           {navigationItems.map((item) => {
@@ -0,0 +1,14 @@
+import * as React from "react"
+
+// The value as it was once it stopped changing for the given delay, e.g. a search box
+// that should not query on every keystroke
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = React.useState(value)
+
+  React.useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timeout)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,23 @@
+import { useQueries, useQuery, type UseQueryOptions } from "@tanstack/react-query";
+import type { ItemWithTaxes, LineItemForm } from "@/components/line-items-editor";
+import type { Page } from "@shared/list-query";
+
+// The items the line items editor picks from: the catalog, plus any item in the trash that a
+// saved line still bills. The server keeps pricing such a line with its item's taxes, so the
+// preview needs the item too for its totals to match what will be stored.
+export function useLineItemCatalog(lineItems: LineItemForm[]): ItemWithTaxes[] {
+  const { data: itemPage, isSuccess } = useQuery<Page<ItemWithTaxes>>({
+    queryKey: ["/api/items"],
+  });
+  const items = itemPage?.data ?? [];
+
+  const listed = new Set(items.map((item) => item.id));
+  const trashedIds = isSuccess
+    ? Array.from(new Set(lineItems.flatMap((line) => !line.adHoc && line.itemId && !listed.has(line.itemId) ? [line.itemId] : [])))
+    : [];
+  const trashed = useQueries({
+    queries: trashedIds.map((id): UseQueryOptions<ItemWithTaxes> => ({ queryKey: ["/api/items", id] })),
+  });
+
+  return [...items, ...trashed.flatMap((query) => query.data ? [query.data] : [])];
+}
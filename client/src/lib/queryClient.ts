@@ -29,7 +29,11 @@ export const getQueryFn: <T>(options: {
 }) => QueryFunction<T> =
   ({ on401: unauthorizedBehavior }) =>
   async ({ queryKey }) => {
-    const res = await fetch(queryKey.join("/") as string, {
+    // A trailing "?..." segment is the query string, e.g. ["/api/invoices", "?limit=25"]
+    const url = queryKey
+      .map(String)
+      .reduce((url, segment) => (segment.startsWith("?") || segment === "" ? url + segment : `${url}/${segment}`));
+    const res = await fetch(url, {
       credentials: "include",
     });
 
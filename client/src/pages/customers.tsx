@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -8,18 +9,39 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@
 import { Search, Plus, Edit, Trash2 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import CustomerForm from "@/components/customer-form";
+import { ListPagination, SortableHead, type ListSort } from "@/components/list-controls";
 import type { Customer } from "@shared/schema";
+import { defaultPageSize, listQueryString, type CustomerSortKey, type Page } from "@shared/list-query";
 
 export default function Customers() {
-  const [searchTerm, setSearchTerm] = useState("");
+  // Global search links here with ?search=
+  const searchParam = new URLSearchParams(useSearch()).get("search");
+  const [searchTerm, setSearchTerm] = useState(searchParam ?? "");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [sort, setSort] = useState<ListSort<CustomerSortKey>>({ sort: "createdAt", order: "desc" });
+  const search = useDebouncedValue(searchTerm.trim());
   const { toast } = useToast();
 
-  const { data: customers = [], isLoading } = useQuery<Customer[]>({
-    queryKey: ["/api/customers"],
+  useEffect(() => {
+    if (searchParam === null) return;
+    setSearchTerm(searchParam);
+    setOffset(0);
+  }, [searchParam]);
+
+  const { data: page, isLoading, isFetching } = useQuery<Page<Customer>>({
+    queryKey: ["/api/customers", listQueryString({ limit: defaultPageSize, offset, search, ...sort })],
+    placeholderData: keepPreviousData,
   });
+  const customers = page?.data ?? [];
+
+  const changeSort = (next: ListSort<CustomerSortKey>) => {
+    setSort(next);
+    setOffset(0);
+  };
 
   const deleteCustomerMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -27,18 +49,14 @@ export default function Customers() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
-      toast({ title: "Customer deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Customer moved to trash" });
     },
     onError: () => {
       toast({ title: "Failed to delete customer", variant: "destructive" });
     },
   });
 
-  const filteredCustomers = customers.filter(customer =>
-    customer.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (customer.email && customer.email.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
-
   return (
     <div className="h-full flex flex-col">
       <header className="bg-card border-b border-border px-6 py-4">
@@ -55,7 +73,10 @@ export default function Customers() {
                 placeholder="Search customers..."
                 className="pl-10 w-64"
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setOffset(0);
+                }}
                 data-testid="input-search-customers"
               />
             </div>
@@ -93,8 +114,12 @@ export default function Customers() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Name</TableHead>
-                    <TableHead>Email</TableHead>
+                    <SortableHead column="name" current={sort} onSort={changeSort}>
+                      Name
+                    </SortableHead>
+                    <SortableHead column="email" current={sort} onSort={changeSort}>
+                      Email
+                    </SortableHead>
                     <TableHead>Phone</TableHead>
                     <TableHead>GSTIN</TableHead>
                     <TableHead>Actions</TableHead>
@@ -107,14 +132,14 @@ export default function Customers() {
                         Loading customers...
                       </TableCell>
                     </TableRow>
-                  ) : filteredCustomers.length === 0 ? (
+                  ) : customers.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={5} className="text-center py-8">
                         No customers found
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredCustomers.map((customer) => (
+                    customers.map((customer) => (
                       <TableRow key={customer.id} className="hover:bg-accent transition-colors">
                         <TableCell>
                           <div>
@@ -160,6 +185,7 @@ export default function Customers() {
                 </TableBody>
               </Table>
             </div>
+            <ListPagination page={page} onOffsetChange={setOffset} disabled={isFetching} />
           </CardContent>
         </Card>
       </div>
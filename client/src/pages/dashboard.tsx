@@ -3,6 +3,7 @@ import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Link } from "wouter";
 import { FileText, Users, Package, Calculator, Plus } from "lucide-react";
+import { formatMoney } from "@shared/money";
 import type { InvoiceStats } from "@/types";
 
 export default function Dashboard() {
@@ -13,28 +14,29 @@ export default function Dashboard() {
   const stats = [
     {
       title: "Total Invoices",
-      value: invoiceStats?.total ? Number(invoiceStats.total) : 0,
+      value: invoiceStats?.total ?? 0,
       icon: FileText,
       color: "text-blue-600",
       bgColor: "bg-blue-100",
     },
     {
       title: "Paid",
-      value: `₹${invoiceStats?.paid ? Number(invoiceStats.paid) : 0}`,
+      value: invoiceStats?.paid ?? 0,
       icon: FileText,
       color: "text-green-600",
       bgColor: "bg-green-100",
     },
     {
       title: "Pending",
-      value: `₹${invoiceStats?.pending ? Number(invoiceStats.pending) : 0}`,
+      value: (invoiceStats?.pending ?? 0) + (invoiceStats?.partiallyPaid ?? 0),
       icon: FileText,
       color: "text-yellow-600",
       bgColor: "bg-yellow-100",
     },
     {
       title: "Overdue",
-      value: `₹${invoiceStats?.overdue ? Number(invoiceStats.overdue) : 0}`,
+      value: invoiceStats?.overdue ?? 0,
+      detail: invoiceStats?.overdueAmount ? `${formatMoney(invoiceStats.overdueAmount)} outstanding` : undefined,
       icon: FileText,
       color: "text-red-600",
       bgColor: "bg-red-100",
@@ -95,6 +97,9 @@ export default function Dashboard() {
                       <p className="text-2xl font-bold text-foreground">
                         {isLoading ? "..." : stat.value}
                       </p>
+                      {"detail" in stat && stat.detail && (
+                        <p className="text-xs text-muted-foreground">{stat.detail}</p>
+                      )}
                     </div>
                     <div className={`w-8 h-8 ${stat.bgColor} rounded-lg flex items-center justify-center`}>
                       <Icon className={`w-4 h-4 ${stat.color}`} />
@@ -0,0 +1,306 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search, Plus, Edit, Trash2, Send, ThumbsUp, ThumbsDown, FileOutput } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import EstimateForm from "@/components/estimate-form";
+import type { EstimateWithDetails, Invoice } from "@shared/schema";
+import {
+  canTransitionEstimate, estimateStatusLabel, isConvertible, isEstimateEditable, type EstimateStatus
+} from "@shared/estimate-status";
+import { formatMoney } from "@shared/money";
+
+export default function Estimates() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingEstimate, setEditingEstimate] = useState<EstimateWithDetails | null>(null);
+  const { toast } = useToast();
+
+  const { data: estimates = [], isLoading } = useQuery<EstimateWithDetails[]>({
+    queryKey: ["/api/estimates"],
+  });
+
+  const deleteEstimateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/estimates/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({ title: "Estimate deleted successfully" });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const transitionMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: EstimateStatus }) => {
+      const response = await apiRequest("POST", `/api/estimates/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: (_estimate, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      toast({ title: `Estimate marked ${estimateStatusLabel(status).toLowerCase()}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update estimate status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const convertMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `/api/estimates/${id}/convert`);
+      return response.json() as Promise<Invoice>;
+    },
+    onSuccess: (invoice) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+      toast({ title: "Draft invoice created", description: `Invoice ${invoice.invoiceNumber} is ready to review on the Invoices page.` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to convert estimate", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const filteredEstimates = estimates.filter(estimate =>
+    estimate.estimateNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    estimate.customer.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const getStatusColor = (status: string) => {
+    switch (status) {
+      case "accepted":
+        return "bg-green-100 text-green-800";
+      case "sent":
+        return "bg-purple-100 text-purple-800";
+      case "declined":
+        return "bg-red-100 text-red-800";
+      case "expired":
+        return "bg-gray-100 text-gray-500";
+      default:
+        return "bg-gray-100 text-gray-800";
+    }
+  };
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleDateString();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="bg-card border-b border-border px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Estimates</h2>
+            <p className="text-muted-foreground">Send quotations and turn accepted ones into invoices</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search estimates..."
+                className="pl-10 w-64"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                data-testid="input-search-estimates"
+              />
+            </div>
+            <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-create-estimate">
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create Estimate
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Create New Estimate</DialogTitle>
+                </DialogHeader>
+                <EstimateForm
+                  onSuccess={() => {
+                    setIsCreateModalOpen(false);
+                    queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 px-6 pb-6 overflow-hidden pt-6">
+        <Card className="h-full">
+          <CardContent className="p-0">
+            <div className="px-4 py-3 bg-muted border-b border-border">
+              <h3 className="text-sm font-medium text-foreground">All Estimates</h3>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Estimate</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        Loading estimates...
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredEstimates.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        No estimates found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredEstimates.map((estimate) => (
+                      <TableRow key={estimate.id} className="hover:bg-accent transition-colors">
+                        <TableCell>
+                          <p className="text-sm font-medium text-foreground">{estimate.estimateNumber}</p>
+                          {estimate.convertedInvoice && (
+                            <Link href="/invoices" className="text-xs text-primary hover:underline">
+                              Invoiced as {estimate.convertedInvoice.invoiceNumber}
+                            </Link>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div>
+                            <p className="text-sm font-medium text-foreground">{estimate.customer.name}</p>
+                            <p className="text-xs text-muted-foreground">{estimate.customer.email}</p>
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-foreground">{formatDate(estimate.issueDate.toString())}</p>
+                          {estimate.validUntil && (
+                            <p className="text-xs text-muted-foreground">Valid until: {formatDate(estimate.validUntil.toString())}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm font-semibold text-foreground">{formatMoney(estimate.total)}</p>
+                          <p className="text-xs text-muted-foreground">{formatMoney(estimate.subtotal)} + tax</p>
+                        </TableCell>
+                        <TableCell>
+                          <Badge className={getStatusColor(estimate.status)}>
+                            {estimateStatusLabel(estimate.status)}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            {isEstimateEditable(estimate.status) && !estimate.convertedInvoiceId && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEditingEstimate(estimate)}
+                                data-testid={`button-edit-estimate-${estimate.id}`}
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canTransitionEstimate(estimate.status, "sent") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark as sent"
+                                onClick={() => transitionMutation.mutate({ id: estimate.id, status: "sent" })}
+                                disabled={transitionMutation.isPending}
+                                data-testid={`button-send-estimate-${estimate.id}`}
+                              >
+                                <Send className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canTransitionEstimate(estimate.status, "accepted") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark as accepted"
+                                onClick={() => transitionMutation.mutate({ id: estimate.id, status: "accepted" })}
+                                disabled={transitionMutation.isPending}
+                                data-testid={`button-accept-estimate-${estimate.id}`}
+                              >
+                                <ThumbsUp className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canTransitionEstimate(estimate.status, "declined") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark as declined"
+                                onClick={() => transitionMutation.mutate({ id: estimate.id, status: "declined" })}
+                                disabled={transitionMutation.isPending}
+                                data-testid={`button-decline-estimate-${estimate.id}`}
+                              >
+                                <ThumbsDown className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {isConvertible(estimate) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Convert to invoice"
+                                onClick={() => convertMutation.mutate(estimate.id)}
+                                disabled={convertMutation.isPending}
+                                data-testid={`button-convert-estimate-${estimate.id}`}
+                              >
+                                <FileOutput className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {!estimate.convertedInvoiceId && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => deleteEstimateMutation.mutate(estimate.id)}
+                                disabled={deleteEstimateMutation.isPending}
+                                data-testid={`button-delete-estimate-${estimate.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Edit Estimate Dialog */}
+      <Dialog open={!!editingEstimate} onOpenChange={() => setEditingEstimate(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Estimate</DialogTitle>
+          </DialogHeader>
+          {editingEstimate && (
+            <EstimateForm
+              estimate={editingEstimate}
+              onSuccess={() => {
+                setEditingEstimate(null);
+                queryClient.invalidateQueries({ queryKey: ["/api/estimates"] });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
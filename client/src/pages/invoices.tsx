@@ -1,32 +1,120 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Search, Plus, Download, Edit, Eye, Trash2 } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Search, Plus, Download, Edit, Eye, Trash2, IndianRupee, Send, CheckCircle, Ban, FileMinus, FilePlus, History, FileArchive, X } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
+import { downloadPDF } from "@/lib/pdf-utils";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import InvoiceForm from "@/components/invoice-form";
-import type { Invoice, Customer, InvoiceLineItem, Item } from "@shared/schema";
+import PaymentForm from "@/components/payment-form";
+import InvoiceAttachments from "@/components/invoice-attachments";
+import InvoiceHistory from "@/components/invoice-history";
+import { ListPagination, SortableHead, type ListSort } from "@/components/list-controls";
+import type { Customer, InvoiceWithDetails } from "@shared/schema";
+import { canTransition, invoiceStatuses, isEditable, payableStatuses, statusLabel, type InvoiceStatus } from "@shared/invoice-status";
+import { documentTypeLabels, type DocumentType } from "@shared/numbering";
+import { formatMoney, toPaise } from "@shared/money";
+import { defaultPageSize, listQueryString, type InvoiceSortKey, type Page } from "@shared/list-query";
+import { bulkActionLabels, maxBulkInvoices, type BulkActionReport, type BulkInvoiceAction } from "@shared/bulk-actions";
 import type { InvoiceStats } from "@/types";
 
-type InvoiceWithDetails = Invoice & {
-  customer: Customer;
-  lineItems: (InvoiceLineItem & { item: Item })[];
+// As the filter inputs hold them; "all" and "" mean no filter
+const noFilters = {
+  status: "all",
+  customerId: "all",
+  issuedFrom: "",
+  issuedTo: "",
+  dueFrom: "",
+  dueTo: "",
+  minAmount: "", // rupees
+  maxAmount: "",
 };
 
 export default function Invoices() {
-  const [searchTerm, setSearchTerm] = useState("");
+  // Global search links here with ?search=, and for notes &view=notes
+  const params = new URLSearchParams(useSearch());
+  const searchParam = params.get("search");
+  const [searchTerm, setSearchTerm] = useState(searchParam ?? "");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingInvoice, setEditingInvoice] = useState<InvoiceWithDetails | null>(null);
+  const [payingInvoice, setPayingInvoice] = useState<InvoiceWithDetails | null>(null);
+  const [historyInvoice, setHistoryInvoice] = useState<InvoiceWithDetails | null>(null);
+  const [deletingInvoice, setDeletingInvoice] = useState<InvoiceWithDetails | null>(null);
+  const [cancellingInvoice, setCancellingInvoice] = useState<InvoiceWithDetails | null>(null);
+  const [noteDraft, setNoteDraft] = useState<{ documentType: DocumentType; originalInvoice: InvoiceWithDetails } | null>(null);
+  const viewParam = params.get("view") === "notes" ? "notes" : "invoices";
+  const [view, setView] = useState<"invoices" | "notes">(viewParam);
+  const [cancellationReason, setCancellationReason] = useState("");
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bulkConfirm, setBulkConfirm] = useState<"cancel" | "delete" | null>(null);
+  const [filters, setFilters] = useState(noFilters);
+  const [offset, setOffset] = useState(0);
+  const [sort, setSort] = useState<ListSort<InvoiceSortKey>>({ sort: "createdAt", order: "desc" });
+  const search = useDebouncedValue(searchTerm.trim());
   const { toast } = useToast();
 
-  const { data: invoices = [], isLoading } = useQuery<InvoiceWithDetails[]>({
-    queryKey: ["/api/invoices"],
+  useEffect(() => {
+    if (searchParam === null) return;
+    setSearchTerm(searchParam);
+    setView(viewParam);
+    setOffset(0);
+  }, [searchParam, viewParam]);
+
+  const listQuery = listQueryString({
+    limit: defaultPageSize,
+    offset,
+    search,
+    ...sort,
+    status: filters.status === "all" ? undefined : filters.status,
+    customerId: filters.customerId === "all" ? undefined : filters.customerId,
+    issuedFrom: filters.issuedFrom,
+    issuedTo: filters.issuedTo,
+    dueFrom: filters.dueFrom,
+    dueTo: filters.dueTo,
+    minTotal: filters.minAmount ? toPaise(filters.minAmount) : undefined,
+    maxTotal: filters.maxAmount ? toPaise(filters.maxAmount) : undefined,
+  });
+
+  // Credit and debit notes are listed separately from the invoices they adjust
+  const { data: page, isLoading, isFetching } = useQuery<Page<InvoiceWithDetails>>({
+    queryKey: view === "invoices" ? ["/api/invoices", listQuery] : ["/api/invoices", "notes", listQuery],
+    placeholderData: keepPreviousData,
   });
+  const documents = page?.data ?? [];
+
+  const { data: customerPage } = useQuery<Page<Customer>>({
+    queryKey: ["/api/customers"],
+  });
+  const customers = customerPage?.data ?? [];
+
+  const hasFilters = Object.entries(noFilters).some(([key, value]) => filters[key as keyof typeof noFilters] !== value);
+
+  // Any change to what is listed starts again from the first page
+  const updateFilters = (changes: Partial<typeof noFilters>) => {
+    setFilters(current => ({ ...current, ...changes }));
+    setOffset(0);
+  };
+
+  const changeSort = (next: ListSort<InvoiceSortKey>) => {
+    setSort(next);
+    setOffset(0);
+  };
 
   const { data: stats } = useQuery<InvoiceStats>({
     queryKey: ["/api/invoices/stats"],
@@ -39,35 +127,121 @@ export default function Invoices() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
       queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
-      toast({ title: "Invoice deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      setDeletingInvoice(null);
+      toast({ title: "Invoice moved to trash" });
     },
     onError: () => {
       toast({ title: "Failed to delete invoice", variant: "destructive" });
     },
   });
 
-  const filteredInvoices = invoices.filter(invoice =>
-    invoice.invoiceNumber.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    invoice.customer.name.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const transitionMutation = useMutation({
+    mutationFn: async ({ id, status, reason }: { id: string; status: InvoiceStatus; reason?: string }) => {
+      const response = await apiRequest("POST", `/api/invoices/${id}/status`, { status, reason });
+      return response.json();
+    },
+    onSuccess: (_invoice, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+      setCancellingInvoice(null);
+      setCancellationReason("");
+      toast({ title: `Marked ${statusLabel(status).toLowerCase()}` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to update invoice status", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const bulkMutation = useMutation({
+    mutationFn: async ({ action, reason }: { action: BulkInvoiceAction; reason?: string }) => {
+      const response = await apiRequest("POST", "/api/invoices/bulk", { action, ids: Array.from(selectedIds), reason });
+      return response.json() as Promise<BulkActionReport>;
+    },
+    onSuccess: (report) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      // Keep the failures selected so they can be looked at and retried
+      setSelectedIds(new Set(report.results.filter(result => !result.ok).map(result => result.id)));
+      setBulkConfirm(null);
+      setCancellationReason("");
+      const failures = report.results.filter(result => !result.ok);
+      toast({
+        title: `${bulkActionLabels[report.action]}: ${report.succeeded} succeeded, ${report.failed} failed`,
+        description: failures.length
+          ? failures.slice(0, 3).map(result => `${result.invoiceNumber ?? result.id}: ${result.error}`).join("\n") +
+            (failures.length > 3 ? `\nand ${failures.length - 3} more` : "")
+          : undefined,
+        variant: report.succeeded === 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({ title: "Bulk action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // The export is a zip, so it is fetched as a blob rather than through apiRequest's JSON handling
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await fetch("/api/invoices/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ids: Array.from(selectedIds) }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+      }
+      return response.blob();
+    },
+    onSuccess: (blob) => {
+      downloadPDF(blob, `invoices-${new Date().toISOString().slice(0, 10)}.zip`);
+    },
+    onError: (error) => {
+      toast({ title: "Failed to export invoices", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const documentLabel = (invoice: InvoiceWithDetails) =>
+    documentTypeLabels[invoice.documentType as DocumentType] ?? "Invoice";
+
+  const allSelected = documents.length > 0 && documents.every(invoice => selectedIds.has(invoice.id));
+
+  const toggleSelected = (id: string, checked: boolean) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelectedIds(checked ? new Set(documents.slice(0, maxBulkInvoices).map(invoice => invoice.id)) : new Set());
+  };
 
   const getStatusColor = (status: string) => {
     switch (status) {
       case "paid":
         return "bg-green-100 text-green-800";
-      case "pending":
+      case "partially_paid":
+        return "bg-blue-100 text-blue-800";
+      case "credited":
+        return "bg-teal-100 text-teal-800";
+      case "issued":
         return "bg-yellow-100 text-yellow-800";
+      case "sent":
+        return "bg-purple-100 text-purple-800";
       case "overdue":
         return "bg-red-100 text-red-800";
+      case "cancelled":
+        return "bg-gray-100 text-gray-500 line-through";
       default:
         return "bg-gray-100 text-gray-800";
     }
   };
 
-  const formatCurrency = (amount: string) => {
-    return `₹${parseFloat(amount).toLocaleString()}`;
-  };
-
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString();
   };
@@ -93,7 +267,10 @@ export default function Invoices() {
                 placeholder="Search invoices..."
                 className="pl-10 w-64"
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setOffset(0);
+                }}
                 data-testid="input-search-invoices"
               />
             </div>
@@ -129,7 +306,7 @@ export default function Invoices() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-muted-foreground text-sm font-medium">Total Invoices</p>
-                  <p className="text-2xl font-bold text-foreground">{stats?.total ? Number(stats.total) : 0}</p>
+                  <p className="text-2xl font-bold text-foreground">{stats?.total ?? 0}</p>
                 </div>
                 <div className="w-8 h-8 bg-blue-100 rounded-lg flex items-center justify-center">
                   <Edit className="w-4 h-4 text-blue-600" />
@@ -143,7 +320,7 @@ export default function Invoices() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-muted-foreground text-sm font-medium">Paid</p>
-                  <p className="text-2xl font-bold text-foreground">{stats?.paid ? Number(stats.paid) : 0}</p>
+                  <p className="text-2xl font-bold text-foreground">{stats?.paid ?? 0}</p>
                 </div>
                 <div className="w-8 h-8 bg-green-100 rounded-lg flex items-center justify-center">
                   <Edit className="w-4 h-4 text-green-600" />
@@ -157,7 +334,7 @@ export default function Invoices() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-muted-foreground text-sm font-medium">Pending</p>
-                  <p className="text-2xl font-bold text-foreground">{stats?.pending ? Number(stats.pending) : 0}</p>
+                  <p className="text-2xl font-bold text-foreground">{(stats?.pending ?? 0) + (stats?.partiallyPaid ?? 0)}</p>
                 </div>
                 <div className="w-8 h-8 bg-yellow-100 rounded-lg flex items-center justify-center">
                   <Edit className="w-4 h-4 text-yellow-600" />
@@ -171,7 +348,7 @@ export default function Invoices() {
               <div className="flex items-center justify-between">
                 <div>
                   <p className="text-muted-foreground text-sm font-medium">Overdue</p>
-                  <p className="text-2xl font-bold text-destructive">{stats?.overdue ? Number(stats.overdue) : 0}</p>
+                  <p className="text-2xl font-bold text-destructive">{stats?.overdue ?? 0}</p>
                 </div>
                 <div className="w-8 h-8 bg-red-100 rounded-lg flex items-center justify-center">
                   <Edit className="w-4 h-4 text-red-600" />
@@ -187,17 +364,207 @@ export default function Invoices() {
         <Card className="h-full">
           <CardContent className="p-0">
             <div className="px-4 py-3 bg-muted border-b border-border flex items-center justify-between">
-              <h3 className="text-sm font-medium text-foreground">Recent Invoices</h3>
+              <Tabs
+                value={view}
+                onValueChange={(value) => {
+                  setView(value as "invoices" | "notes");
+                  setSelectedIds(new Set());
+                  setOffset(0);
+                }}
+              >
+                <TabsList>
+                  <TabsTrigger value="invoices" data-testid="tab-invoices">Invoices</TabsTrigger>
+                  <TabsTrigger value="notes" data-testid="tab-notes">Credit & Debit Notes</TabsTrigger>
+                </TabsList>
+              </Tabs>
+              {selectedIds.size > 0 && (
+                <div className="flex items-center space-x-2">
+                  <span className="text-sm text-muted-foreground" data-testid="text-selected-count">
+                    {selectedIds.size} selected
+                  </span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => bulkMutation.mutate({ action: "issue" })}
+                    disabled={bulkMutation.isPending}
+                    data-testid="button-bulk-issue"
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    {bulkActionLabels.issue}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => bulkMutation.mutate({ action: "send" })}
+                    disabled={bulkMutation.isPending}
+                    data-testid="button-bulk-send"
+                  >
+                    <Send className="w-4 h-4 mr-2" />
+                    {bulkActionLabels.send}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setBulkConfirm("cancel")}
+                    disabled={bulkMutation.isPending}
+                    data-testid="button-bulk-cancel"
+                  >
+                    <Ban className="w-4 h-4 mr-2" />
+                    {bulkActionLabels.cancel}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setBulkConfirm("delete")}
+                    disabled={bulkMutation.isPending}
+                    data-testid="button-bulk-delete"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    {bulkActionLabels.delete}
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => exportMutation.mutate()}
+                    disabled={exportMutation.isPending}
+                    data-testid="button-bulk-export"
+                  >
+                    <FileArchive className="w-4 h-4 mr-2" />
+                    {exportMutation.isPending ? "Exporting..." : "Export PDFs"}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div className="px-4 py-3 border-b border-border flex flex-wrap items-end gap-3">
+              <div className="w-40">
+                <Label className="text-xs">Status</Label>
+                <Select value={filters.status} onValueChange={(status) => updateFilters({ status })}>
+                  <SelectTrigger data-testid="select-filter-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    {invoiceStatuses.map((status) => (
+                      <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="w-48">
+                <Label className="text-xs">Customer</Label>
+                <Select value={filters.customerId} onValueChange={(customerId) => updateFilters({ customerId })}>
+                  <SelectTrigger data-testid="select-filter-customer">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All customers</SelectItem>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id}>{customer.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">Issued</Label>
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="date"
+                    className="w-36"
+                    value={filters.issuedFrom}
+                    onChange={(e) => updateFilters({ issuedFrom: e.target.value })}
+                    data-testid="input-filter-issued-from"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="date"
+                    className="w-36"
+                    value={filters.issuedTo}
+                    onChange={(e) => updateFilters({ issuedTo: e.target.value })}
+                    data-testid="input-filter-issued-to"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs">Due</Label>
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="date"
+                    className="w-36"
+                    value={filters.dueFrom}
+                    onChange={(e) => updateFilters({ dueFrom: e.target.value })}
+                    data-testid="input-filter-due-from"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="date"
+                    className="w-36"
+                    value={filters.dueTo}
+                    onChange={(e) => updateFilters({ dueTo: e.target.value })}
+                    data-testid="input-filter-due-to"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label className="text-xs">Amount (₹)</Label>
+                <div className="flex items-center space-x-1">
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Min"
+                    className="w-24"
+                    value={filters.minAmount}
+                    onChange={(e) => updateFilters({ minAmount: e.target.value })}
+                    data-testid="input-filter-min-amount"
+                  />
+                  <span className="text-muted-foreground">–</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    placeholder="Max"
+                    className="w-24"
+                    value={filters.maxAmount}
+                    onChange={(e) => updateFilters({ maxAmount: e.target.value })}
+                    data-testid="input-filter-max-amount"
+                  />
+                </div>
+              </div>
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={() => updateFilters(noFilters)} data-testid="button-clear-filters">
+                  <X className="w-4 h-4 mr-1" />
+                  Clear
+                </Button>
+              )}
             </div>
 
             <div className="overflow-x-auto">
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Invoice</TableHead>
-                    <TableHead>Customer</TableHead>
-                    <TableHead>Date</TableHead>
-                    <TableHead>Amount</TableHead>
+                    <TableHead className="w-10">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={(checked) => toggleAll(checked === true)}
+                        aria-label="Select all"
+                        data-testid="checkbox-select-all-invoices"
+                      />
+                    </TableHead>
+                    <SortableHead column="invoiceNumber" current={sort} onSort={changeSort}>
+                      Invoice
+                    </SortableHead>
+                    <SortableHead column="customer" current={sort} onSort={changeSort}>
+                      Customer
+                    </SortableHead>
+                    <SortableHead column="issueDate" current={sort} onSort={changeSort}>
+                      Date
+                    </SortableHead>
+                    <SortableHead column="total" current={sort} onSort={changeSort}>
+                      Amount
+                    </SortableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Balance</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
@@ -205,19 +572,27 @@ export default function Invoices() {
                 <TableBody>
                   {isLoading ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8">
+                      <TableCell colSpan={9} className="text-center py-8">
                         Loading invoices...
                       </TableCell>
                     </TableRow>
-                  ) : filteredInvoices.length === 0 ? (
+                  ) : documents.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center py-8">
-                        No invoices found
+                      <TableCell colSpan={9} className="text-center py-8">
+                        {view === "invoices" ? "No invoices found" : "No credit or debit notes found"}
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredInvoices.map((invoice) => (
+                    documents.map((invoice) => (
                       <TableRow key={invoice.id} className="hover:bg-accent transition-colors">
+                        <TableCell>
+                          <Checkbox
+                            checked={selectedIds.has(invoice.id)}
+                            onCheckedChange={(checked) => toggleSelected(invoice.id, checked === true)}
+                            aria-label={`Select ${invoice.invoiceNumber}`}
+                            data-testid={`checkbox-select-invoice-${invoice.id}`}
+                          />
+                        </TableCell>
                         <TableCell>
                           <div className="flex items-center">
                             <div className="w-8 h-8 bg-primary bg-opacity-10 rounded-lg flex items-center justify-center mr-3">
@@ -225,7 +600,13 @@ export default function Invoices() {
                             </div>
                             <div>
                               <p className="text-sm font-medium text-foreground">{invoice.invoiceNumber}</p>
-                              <p className="text-xs text-muted-foreground">ID: {invoice.id.slice(0, 8)}</p>
+                              {invoice.originalInvoice ? (
+                                <p className="text-xs text-muted-foreground">
+                                  {documentLabel(invoice)} against {invoice.originalInvoice.invoiceNumber}
+                                </p>
+                              ) : (
+                                <p className="text-xs text-muted-foreground">ID: {invoice.id.slice(0, 8)}</p>
+                              )}
                             </div>
                           </div>
                         </TableCell>
@@ -242,41 +623,139 @@ export default function Invoices() {
                           )}
                         </TableCell>
                         <TableCell>
-                          <p className="text-sm font-semibold text-foreground">{formatCurrency(invoice.total)}</p>
-                          <p className="text-xs text-muted-foreground">{formatCurrency(invoice.subtotal)} + tax</p>
+                          <p className="text-sm font-semibold text-foreground">{formatMoney(invoice.total)}</p>
+                          <p className="text-xs text-muted-foreground">{formatMoney(invoice.subtotal)} + tax</p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-foreground">{formatMoney(invoice.amountPaid)}</p>
+                          {invoice.amountCredited > 0 && (
+                            <p className="text-xs text-muted-foreground">Credited {formatMoney(invoice.amountCredited)}</p>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <p className={`text-sm font-medium ${invoice.balanceDue < 0 ? "text-blue-600" : "text-foreground"}`}>
+                            {formatMoney(Math.abs(invoice.balanceDue))}
+                          </p>
+                          {invoice.balanceDue < 0 && (
+                            <p className="text-xs text-muted-foreground">Overpaid</p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <Badge className={getStatusColor(invoice.status)}>
-                            {invoice.status}
+                            {statusLabel(invoice.status)}
                           </Badge>
                         </TableCell>
                         <TableCell>
                           <div className="flex items-center space-x-2">
+                            {isEditable(invoice.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setEditingInvoice(invoice)}
+                                data-testid={`button-edit-invoice-${invoice.id}`}
+                              >
+                                <Edit className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canTransition(invoice.status, "issued") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Issue"
+                                onClick={() => transitionMutation.mutate({ id: invoice.id, status: "issued" })}
+                                disabled={transitionMutation.isPending}
+                                data-testid={`button-issue-invoice-${invoice.id}`}
+                              >
+                                <CheckCircle className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {canTransition(invoice.status, "sent") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Mark as sent"
+                                onClick={() => transitionMutation.mutate({ id: invoice.id, status: "sent" })}
+                                disabled={transitionMutation.isPending}
+                                data-testid={`button-send-invoice-${invoice.id}`}
+                              >
+                                <Send className="w-4 h-4" />
+                              </Button>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => setEditingInvoice(invoice)}
-                              data-testid={`button-edit-invoice-${invoice.id}`}
+                              onClick={() => setPayingInvoice(invoice)}
+                              disabled={
+                                invoice.documentType === "credit_note" ||
+                                !payableStatuses.includes(invoice.status as InvoiceStatus) ||
+                                invoice.balanceDue <= 0
+                              }
+                              data-testid={`button-record-payment-${invoice.id}`}
                             >
-                              <Edit className="w-4 h-4" />
+                              <IndianRupee className="w-4 h-4" />
                             </Button>
+                            {invoice.documentType === "invoice" && payableStatuses.includes(invoice.status as InvoiceStatus) && (
+                              <>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Raise credit note"
+                                  onClick={() => setNoteDraft({ documentType: "credit_note", originalInvoice: invoice })}
+                                  data-testid={`button-credit-note-${invoice.id}`}
+                                >
+                                  <FileMinus className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  title="Raise debit note"
+                                  onClick={() => setNoteDraft({ documentType: "debit_note", originalInvoice: invoice })}
+                                  data-testid={`button-debit-note-${invoice.id}`}
+                                >
+                                  <FilePlus className="w-4 h-4" />
+                                </Button>
+                              </>
+                            )}
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => handleDownloadPDF(invoice)}
-                              data-testid={`button-download-pdf-${invoice.id}`}
+                              title="History"
+                              onClick={() => setHistoryInvoice(invoice)}
+                              data-testid={`button-history-invoice-${invoice.id}`}
                             >
-                              <Download className="w-4 h-4" />
+                              <History className="w-4 h-4" />
                             </Button>
                             <Button
                               variant="ghost"
                               size="sm"
-                              onClick={() => deleteInvoiceMutation.mutate(invoice.id)}
-                              disabled={deleteInvoiceMutation.isPending}
-                              data-testid={`button-delete-invoice-${invoice.id}`}
+                              onClick={() => handleDownloadPDF(invoice)}
+                              data-testid={`button-download-pdf-${invoice.id}`}
                             >
-                              <Trash2 className="w-4 h-4" />
+                              <Download className="w-4 h-4" />
                             </Button>
+                            {canTransition(invoice.status, "cancelled") && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Cancel"
+                                onClick={() => setCancellingInvoice(invoice)}
+                                disabled={invoice.amountPaid > 0 || invoice.amountCredited > 0}
+                                data-testid={`button-cancel-invoice-${invoice.id}`}
+                              >
+                                <Ban className="w-4 h-4" />
+                              </Button>
+                            )}
+                            {isEditable(invoice.status) && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setDeletingInvoice(invoice)}
+                                disabled={deleteInvoiceMutation.isPending}
+                                data-testid={`button-delete-invoice-${invoice.id}`}
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            )}
                           </div>
                         </TableCell>
                       </TableRow>
@@ -285,6 +764,7 @@ export default function Invoices() {
                 </TableBody>
               </Table>
             </div>
+            <ListPagination page={page} onOffsetChange={setOffset} disabled={isFetching} />
           </CardContent>
         </Card>
       </div>
@@ -293,13 +773,57 @@ export default function Invoices() {
       <Dialog open={!!editingInvoice} onOpenChange={() => setEditingInvoice(null)}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
           <DialogHeader>
-            <DialogTitle>Edit Invoice</DialogTitle>
+            <DialogTitle>Edit {editingInvoice ? documentLabel(editingInvoice) : "Invoice"}</DialogTitle>
           </DialogHeader>
           {editingInvoice && (
+            <div className="space-y-6">
+              <InvoiceForm
+                invoice={editingInvoice}
+                onSuccess={() => {
+                  setEditingInvoice(null);
+                  queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+                  queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+                }}
+              />
+              <InvoiceAttachments invoiceId={editingInvoice.id} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Credit / Debit Note Dialog */}
+      <Dialog open={!!noteDraft} onOpenChange={() => setNoteDraft(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {noteDraft ? `New ${documentTypeLabels[noteDraft.documentType]} – ${noteDraft.originalInvoice.invoiceNumber}` : ""}
+            </DialogTitle>
+          </DialogHeader>
+          {noteDraft && (
             <InvoiceForm
-              invoice={editingInvoice}
+              note={noteDraft}
+              onSuccess={() => {
+                setNoteDraft(null);
+                setView("notes");
+                queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+                queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Record Payment Dialog */}
+      <Dialog open={!!payingInvoice} onOpenChange={() => setPayingInvoice(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Record Payment{payingInvoice ? ` – ${payingInvoice.invoiceNumber}` : ""}</DialogTitle>
+          </DialogHeader>
+          {payingInvoice && (
+            <PaymentForm
+              invoice={payingInvoice}
               onSuccess={() => {
-                setEditingInvoice(null);
+                setPayingInvoice(null);
                 queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
                 queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
               }}
@@ -307,6 +831,152 @@ export default function Invoices() {
           )}
         </DialogContent>
       </Dialog>
+
+      {/* History Dialog */}
+      <Dialog open={!!historyInvoice} onOpenChange={() => setHistoryInvoice(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>History{historyInvoice ? ` – ${historyInvoice.invoiceNumber}` : ""}</DialogTitle>
+          </DialogHeader>
+          {historyInvoice && <InvoiceHistory invoiceId={historyInvoice.id} />}
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Invoice Confirmation */}
+      <AlertDialog open={!!deletingInvoice} onOpenChange={(open) => !open && setDeletingInvoice(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              Delete {deletingInvoice ? `${documentLabel(deletingInvoice)} ${deletingInvoice.invoiceNumber}` : "invoice"}?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              It moves to the trash, where it can be restored until it is purged.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deletingInvoice && deleteInvoiceMutation.mutate(deletingInvoice.id)}
+              disabled={deleteInvoiceMutation.isPending}
+              data-testid="button-confirm-delete-invoice"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Bulk Delete Confirmation */}
+      <AlertDialog open={bulkConfirm === "delete"} onOpenChange={(open) => !open && setBulkConfirm(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selectedIds.size} selected?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Drafts move to the trash, where they can be restored until they are purged. Anything that can no
+              longer be deleted is left as it is and reported back.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => bulkMutation.mutate({ action: "delete" })}
+              disabled={bulkMutation.isPending}
+              data-testid="button-confirm-bulk-delete"
+            >
+              Move to Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Bulk Cancel Dialog */}
+      <Dialog
+        open={bulkConfirm === "cancel"}
+        onOpenChange={() => {
+          setBulkConfirm(null);
+          setCancellationReason("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancel {selectedIds.size} selected</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              Each one keeps its number and can no longer be edited or paid. The same reason is recorded on all of them.
+            </p>
+            <div>
+              <Label htmlFor="bulkCancellationReason">Reason *</Label>
+              <Textarea
+                id="bulkCancellationReason"
+                value={cancellationReason}
+                onChange={(e) => setCancellationReason(e.target.value)}
+                placeholder="Why are these invoices being cancelled?"
+                data-testid="input-bulk-cancellation-reason"
+              />
+            </div>
+            <div className="flex items-center justify-end space-x-3">
+              <Button
+                variant="destructive"
+                onClick={() => bulkMutation.mutate({ action: "cancel", reason: cancellationReason.trim() })}
+                disabled={!cancellationReason.trim() || bulkMutation.isPending}
+                data-testid="button-confirm-bulk-cancel"
+              >
+                Cancel Selected
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Invoice Dialog */}
+      <Dialog
+        open={!!cancellingInvoice}
+        onOpenChange={() => {
+          setCancellingInvoice(null);
+          setCancellationReason("");
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              Cancel {cancellingInvoice ? `${documentLabel(cancellingInvoice)} – ${cancellingInvoice.invoiceNumber}` : "Invoice"}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              A cancelled invoice keeps its number and can no longer be edited or paid.
+            </p>
+            <div>
+              <Label htmlFor="cancellationReason">Reason *</Label>
+              <Textarea
+                id="cancellationReason"
+                value={cancellationReason}
+                onChange={(e) => setCancellationReason(e.target.value)}
+                placeholder="Why is this invoice being cancelled?"
+                data-testid="input-cancellation-reason"
+              />
+            </div>
+            <div className="flex items-center justify-end space-x-3">
+              <Button
+                variant="destructive"
+                onClick={() =>
+                  cancellingInvoice &&
+                  transitionMutation.mutate({
+                    id: cancellingInvoice.id,
+                    status: "cancelled",
+                    reason: cancellationReason.trim(),
+                  })
+                }
+                disabled={!cancellationReason.trim() || transitionMutation.isPending}
+                data-testid="button-confirm-cancel-invoice"
+              >
+                Cancel Invoice
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
@@ -1,5 +1,6 @@
-import { useState } from "react";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useSearch } from "wouter";
+import { useQuery, useMutation, keepPreviousData } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent } from "@/components/ui/card";
@@ -9,20 +10,43 @@ import { Badge } from "@/components/ui/badge";
 import { Search, Plus, Edit, Trash2 } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useDebouncedValue } from "@/hooks/use-debounced-value";
 import ItemForm from "@/components/item-form";
+import { ListPagination, SortableHead, type ListSort } from "@/components/list-controls";
 import type { Item, Tax } from "@shared/schema";
+import { defaultPageSize, listQueryString, type ItemSortKey, type Page } from "@shared/list-query";
+import { calculateLineTotals } from "@shared/invoice-totals";
+import { formatMoney } from "@shared/money";
 
 type ItemWithTaxes = Item & { taxes: Tax[] };
 
 export default function Items() {
-  const [searchTerm, setSearchTerm] = useState("");
+  // Global search links here with ?search=
+  const searchParam = new URLSearchParams(useSearch()).get("search");
+  const [searchTerm, setSearchTerm] = useState(searchParam ?? "");
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<ItemWithTaxes | null>(null);
+  const [offset, setOffset] = useState(0);
+  const [sort, setSort] = useState<ListSort<ItemSortKey>>({ sort: "createdAt", order: "desc" });
+  const search = useDebouncedValue(searchTerm.trim());
   const { toast } = useToast();
 
-  const { data: items = [], isLoading } = useQuery<ItemWithTaxes[]>({
-    queryKey: ["/api/items"],
+  useEffect(() => {
+    if (searchParam === null) return;
+    setSearchTerm(searchParam);
+    setOffset(0);
+  }, [searchParam]);
+
+  const { data: page, isLoading, isFetching } = useQuery<Page<ItemWithTaxes>>({
+    queryKey: ["/api/items", listQueryString({ limit: defaultPageSize, offset, search, ...sort })],
+    placeholderData: keepPreviousData,
   });
+  const items = page?.data ?? [];
+
+  const changeSort = (next: ListSort<ItemSortKey>) => {
+    setSort(next);
+    setOffset(0);
+  };
 
   const deleteItemMutation = useMutation({
     mutationFn: async (id: string) => {
@@ -30,22 +54,14 @@ export default function Items() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/items"] });
-      toast({ title: "Item deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      toast({ title: "Item moved to trash" });
     },
     onError: () => {
       toast({ title: "Failed to delete item", variant: "destructive" });
     },
   });
 
-  const filteredItems = items.filter(item =>
-    item.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    (item.description && item.description.toLowerCase().includes(searchTerm.toLowerCase()))
-  );
-
-  const formatCurrency = (amount: string) => {
-    return `₹${parseFloat(amount).toLocaleString()}`;
-  };
-
   return (
     <div className="h-full flex flex-col">
       <header className="bg-card border-b border-border px-6 py-4">
@@ -62,7 +78,10 @@ export default function Items() {
                 placeholder="Search items..."
                 className="pl-10 w-64"
                 value={searchTerm}
-                onChange={(e) => setSearchTerm(e.target.value)}
+                onChange={(e) => {
+                  setSearchTerm(e.target.value);
+                  setOffset(0);
+                }}
                 data-testid="input-search-items"
               />
             </div>
@@ -100,9 +119,13 @@ export default function Items() {
               <Table>
                 <TableHeader>
                   <TableRow>
-                    <TableHead>Name</TableHead>
+                    <SortableHead column="name" current={sort} onSort={changeSort}>
+                      Name
+                    </SortableHead>
                     <TableHead>Description</TableHead>
-                    <TableHead>Unit Price</TableHead>
+                    <SortableHead column="unitPrice" current={sort} onSort={changeSort}>
+                      Unit Price
+                    </SortableHead>
                     <TableHead>Taxes</TableHead>
                     <TableHead>Total Price</TableHead>
                     <TableHead>Actions</TableHead>
@@ -115,23 +138,26 @@ export default function Items() {
                         Loading items...
                       </TableCell>
                     </TableRow>
-                  ) : filteredItems.length === 0 ? (
+                  ) : items.length === 0 ? (
                     <TableRow>
                       <TableCell colSpan={5} className="text-center py-8">
                         No items found
                       </TableCell>
                     </TableRow>
                   ) : (
-                    filteredItems.map((item) => (
+                    items.map((item) => (
                       <TableRow key={item.id} className="hover:bg-accent transition-colors">
                         <TableCell>
                           <p className="text-sm font-medium text-foreground">{item.name}</p>
+                          {item.hsnSac && (
+                            <p className="text-xs text-muted-foreground">HSN/SAC {item.hsnSac}</p>
+                          )}
                         </TableCell>
                         <TableCell>
                           <p className="text-sm text-foreground">{item.description || "—"}</p>
                         </TableCell>
                         <TableCell>
-                          <p className="text-sm font-semibold text-foreground">{formatCurrency(item.unitPrice)}</p>
+                          <p className="text-sm font-semibold text-foreground">{formatMoney(item.unitPrice)} <span className="text-xs font-normal text-muted-foreground">per {item.unit}</span></p>
                         </TableCell>
                         <TableCell>
                           <div className="flex flex-wrap gap-1">
@@ -149,10 +175,8 @@ export default function Items() {
                         <TableCell>
                           <p className="text-sm font-semibold text-foreground">
                             {(() => {
-                              const unitPrice = parseFloat(item.unitPrice.toString());
-                              const taxPercentage = item.taxes.reduce((sum, tax) => sum + parseFloat(tax.percentage.toString()), 0);
-                              const totalPrice = unitPrice * (1 + taxPercentage / 100);
-                              return formatCurrency(totalPrice.toString());
+                              const line = calculateLineTotals({ quantity: 1, unitPrice: item.unitPrice, taxes: item.taxes });
+                              return formatMoney(line.lineTotal + line.taxAmount);
                             })()}
                           </p>
                         </TableCell>
@@ -183,6 +207,7 @@ export default function Items() {
                 </TableBody>
               </Table>
             </div>
+            <ListPagination page={page} onOffsetChange={setOffset} disabled={isFetching} />
           </CardContent>
         </Card>
       </div>
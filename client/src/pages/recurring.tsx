@@ -0,0 +1,246 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search, Plus, Edit, Trash2, Play } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import RecurringProfileForm from "@/components/recurring-profile-form";
+import type { RecurringProfileWithDetails } from "@shared/schema";
+import { intervalLabel } from "@shared/recurrence";
+
+export default function Recurring() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
+  const [editingProfile, setEditingProfile] = useState<RecurringProfileWithDetails | null>(null);
+  const { toast } = useToast();
+
+  const { data: profiles = [], isLoading } = useQuery<RecurringProfileWithDetails[]>({
+    queryKey: ["/api/recurring-profiles"],
+  });
+
+  const deleteProfileMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/recurring-profiles/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-profiles"] });
+      toast({ title: "Recurring profile deleted successfully" });
+    },
+    onError: () => {
+      toast({ title: "Failed to delete recurring profile", variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/recurring-profiles/run");
+      return response.json() as Promise<{ created: number; failed: number }>;
+    },
+    onSuccess: ({ created, failed }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/recurring-profiles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices/stats"] });
+      toast({
+        title: `${created} invoice${created === 1 ? "" : "s"} created`,
+        description: failed ? `${failed} profile${failed === 1 ? "" : "s"} failed; see the last run for details.` : undefined,
+        variant: failed ? "destructive" : "default",
+      });
+    },
+    onError: () => {
+      toast({ title: "Failed to run recurring profiles", variant: "destructive" });
+    },
+  });
+
+  const filteredProfiles = profiles.filter(profile =>
+    profile.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    profile.customer.name.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const formatDate = (date: Date | string) => {
+    return new Date(date).toLocaleDateString();
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="bg-card border-b border-border px-6 py-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">Recurring Invoices</h2>
+            <p className="text-muted-foreground">Raise invoices for retainers and subscriptions on a schedule</p>
+          </div>
+          <div className="flex items-center space-x-3">
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                type="text"
+                placeholder="Search profiles..."
+                className="pl-10 w-64"
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                data-testid="input-search-profiles"
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending}
+              data-testid="button-run-profiles"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Run Now
+            </Button>
+            <Dialog open={isCreateModalOpen} onOpenChange={setIsCreateModalOpen}>
+              <DialogTrigger asChild>
+                <Button data-testid="button-create-profile">
+                  <Plus className="w-4 h-4 mr-2" />
+                  New Profile
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>New Recurring Profile</DialogTitle>
+                </DialogHeader>
+                <RecurringProfileForm
+                  onSuccess={() => {
+                    setIsCreateModalOpen(false);
+                    queryClient.invalidateQueries({ queryKey: ["/api/recurring-profiles"] });
+                  }}
+                />
+              </DialogContent>
+            </Dialog>
+          </div>
+        </div>
+      </header>
+
+      <div className="flex-1 px-6 pb-6 overflow-hidden pt-6">
+        <Card className="h-full">
+          <CardContent className="p-0">
+            <div className="px-4 py-3 bg-muted border-b border-border">
+              <h3 className="text-sm font-medium text-foreground">All Profiles</h3>
+            </div>
+
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Profile</TableHead>
+                    <TableHead>Customer</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Next Invoice</TableHead>
+                    <TableHead>Last Run</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        Loading recurring profiles...
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredProfiles.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="text-center py-8">
+                        No recurring profiles found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredProfiles.map((profile) => (
+                      <TableRow key={profile.id} className="hover:bg-accent transition-colors">
+                        <TableCell>
+                          <p className="text-sm font-medium text-foreground">{profile.name}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {profile.autoIssue ? "Issued automatically" : "Saved as draft"}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-foreground">{profile.customer.name}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-foreground">{intervalLabel(profile.interval)} on day {profile.dayOfMonth}</p>
+                          <p className="text-xs text-muted-foreground">
+                            From {formatDate(profile.startDate)}{profile.endDate ? ` to ${formatDate(profile.endDate)}` : ""}
+                          </p>
+                        </TableCell>
+                        <TableCell>
+                          {!profile.isActive ? (
+                            <Badge className="bg-gray-100 text-gray-800">Paused</Badge>
+                          ) : profile.nextRunDate ? (
+                            <p className="text-sm text-foreground">{formatDate(profile.nextRunDate)}</p>
+                          ) : (
+                            <Badge className="bg-gray-100 text-gray-500">Ended</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {profile.lastRun ? (
+                            <div>
+                              <Badge className={profile.lastRun.status === "created" ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"}>
+                                {profile.lastRun.status === "created" ? "Created" : "Failed"}
+                              </Badge>
+                              <p className="text-xs text-muted-foreground mt-1">
+                                For {formatDate(profile.lastRun.scheduledFor)}
+                              </p>
+                              {profile.lastRun.error && (
+                                <p className="text-xs text-destructive">{profile.lastRun.error}</p>
+                              )}
+                            </div>
+                          ) : (
+                            <span className="text-sm text-muted-foreground">Never</span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setEditingProfile(profile)}
+                              data-testid={`button-edit-profile-${profile.id}`}
+                            >
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => deleteProfileMutation.mutate(profile.id)}
+                              disabled={deleteProfileMutation.isPending}
+                              data-testid={`button-delete-profile-${profile.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Edit Profile Dialog */}
+      <Dialog open={!!editingProfile} onOpenChange={() => setEditingProfile(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Edit Recurring Profile</DialogTitle>
+          </DialogHeader>
+          {editingProfile && (
+            <RecurringProfileForm
+              profile={editingProfile}
+              onSuccess={() => {
+                setEditingProfile(null);
+                queryClient.invalidateQueries({ queryKey: ["/api/recurring-profiles"] });
+              }}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
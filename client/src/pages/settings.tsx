@@ -0,0 +1,161 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { insertOrganisationSettingsSchema, type OrganisationSettings } from "@shared/schema";
+import { defaultPaymentTerms, paymentTermsOptions, type PaymentTerms } from "@shared/payment-terms";
+import { defaultTrashRetentionDays, maxTrashRetentionDays } from "@shared/trash";
+
+type SettingsForm = z.infer<typeof insertOrganisationSettingsSchema>;
+
+export default function Settings() {
+  const { toast } = useToast();
+
+  const { data: settings, isLoading } = useQuery<OrganisationSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const form = useForm<SettingsForm>({
+    resolver: zodResolver(insertOrganisationSettingsSchema),
+    defaultValues: {
+      defaultNotes: "",
+      defaultTerms: "",
+      defaultPaymentTerms: defaultPaymentTerms,
+      trashRetentionDays: defaultTrashRetentionDays,
+    },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        defaultNotes: settings.defaultNotes || "",
+        defaultTerms: settings.defaultTerms || "",
+        defaultPaymentTerms: settings.defaultPaymentTerms as PaymentTerms,
+        trashRetentionDays: settings.trashRetentionDays,
+      });
+    }
+  }, [settings, form]);
+
+  const updateMutation = useMutation({
+    mutationFn: async (data: SettingsForm) => {
+      const response = await apiRequest("PUT", "/api/settings", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings"] });
+      toast({ title: "Settings saved" });
+    },
+    onError: () => {
+      toast({ title: "Failed to save settings", variant: "destructive" });
+    },
+  });
+
+  const onSubmit = (data: SettingsForm) => {
+    updateMutation.mutate({
+      ...data,
+      defaultNotes: data.defaultNotes || null,
+      defaultTerms: data.defaultTerms || null,
+    });
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="bg-card border-b border-border px-6 py-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Settings</h2>
+          <p className="text-muted-foreground">Defaults for new invoices and how long deleted records are kept</p>
+        </div>
+      </header>
+
+      <div className="flex-1 px-6 pb-6 overflow-auto pt-6">
+        <Card>
+          <CardContent className="p-6">
+            {isLoading ? (
+              <p className="text-center py-8">Loading settings...</p>
+            ) : (
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6 max-w-2xl">
+                <div>
+                  <Label>Payment Terms</Label>
+                  <Select
+                    value={form.watch("defaultPaymentTerms")}
+                    onValueChange={(value) => form.setValue("defaultPaymentTerms", value as PaymentTerms)}
+                  >
+                    <SelectTrigger data-testid="select-default-payment-terms">
+                      <SelectValue placeholder="Select payment terms" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {paymentTermsOptions.map((option) => (
+                        <SelectItem key={option.value} value={option.value}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Sets the due date from the issue date; choose Custom to enter due dates by hand.
+                  </p>
+                </div>
+
+                <div>
+                  <Label htmlFor="defaultNotes">Notes</Label>
+                  <Textarea
+                    id="defaultNotes"
+                    {...form.register("defaultNotes")}
+                    placeholder="Thank you for your business. Bank: ..., A/c No: ..., IFSC: ..."
+                    rows={4}
+                    data-testid="input-default-notes"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="defaultTerms">Terms & Conditions</Label>
+                  <Textarea
+                    id="defaultTerms"
+                    {...form.register("defaultTerms")}
+                    placeholder="Interest at 18% p.a. is charged on payments received after the due date."
+                    rows={4}
+                    data-testid="input-default-terms"
+                  />
+                </div>
+
+                <div>
+                  <Label htmlFor="trashRetentionDays">Keep Deleted Records For (days)</Label>
+                  <Input
+                    id="trashRetentionDays"
+                    type="number"
+                    min={1}
+                    max={maxTrashRetentionDays}
+                    {...form.register("trashRetentionDays", { valueAsNumber: true })}
+                    className="max-w-[10rem]"
+                    data-testid="input-trash-retention-days"
+                  />
+                  {form.formState.errors.trashRetentionDays && (
+                    <p className="text-sm text-destructive mt-1">{form.formState.errors.trashRetentionDays.message}</p>
+                  )}
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Deleted invoices, customers and items stay in the trash this long before they are purged.
+                  </p>
+                </div>
+
+                <div className="flex items-center justify-end">
+                  <Button type="submit" disabled={updateMutation.isPending} data-testid="button-save-settings">
+                    Save Settings
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
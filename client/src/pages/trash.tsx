@@ -0,0 +1,173 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle
+} from "@/components/ui/alert-dialog";
+import { RotateCcw, Trash2 } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { OrganisationSettings } from "@shared/schema";
+import { trashEntityLabels, type TrashEntityType, type TrashEntry } from "@shared/trash";
+
+// Where each kind of record is listed once it is back
+const listQueryKeys: Record<TrashEntityType, string[]> = {
+  invoice: ["/api/invoices", "/api/invoices/stats"],
+  customer: ["/api/customers"],
+  item: ["/api/items"],
+};
+
+export default function Trash() {
+  const { toast } = useToast();
+  const [purgingEntry, setPurgingEntry] = useState<TrashEntry | null>(null);
+
+  const { data: entries = [], isLoading } = useQuery<TrashEntry[]>({
+    queryKey: ["/api/trash"],
+  });
+
+  const { data: settings } = useQuery<OrganisationSettings>({
+    queryKey: ["/api/settings"],
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (entry: TrashEntry) => {
+      await apiRequest("POST", `/api/trash/${entry.type}/${entry.id}/restore`);
+    },
+    onSuccess: (_data, entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      listQueryKeys[entry.type].forEach(key => queryClient.invalidateQueries({ queryKey: [key] }));
+      toast({ title: `${trashEntityLabels[entry.type]} restored` });
+    },
+    onError: () => {
+      toast({ title: "Failed to restore", variant: "destructive" });
+    },
+  });
+
+  const purgeMutation = useMutation({
+    mutationFn: async (entry: TrashEntry) => {
+      await apiRequest("DELETE", `/api/trash/${entry.type}/${entry.id}`);
+    },
+    onSuccess: (_data, entry) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trash"] });
+      setPurgingEntry(null);
+      toast({ title: `${trashEntityLabels[entry.type]} deleted permanently` });
+    },
+    onError: (error) => {
+      toast({ title: "Failed to delete permanently", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="h-full flex flex-col">
+      <header className="bg-card border-b border-border px-6 py-4">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Trash</h2>
+          <p className="text-muted-foreground">
+            Deleted invoices, customers and items
+            {settings ? `, kept for ${settings.trashRetentionDays} days` : ""}
+          </p>
+        </div>
+      </header>
+
+      <div className="flex-1 px-6 pb-6 overflow-hidden pt-6">
+        <Card className="h-full">
+          <CardContent className="p-0">
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Deleted</TableHead>
+                    <TableHead>Purged On</TableHead>
+                    <TableHead>Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        Loading trash...
+                      </TableCell>
+                    </TableRow>
+                  ) : entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={5} className="text-center py-8">
+                        The trash is empty
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={`${entry.type}-${entry.id}`} className="hover:bg-accent transition-colors">
+                        <TableCell>
+                          <Badge variant="secondary">{trashEntityLabels[entry.type]}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm font-medium text-foreground">{entry.name}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-foreground">{new Date(entry.deletedAt).toLocaleString()}</p>
+                        </TableCell>
+                        <TableCell>
+                          <p className="text-sm text-muted-foreground">{new Date(entry.purgeAt).toLocaleDateString()}</p>
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Restore"
+                              onClick={() => restoreMutation.mutate(entry)}
+                              disabled={restoreMutation.isPending}
+                              data-testid={`button-restore-${entry.type}-${entry.id}`}
+                            >
+                              <RotateCcw className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Delete permanently"
+                              onClick={() => setPurgingEntry(entry)}
+                              disabled={purgeMutation.isPending}
+                              data-testid={`button-purge-${entry.type}-${entry.id}`}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Permanent Delete Confirmation */}
+      <AlertDialog open={!!purgingEntry} onOpenChange={(open) => !open && setPurgingEntry(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {purgingEntry?.name} permanently?</AlertDialogTitle>
+            <AlertDialogDescription>This cannot be undone.</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => purgingEntry && purgeMutation.mutate(purgingEntry)}
+              disabled={purgeMutation.isPending}
+              data-testid="button-confirm-purge"
+            >
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
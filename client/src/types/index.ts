@@ -1,8 +1,12 @@
 export interface InvoiceStats {
-  total: string;
-  paid: string;
-  pending: string;
-  overdue: string;
+  total: number;
+  paid: number;
+  partiallyPaid: number;
+  pending: number;
+  overdue: number;
+  overdueAmount: number; // paise
+  draft: number;
+  cancelled: number;
 }
 
 export interface InvoiceCalculation {
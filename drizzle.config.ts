@@ -5,6 +5,6 @@ export default defineConfig({
   schema: "./shared/schema.ts",
   dialect: "sqlite",
   dbCredentials: {
-    url: "sqlite.db",
+    url: process.env.DATABASE_FILE || "sqlite.db",
   },
 });
@@ -0,0 +1,16 @@
+CREATE TABLE `invoice_line_taxes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`line_item_id` text NOT NULL,
+	`tax_id` text,
+	`tax_name` text NOT NULL,
+	`rate` real NOT NULL,
+	`taxable_amount` real NOT NULL,
+	`tax_amount` real NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`line_item_id`) REFERENCES `invoice_line_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tax_id`) REFERENCES `taxes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+-- Lines saved before this migration get the taxes of their item as it stands now, on the line total
+INSERT INTO `invoice_line_taxes` (`id`, `invoice_id`, `line_item_id`, `tax_id`, `tax_name`, `rate`, `taxable_amount`, `tax_amount`) SELECT lower(hex(randomblob(16))), l.`invoice_id`, l.`id`, t.`id`, t.`name`, t.`percentage`, l.`total`, round(l.`total` * t.`percentage` / 100, 2) FROM `invoice_line_items` l INNER JOIN `item_taxes` it ON it.`item_id` = l.`item_id` INNER JOIN `taxes` t ON t.`id` = it.`tax_id`;
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE `invoice_line_items` ADD `discount_type` text DEFAULT 'flat' NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoice_line_items` ADD `discount_value` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoice_line_items` ADD `discount` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `discount_type` text DEFAULT 'flat' NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `discount_value` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+UPDATE `invoices` SET `discount_value` = `discount` WHERE `discount` > 0;
\ No newline at end of file
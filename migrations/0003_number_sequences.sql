@@ -0,0 +1,20 @@
+CREATE TABLE `number_sequence_counters` (
+	`sequence_id` text NOT NULL,
+	`period` text NOT NULL,
+	`next_value` integer NOT NULL,
+	PRIMARY KEY(`sequence_id`, `period`),
+	FOREIGN KEY (`sequence_id`) REFERENCES `number_sequences`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `number_sequences` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`document_type` text NOT NULL,
+	`pattern` text NOT NULL,
+	`reset_policy` text DEFAULT 'financial_year' NOT NULL,
+	`start_value` integer DEFAULT 1 NOT NULL,
+	`is_default` integer DEFAULT false,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `number_sequences_name_unique` ON `number_sequences` (`name`);
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `payments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`payment_date` integer NOT NULL,
+	`amount` real NOT NULL,
+	`mode` text NOT NULL,
+	`reference_number` text,
+	`notes` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `invoices` ADD `amount_paid` real DEFAULT 0 NOT NULL;--> statement-breakpoint
+INSERT INTO `payments` (`id`, `invoice_id`, `payment_date`, `amount`, `mode`, `notes`) SELECT lower(hex(randomblob(16))), `id`, `issue_date`, `total`, 'other', 'Marked paid before payments were recorded' FROM `invoices` WHERE `status` = 'paid';--> statement-breakpoint
+UPDATE `invoices` SET `amount_paid` = `total` WHERE `status` = 'paid';
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `invoices` ADD `overdue_at` integer;
\ No newline at end of file
@@ -0,0 +1,45 @@
+-- The migrator runs this in a transaction, where PRAGMA foreign_keys=OFF has no effect, so
+-- dropping `invoices` would run the ON DELETE actions of the tables that reference it. Their
+-- rows are set aside and the tables emptied, children first, then put back once the new
+-- `invoices` is in place.
+CREATE TEMP TABLE `__saved_invoice_line_items` AS SELECT * FROM `invoice_line_items`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_invoice_line_taxes` AS SELECT * FROM `invoice_line_taxes`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_payments` AS SELECT * FROM `payments`;--> statement-breakpoint
+DELETE FROM `invoice_line_taxes`;--> statement-breakpoint
+DELETE FROM `invoice_line_items`;--> statement-breakpoint
+DELETE FROM `payments`;--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_invoices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_number` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`issue_date` integer NOT NULL,
+	`due_date` integer,
+	`subtotal` real NOT NULL,
+	`total_tax` real NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` real DEFAULT 0 NOT NULL,
+	`discount` real DEFAULT 0,
+	`total` real NOT NULL,
+	`amount_paid` real DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`issued_at` integer,
+	`sent_at` integer,
+	`overdue_at` integer,
+	`cancelled_at` integer,
+	`cancellation_reason` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoices`("id", "invoice_number", "customer_id", "issue_date", "due_date", "subtotal", "total_tax", "discount_type", "discount_value", "discount", "total", "amount_paid", "status", "issued_at", "overdue_at", "created_at") SELECT "id", "invoice_number", "customer_id", "issue_date", "due_date", "subtotal", "total_tax", "discount_type", "discount_value", "discount", "total", "amount_paid", CASE WHEN "status" = 'pending' THEN 'issued' ELSE "status" END, "issue_date", "overdue_at", "created_at" FROM `invoices`;--> statement-breakpoint
+DROP TABLE `invoices`;--> statement-breakpoint
+ALTER TABLE `__new_invoices` RENAME TO `invoices`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;--> statement-breakpoint
+CREATE UNIQUE INDEX `invoices_invoice_number_unique` ON `invoices` (`invoice_number`);--> statement-breakpoint
+INSERT INTO `invoice_line_items` SELECT * FROM `__saved_invoice_line_items`;--> statement-breakpoint
+INSERT INTO `invoice_line_taxes` SELECT * FROM `__saved_invoice_line_taxes`;--> statement-breakpoint
+INSERT INTO `payments` SELECT * FROM `__saved_payments`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_items`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_payments`;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE `invoices` ADD `document_type` text DEFAULT 'invoice' NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `original_invoice_id` text REFERENCES invoices(id);--> statement-breakpoint
+ALTER TABLE `invoices` ADD `note_reason` text;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `amount_credited` real DEFAULT 0 NOT NULL;
\ No newline at end of file
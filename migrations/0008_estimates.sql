@@ -0,0 +1,53 @@
+CREATE TABLE `estimate_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_price` real NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` real DEFAULT 0 NOT NULL,
+	`discount` real DEFAULT 0 NOT NULL,
+	`total` real NOT NULL,
+	FOREIGN KEY (`estimate_id`) REFERENCES `estimates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `estimate_line_taxes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_id` text NOT NULL,
+	`line_item_id` text NOT NULL,
+	`tax_id` text,
+	`tax_name` text NOT NULL,
+	`rate` real NOT NULL,
+	`taxable_amount` real NOT NULL,
+	`tax_amount` real NOT NULL,
+	FOREIGN KEY (`estimate_id`) REFERENCES `estimates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`line_item_id`) REFERENCES `estimate_line_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tax_id`) REFERENCES `taxes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `estimates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_number` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`issue_date` integer NOT NULL,
+	`valid_until` integer,
+	`subtotal` real NOT NULL,
+	`total_tax` real NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` real DEFAULT 0 NOT NULL,
+	`discount` real DEFAULT 0 NOT NULL,
+	`total` real NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`sent_at` integer,
+	`accepted_at` integer,
+	`declined_at` integer,
+	`expired_at` integer,
+	`converted_invoice_id` text,
+	`converted_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`converted_invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `estimates_estimate_number_unique` ON `estimates` (`estimate_number`);
\ No newline at end of file
@@ -0,0 +1,45 @@
+CREATE TABLE `recurring_invoice_runs` (
+	`id` text PRIMARY KEY NOT NULL,
+	`profile_id` text NOT NULL,
+	`scheduled_for` integer NOT NULL,
+	`status` text NOT NULL,
+	`invoice_id` text,
+	`error` text,
+	`ran_at` integer NOT NULL,
+	FOREIGN KEY (`profile_id`) REFERENCES `recurring_profiles`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `recurring_invoice_runs_period_idx` ON `recurring_invoice_runs` (`profile_id`,`scheduled_for`);--> statement-breakpoint
+CREATE TABLE `recurring_profile_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`profile_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_price` real NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` real DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`profile_id`) REFERENCES `recurring_profiles`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `recurring_profiles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`interval` text NOT NULL,
+	`day_of_month` integer NOT NULL,
+	`start_date` integer NOT NULL,
+	`end_date` integer,
+	`next_run_date` integer,
+	`auto_issue` integer DEFAULT false NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`due_in_days` integer,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` real DEFAULT 0 NOT NULL,
+	`sequence_id` text,
+	`last_run_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`sequence_id`) REFERENCES `number_sequences`(`id`) ON UPDATE no action ON DELETE set null
+);
@@ -0,0 +1,240 @@
+-- Amounts move from REAL rupees to INTEGER paise. Discount values are scaled by 100 as well:
+-- flat discounts become paise and percentages become basis points (see shared/money.ts).
+-- The migrator runs this in a transaction, where PRAGMA foreign_keys=OFF has no effect, and the
+-- rebuilt tables reference one another, so a DROP TABLE would run the ON DELETE actions of the
+-- rows pointing at it. Every affected row is set aside and the tables emptied, children first;
+-- once the new tables are in place they are refilled from the saved rows, parents first.
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_estimates` AS SELECT * FROM `estimates`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_estimate_line_items` AS SELECT * FROM `estimate_line_items`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_estimate_line_taxes` AS SELECT * FROM `estimate_line_taxes`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_invoices` AS SELECT * FROM `invoices`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_invoice_line_items` AS SELECT * FROM `invoice_line_items`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_invoice_line_taxes` AS SELECT * FROM `invoice_line_taxes`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_items` AS SELECT * FROM `items`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_item_taxes` AS SELECT * FROM `item_taxes`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_payments` AS SELECT * FROM `payments`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_recurring_profiles` AS SELECT * FROM `recurring_profiles`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_recurring_profile_line_items` AS SELECT * FROM `recurring_profile_line_items`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_recurring_invoice_runs` AS SELECT * FROM `recurring_invoice_runs`;--> statement-breakpoint
+DELETE FROM `estimate_line_taxes`;--> statement-breakpoint
+DELETE FROM `estimate_line_items`;--> statement-breakpoint
+DELETE FROM `invoice_line_taxes`;--> statement-breakpoint
+DELETE FROM `invoice_line_items`;--> statement-breakpoint
+DELETE FROM `payments`;--> statement-breakpoint
+DELETE FROM `recurring_invoice_runs`;--> statement-breakpoint
+DELETE FROM `recurring_profile_line_items`;--> statement-breakpoint
+DELETE FROM `item_taxes`;--> statement-breakpoint
+DELETE FROM `estimates`;--> statement-breakpoint
+DELETE FROM `invoices`;--> statement-breakpoint
+DELETE FROM `items`;--> statement-breakpoint
+DELETE FROM `recurring_profiles`;--> statement-breakpoint
+CREATE TABLE `__new_estimate_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`estimate_id`) REFERENCES `estimates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+DROP TABLE `estimate_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_estimate_line_items` RENAME TO `estimate_line_items`;--> statement-breakpoint
+CREATE TABLE `__new_estimate_line_taxes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_id` text NOT NULL,
+	`line_item_id` text NOT NULL,
+	`tax_id` text,
+	`tax_name` text NOT NULL,
+	`rate` real NOT NULL,
+	`taxable_amount` integer NOT NULL,
+	`tax_amount` integer NOT NULL,
+	FOREIGN KEY (`estimate_id`) REFERENCES `estimates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`line_item_id`) REFERENCES `estimate_line_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tax_id`) REFERENCES `taxes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+DROP TABLE `estimate_line_taxes`;--> statement-breakpoint
+ALTER TABLE `__new_estimate_line_taxes` RENAME TO `estimate_line_taxes`;--> statement-breakpoint
+CREATE TABLE `__new_estimates` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_number` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`issue_date` integer NOT NULL,
+	`valid_until` integer,
+	`subtotal` integer NOT NULL,
+	`total_tax` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`sent_at` integer,
+	`accepted_at` integer,
+	`declined_at` integer,
+	`expired_at` integer,
+	`converted_invoice_id` text,
+	`converted_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`converted_invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+DROP TABLE `estimates`;--> statement-breakpoint
+ALTER TABLE `__new_estimates` RENAME TO `estimates`;--> statement-breakpoint
+CREATE UNIQUE INDEX `estimates_estimate_number_unique` ON `estimates` (`estimate_number`);--> statement-breakpoint
+CREATE TABLE `__new_invoice_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+DROP TABLE `invoice_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_invoice_line_items` RENAME TO `invoice_line_items`;--> statement-breakpoint
+CREATE TABLE `__new_invoice_line_taxes` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`line_item_id` text NOT NULL,
+	`tax_id` text,
+	`tax_name` text NOT NULL,
+	`rate` real NOT NULL,
+	`taxable_amount` integer NOT NULL,
+	`tax_amount` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`line_item_id`) REFERENCES `invoice_line_items`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`tax_id`) REFERENCES `taxes`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+DROP TABLE `invoice_line_taxes`;--> statement-breakpoint
+ALTER TABLE `__new_invoice_line_taxes` RENAME TO `invoice_line_taxes`;--> statement-breakpoint
+CREATE TABLE `__new_invoices` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_number` text NOT NULL,
+	`document_type` text DEFAULT 'invoice' NOT NULL,
+	`original_invoice_id` text,
+	`note_reason` text,
+	`customer_id` text NOT NULL,
+	`issue_date` integer NOT NULL,
+	`due_date` integer,
+	`subtotal` integer NOT NULL,
+	`total_tax` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0,
+	`total` integer NOT NULL,
+	`amount_paid` integer DEFAULT 0 NOT NULL,
+	`amount_credited` integer DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'draft' NOT NULL,
+	`issued_at` integer,
+	`sent_at` integer,
+	`overdue_at` integer,
+	`cancelled_at` integer,
+	`cancellation_reason` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`original_invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+DROP TABLE `invoices`;--> statement-breakpoint
+ALTER TABLE `__new_invoices` RENAME TO `invoices`;--> statement-breakpoint
+CREATE UNIQUE INDEX `invoices_invoice_number_unique` ON `invoices` (`invoice_number`);--> statement-breakpoint
+CREATE TABLE `__new_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`unit_price` integer NOT NULL,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+DROP TABLE `items`;--> statement-breakpoint
+ALTER TABLE `__new_items` RENAME TO `items`;--> statement-breakpoint
+CREATE TABLE `__new_payments` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`payment_date` integer NOT NULL,
+	`amount` integer NOT NULL,
+	`mode` text NOT NULL,
+	`reference_number` text,
+	`notes` text,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+DROP TABLE `payments`;--> statement-breakpoint
+ALTER TABLE `__new_payments` RENAME TO `payments`;--> statement-breakpoint
+CREATE TABLE `__new_recurring_profile_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`profile_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` integer NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`profile_id`) REFERENCES `recurring_profiles`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+DROP TABLE `recurring_profile_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_recurring_profile_line_items` RENAME TO `recurring_profile_line_items`;--> statement-breakpoint
+CREATE TABLE `__new_recurring_profiles` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`customer_id` text NOT NULL,
+	`interval` text NOT NULL,
+	`day_of_month` integer NOT NULL,
+	`start_date` integer NOT NULL,
+	`end_date` integer,
+	`next_run_date` integer,
+	`auto_issue` integer DEFAULT false NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`due_in_days` integer,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`sequence_id` text,
+	`last_run_at` integer,
+	`created_at` integer DEFAULT CURRENT_TIMESTAMP,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`sequence_id`) REFERENCES `number_sequences`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+DROP TABLE `recurring_profiles`;--> statement-breakpoint
+ALTER TABLE `__new_recurring_profiles` RENAME TO `recurring_profiles`;
+--> statement-breakpoint
+INSERT INTO `items`("id", "name", "description", "unit_price", "created_at") SELECT "id", "name", "description", CAST(round("unit_price" * 100) AS INTEGER), "created_at" FROM `__saved_items`;--> statement-breakpoint
+INSERT INTO `item_taxes` SELECT * FROM `__saved_item_taxes`;--> statement-breakpoint
+INSERT INTO `invoices`("id", "invoice_number", "document_type", "original_invoice_id", "note_reason", "customer_id", "issue_date", "due_date", "subtotal", "total_tax", "discount_type", "discount_value", "discount", "total", "amount_paid", "amount_credited", "status", "issued_at", "sent_at", "overdue_at", "cancelled_at", "cancellation_reason", "created_at") SELECT "id", "invoice_number", "document_type", "original_invoice_id", "note_reason", "customer_id", "issue_date", "due_date", CAST(round("subtotal" * 100) AS INTEGER), CAST(round("total_tax" * 100) AS INTEGER), "discount_type", CAST(round("discount_value" * 100) AS INTEGER), CAST(round("discount" * 100) AS INTEGER), CAST(round("total" * 100) AS INTEGER), CAST(round("amount_paid" * 100) AS INTEGER), CAST(round("amount_credited" * 100) AS INTEGER), "status", "issued_at", "sent_at", "overdue_at", "cancelled_at", "cancellation_reason", "created_at" FROM `__saved_invoices`;--> statement-breakpoint
+INSERT INTO `invoice_line_items`("id", "invoice_id", "item_id", "quantity", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT "id", "invoice_id", "item_id", "quantity", CAST(round("unit_price" * 100) AS INTEGER), "discount_type", CAST(round("discount_value" * 100) AS INTEGER), CAST(round("discount" * 100) AS INTEGER), CAST(round("total" * 100) AS INTEGER) FROM `__saved_invoice_line_items`;--> statement-breakpoint
+INSERT INTO `invoice_line_taxes`("id", "invoice_id", "line_item_id", "tax_id", "tax_name", "rate", "taxable_amount", "tax_amount") SELECT "id", "invoice_id", "line_item_id", "tax_id", "tax_name", "rate", CAST(round("taxable_amount" * 100) AS INTEGER), CAST(round("tax_amount" * 100) AS INTEGER) FROM `__saved_invoice_line_taxes`;--> statement-breakpoint
+INSERT INTO `payments`("id", "invoice_id", "payment_date", "amount", "mode", "reference_number", "notes", "created_at") SELECT "id", "invoice_id", "payment_date", CAST(round("amount" * 100) AS INTEGER), "mode", "reference_number", "notes", "created_at" FROM `__saved_payments`;--> statement-breakpoint
+INSERT INTO `estimates`("id", "estimate_number", "customer_id", "issue_date", "valid_until", "subtotal", "total_tax", "discount_type", "discount_value", "discount", "total", "status", "sent_at", "accepted_at", "declined_at", "expired_at", "converted_invoice_id", "converted_at", "created_at") SELECT "id", "estimate_number", "customer_id", "issue_date", "valid_until", CAST(round("subtotal" * 100) AS INTEGER), CAST(round("total_tax" * 100) AS INTEGER), "discount_type", CAST(round("discount_value" * 100) AS INTEGER), CAST(round("discount" * 100) AS INTEGER), CAST(round("total" * 100) AS INTEGER), "status", "sent_at", "accepted_at", "declined_at", "expired_at", "converted_invoice_id", "converted_at", "created_at" FROM `__saved_estimates`;--> statement-breakpoint
+INSERT INTO `estimate_line_items`("id", "estimate_id", "item_id", "quantity", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT "id", "estimate_id", "item_id", "quantity", CAST(round("unit_price" * 100) AS INTEGER), "discount_type", CAST(round("discount_value" * 100) AS INTEGER), CAST(round("discount" * 100) AS INTEGER), CAST(round("total" * 100) AS INTEGER) FROM `__saved_estimate_line_items`;--> statement-breakpoint
+INSERT INTO `estimate_line_taxes`("id", "estimate_id", "line_item_id", "tax_id", "tax_name", "rate", "taxable_amount", "tax_amount") SELECT "id", "estimate_id", "line_item_id", "tax_id", "tax_name", "rate", CAST(round("taxable_amount" * 100) AS INTEGER), CAST(round("tax_amount" * 100) AS INTEGER) FROM `__saved_estimate_line_taxes`;--> statement-breakpoint
+INSERT INTO `recurring_profiles`("id", "name", "customer_id", "interval", "day_of_month", "start_date", "end_date", "next_run_date", "auto_issue", "is_active", "due_in_days", "discount_type", "discount_value", "sequence_id", "last_run_at", "created_at") SELECT "id", "name", "customer_id", "interval", "day_of_month", "start_date", "end_date", "next_run_date", "auto_issue", "is_active", "due_in_days", "discount_type", CAST(round("discount_value" * 100) AS INTEGER), "sequence_id", "last_run_at", "created_at" FROM `__saved_recurring_profiles`;--> statement-breakpoint
+INSERT INTO `recurring_profile_line_items`("id", "profile_id", "item_id", "quantity", "unit_price", "discount_type", "discount_value") SELECT "id", "profile_id", "item_id", "quantity", CAST(round("unit_price" * 100) AS INTEGER), "discount_type", CAST(round("discount_value" * 100) AS INTEGER) FROM `__saved_recurring_profile_line_items`;--> statement-breakpoint
+INSERT INTO `recurring_invoice_runs` SELECT * FROM `__saved_recurring_invoice_runs`;--> statement-breakpoint
+DROP TABLE `__saved_estimates`;--> statement-breakpoint
+DROP TABLE `__saved_estimate_line_items`;--> statement-breakpoint
+DROP TABLE `__saved_estimate_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_invoices`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_items`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_items`;--> statement-breakpoint
+DROP TABLE `__saved_item_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_payments`;--> statement-breakpoint
+DROP TABLE `__saved_recurring_profiles`;--> statement-breakpoint
+DROP TABLE `__saved_recurring_profile_line_items`;--> statement-breakpoint
+DROP TABLE `__saved_recurring_invoice_runs`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE `estimates` ADD `rounding_policy` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `estimates` ADD `round_off` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `rounding_policy` text DEFAULT 'none' NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `round_off` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE `recurring_profiles` ADD `rounding_policy` text DEFAULT 'none' NOT NULL;
\ No newline at end of file
@@ -0,0 +1,68 @@
+-- Quantities become decimals. Existing lines were all whole numbers and are billed in NOS.
+-- The migrator runs this in a transaction, where PRAGMA foreign_keys=OFF has no effect, so
+-- dropping the line item tables would cascade to their tax snapshots. Those rows are set
+-- aside and put back once the new tables are in place.
+CREATE TEMP TABLE `__saved_estimate_line_taxes` AS SELECT * FROM `estimate_line_taxes`;--> statement-breakpoint
+CREATE TEMP TABLE `__saved_invoice_line_taxes` AS SELECT * FROM `invoice_line_taxes`;--> statement-breakpoint
+DELETE FROM `estimate_line_taxes`;--> statement-breakpoint
+DELETE FROM `invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_estimate_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`estimate_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` real NOT NULL,
+	`unit` text DEFAULT 'NOS' NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`estimate_id`) REFERENCES `estimates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_estimate_line_items`("id", "estimate_id", "item_id", "quantity", "unit", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT "id", "estimate_id", "item_id", "quantity", 'NOS', "unit_price", "discount_type", "discount_value", "discount", "total" FROM `estimate_line_items`;--> statement-breakpoint
+DROP TABLE `estimate_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_estimate_line_items` RENAME TO `estimate_line_items`;--> statement-breakpoint
+CREATE TABLE `__new_invoice_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` real NOT NULL,
+	`unit` text DEFAULT 'NOS' NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoice_line_items`("id", "invoice_id", "item_id", "quantity", "unit", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT "id", "invoice_id", "item_id", "quantity", 'NOS', "unit_price", "discount_type", "discount_value", "discount", "total" FROM `invoice_line_items`;--> statement-breakpoint
+DROP TABLE `invoice_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_invoice_line_items` RENAME TO `invoice_line_items`;--> statement-breakpoint
+CREATE TABLE `__new_recurring_profile_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`profile_id` text NOT NULL,
+	`item_id` text NOT NULL,
+	`quantity` real NOT NULL,
+	`unit` text DEFAULT 'NOS' NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	FOREIGN KEY (`profile_id`) REFERENCES `recurring_profiles`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_recurring_profile_line_items`("id", "profile_id", "item_id", "quantity", "unit", "unit_price", "discount_type", "discount_value") SELECT "id", "profile_id", "item_id", "quantity", 'NOS', "unit_price", "discount_type", "discount_value" FROM `recurring_profile_line_items`;--> statement-breakpoint
+DROP TABLE `recurring_profile_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_recurring_profile_line_items` RENAME TO `recurring_profile_line_items`;--> statement-breakpoint
+ALTER TABLE `items` ADD `unit` text DEFAULT 'NOS' NOT NULL;--> statement-breakpoint
+ALTER TABLE `items` ADD `quantity_decimals` integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+INSERT INTO `estimate_line_taxes` SELECT * FROM `__saved_estimate_line_taxes`;--> statement-breakpoint
+INSERT INTO `invoice_line_taxes` SELECT * FROM `__saved_invoice_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_estimate_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
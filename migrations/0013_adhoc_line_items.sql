@@ -0,0 +1,30 @@
+-- Invoice lines no longer need a catalog item: ad-hoc lines carry their own description and HSN/SAC
+-- The migrator runs this in a transaction, where PRAGMA foreign_keys=OFF has no effect, so
+-- dropping `invoice_line_items` would cascade to the line tax snapshots. Those rows are set
+-- aside and put back once the new table is in place.
+CREATE TEMP TABLE `__saved_invoice_line_taxes` AS SELECT * FROM `invoice_line_taxes`;--> statement-breakpoint
+DELETE FROM `invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_invoice_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`item_id` text,
+	`description` text,
+	`hsn_sac` text,
+	`quantity` real NOT NULL,
+	`unit` text DEFAULT 'NOS' NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoice_line_items`("id", "invoice_id", "item_id", "description", "hsn_sac", "quantity", "unit", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT "id", "invoice_id", "item_id", NULL, NULL, "quantity", "unit", "unit_price", "discount_type", "discount_value", "discount", "total" FROM `invoice_line_items`;--> statement-breakpoint
+DROP TABLE `invoice_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_invoice_line_items` RENAME TO `invoice_line_items`;--> statement-breakpoint
+INSERT INTO `invoice_line_taxes` SELECT * FROM `__saved_invoice_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,32 @@
+-- Invoice lines keep a copy of their item's name and description, taken from the catalog as it is now
+-- The migrator runs this in a transaction, where PRAGMA foreign_keys=OFF has no effect, so
+-- dropping `invoice_line_items` would cascade to the line tax snapshots. Those rows are set
+-- aside and put back once the new table is in place.
+CREATE TEMP TABLE `__saved_invoice_line_taxes` AS SELECT * FROM `invoice_line_taxes`;--> statement-breakpoint
+DELETE FROM `invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_invoice_line_items` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`item_id` text,
+	`item_name` text,
+	`description` text,
+	`hsn_sac` text,
+	`quantity` real NOT NULL,
+	`unit` text DEFAULT 'NOS' NOT NULL,
+	`unit_price` integer NOT NULL,
+	`discount_type` text DEFAULT 'flat' NOT NULL,
+	`discount_value` integer DEFAULT 0 NOT NULL,
+	`discount` integer DEFAULT 0 NOT NULL,
+	`total` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`item_id`) REFERENCES `items`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+INSERT INTO `__new_invoice_line_items`("id", "invoice_id", "item_id", "item_name", "description", "hsn_sac", "quantity", "unit", "unit_price", "discount_type", "discount_value", "discount", "total") SELECT l."id", l."invoice_id", l."item_id", i."name", coalesce(l."description", i."description"), l."hsn_sac", l."quantity", l."unit", l."unit_price", l."discount_type", l."discount_value", l."discount", l."total" FROM `invoice_line_items` l LEFT JOIN `items` i ON i."id" = l."item_id";--> statement-breakpoint
+DROP TABLE `invoice_line_items`;--> statement-breakpoint
+ALTER TABLE `__new_invoice_line_items` RENAME TO `invoice_line_items`;--> statement-breakpoint
+ALTER TABLE `items` ADD `hsn_sac` text;--> statement-breakpoint
+INSERT INTO `invoice_line_taxes` SELECT * FROM `__saved_invoice_line_taxes`;--> statement-breakpoint
+DROP TABLE `__saved_invoice_line_taxes`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,13 @@
+-- Notes, terms and payment terms on invoices, with organisation-wide defaults. Existing
+-- invoices keep the due dates typed on them (custom terms).
+CREATE TABLE `organisation_settings` (
+	`id` text PRIMARY KEY DEFAULT 'default' NOT NULL,
+	`default_notes` text,
+	`default_terms` text,
+	`default_payment_terms` text DEFAULT 'due_on_receipt' NOT NULL,
+	`updated_at` integer DEFAULT CURRENT_TIMESTAMP
+);
+--> statement-breakpoint
+ALTER TABLE `invoices` ADD `payment_terms` text DEFAULT 'custom' NOT NULL;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `notes` text;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `terms` text;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE `invoice_revisions` (
+	`id` text PRIMARY KEY NOT NULL,
+	`invoice_id` text NOT NULL,
+	`revision` integer NOT NULL,
+	`snapshot` text NOT NULL,
+	`changed_by` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `invoices`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `invoice_revisions_revision_idx` ON `invoice_revisions` (`invoice_id`,`revision`);
\ No newline at end of file
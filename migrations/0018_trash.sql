@@ -0,0 +1,4 @@
+ALTER TABLE `customers` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `invoices` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `items` ADD `deleted_at` integer;--> statement-breakpoint
+ALTER TABLE `organisation_settings` ADD `trash_retention_days` integer DEFAULT 30 NOT NULL;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE INDEX `customers_name_idx` ON `customers` (`deleted_at`,`name`);--> statement-breakpoint
+CREATE INDEX `customers_created_at_idx` ON `customers` (`deleted_at`,`created_at`);--> statement-breakpoint
+CREATE INDEX `invoice_line_items_invoice_idx` ON `invoice_line_items` (`invoice_id`);--> statement-breakpoint
+CREATE INDEX `invoices_created_at_idx` ON `invoices` (`document_type`,`deleted_at`,`created_at`);--> statement-breakpoint
+CREATE INDEX `invoices_issue_date_idx` ON `invoices` (`document_type`,`deleted_at`,`issue_date`);--> statement-breakpoint
+CREATE INDEX `invoices_due_date_idx` ON `invoices` (`document_type`,`deleted_at`,`due_date`);--> statement-breakpoint
+CREATE INDEX `invoices_total_idx` ON `invoices` (`document_type`,`deleted_at`,`total`);--> statement-breakpoint
+CREATE INDEX `invoices_status_idx` ON `invoices` (`status`);--> statement-breakpoint
+CREATE INDEX `invoices_customer_idx` ON `invoices` (`customer_id`);--> statement-breakpoint
+CREATE INDEX `items_name_idx` ON `items` (`deleted_at`,`name`);--> statement-breakpoint
+CREATE INDEX `items_created_at_idx` ON `items` (`deleted_at`,`created_at`);
\ No newline at end of file
@@ -0,0 +1,67 @@
+-- Full-text index behind GET /api/search (see shared/search.ts). One row per invoice, note,
+-- customer and item not in the trash, kept in step by the triggers below; invoice rows are
+-- typed by their document type. drizzle-kit does not know about the virtual table or the
+-- triggers: a migration that recreates invoices, customers or items drops their triggers and
+-- has to create them again.
+CREATE VIRTUAL TABLE `search_index` USING fts5(
+	`entity_type` UNINDEXED,
+	`entity_id` UNINDEXED,
+	`title`,
+	`body`,
+	tokenize = 'unicode61 remove_diacritics 2',
+	prefix = '2 3'
+);
+--> statement-breakpoint
+CREATE TRIGGER `invoices_search_insert` AFTER INSERT ON `invoices` WHEN new.`deleted_at` IS NULL BEGIN
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	VALUES (new.`document_type`, new.`id`, new.`invoice_number`, coalesce(new.`notes`, ''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `invoices_search_update` AFTER UPDATE OF `invoice_number`, `notes`, `deleted_at` ON `invoices` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = old.`document_type` AND `entity_id` = old.`id`;
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	SELECT new.`document_type`, new.`id`, new.`invoice_number`, coalesce(new.`notes`, '') WHERE new.`deleted_at` IS NULL;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `invoices_search_delete` AFTER DELETE ON `invoices` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = old.`document_type` AND `entity_id` = old.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `customers_search_insert` AFTER INSERT ON `customers` WHEN new.`deleted_at` IS NULL BEGIN
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	VALUES ('customer', new.`id`, new.`name`, concat_ws(' ', new.`email`, new.`gstin`, new.`billing_address`));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `customers_search_update` AFTER UPDATE OF `name`, `email`, `gstin`, `billing_address`, `deleted_at` ON `customers` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = 'customer' AND `entity_id` = old.`id`;
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	SELECT 'customer', new.`id`, new.`name`, concat_ws(' ', new.`email`, new.`gstin`, new.`billing_address`) WHERE new.`deleted_at` IS NULL;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `customers_search_delete` AFTER DELETE ON `customers` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = 'customer' AND `entity_id` = old.`id`;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_search_insert` AFTER INSERT ON `items` WHEN new.`deleted_at` IS NULL BEGIN
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	VALUES ('item', new.`id`, new.`name`, coalesce(new.`description`, ''));
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_search_update` AFTER UPDATE OF `name`, `description`, `deleted_at` ON `items` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = 'item' AND `entity_id` = old.`id`;
+	INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+	SELECT 'item', new.`id`, new.`name`, coalesce(new.`description`, '') WHERE new.`deleted_at` IS NULL;
+END;
+--> statement-breakpoint
+CREATE TRIGGER `items_search_delete` AFTER DELETE ON `items` BEGIN
+	DELETE FROM `search_index` WHERE `entity_type` = 'item' AND `entity_id` = old.`id`;
+END;
+--> statement-breakpoint
+INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+SELECT `document_type`, `id`, `invoice_number`, coalesce(`notes`, '') FROM `invoices` WHERE `deleted_at` IS NULL;
+--> statement-breakpoint
+INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+SELECT 'customer', `id`, `name`, concat_ws(' ', `email`, `gstin`, `billing_address`) FROM `customers` WHERE `deleted_at` IS NULL;
+--> statement-breakpoint
+INSERT INTO `search_index`(`entity_type`, `entity_id`, `title`, `body`)
+SELECT 'item', `id`, `name`, coalesce(`description`, '') FROM `items` WHERE `deleted_at` IS NULL;
@@ -0,0 +1,4 @@
+-- Invoices settled by credit notes alone were marked paid; they are credited, as no money was
+-- received for them (see derivePaymentStatus in shared/payments.ts)
+UPDATE `invoices` SET `status` = 'credited'
+WHERE `status` = 'paid' AND `amount_paid` = 0 AND `amount_credited` > 0;
@@ -0,0 +1,181 @@
+// Times the invoice and item list reads against a throwaway database seeded with 10k invoices,
+// comparing the batched reads in server/storage.ts with the one-query-per-row reads they
+// replaced. Run with `npm run bench:reads`, or `npm run bench:reads -- --invoices=50000`.
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { performance } from "perf_hooks";
+import type { SQLiteTable } from "drizzle-orm/sqlite-core";
+import type * as Schema from "@shared/schema";
+
+const invoiceCount = Number(process.argv.find(arg => arg.startsWith("--invoices="))?.split("=")[1] ?? 10000);
+const customerCount = 500;
+const itemCount = 1000;
+const linesPerInvoice = 3;
+const runs = 5;
+
+const databaseFile = path.join(os.tmpdir(), `invoice-builder-bench-${process.pid}.db`);
+process.env.DATABASE_FILE = databaseFile;
+
+async function main() {
+  // Imported only once DATABASE_FILE is set, so the real database is never opened
+  const { db } = await import("../server/db");
+  const { storage } = await import("../server/storage");
+  const { migrate } = await import("drizzle-orm/better-sqlite3/migrator");
+  const { and, eq, inArray, isNull } = await import("drizzle-orm");
+  const { customers, items, taxes, itemTaxes, invoices, invoiceLineItems, invoiceLineTaxes } = await import("@shared/schema");
+
+  // Rows per insert statement, well under SQLite's limit on bound parameters
+  const insertBatchSize = 500;
+
+  function insertAll<T extends SQLiteTable>(table: T, rows: T["$inferInsert"][]) {
+    for (let start = 0; start < rows.length; start += insertBatchSize) {
+      db.insert(table).values(rows.slice(start, start + insertBatchSize)).run();
+    }
+  }
+
+  function seed() {
+    const now = new Date();
+    const taxRows = [
+      { id: crypto.randomUUID(), name: "CGST", percentage: 9, createdAt: now },
+      { id: crypto.randomUUID(), name: "SGST", percentage: 9, createdAt: now },
+    ];
+    const customerRows = Array.from({ length: customerCount }, (_, i) => ({
+      id: crypto.randomUUID(),
+      name: `Customer ${i + 1}`,
+      email: `customer${i + 1}@example.com`,
+      createdAt: now,
+    }));
+    const itemRows = Array.from({ length: itemCount }, (_, i) => ({
+      id: crypto.randomUUID(),
+      name: `Item ${i + 1}`,
+      description: `Description of item ${i + 1}`,
+      unitPrice: 10000 + i,
+      createdAt: now,
+    }));
+    const itemTaxRows = itemRows.flatMap(item => taxRows.map(tax => ({ id: crypto.randomUUID(), itemId: item.id, taxId: tax.id })));
+
+    const invoiceRows: (typeof Schema.invoices.$inferInsert)[] = [];
+    const lineRows: (typeof Schema.invoiceLineItems.$inferInsert)[] = [];
+    const lineTaxRows: (typeof Schema.invoiceLineTaxes.$inferInsert)[] = [];
+    for (let i = 0; i < invoiceCount; i++) {
+      const invoiceId = crypto.randomUUID();
+      let subtotal = 0;
+      for (let line = 0; line < linesPerInvoice; line++) {
+        const item = itemRows[(i * linesPerInvoice + line) % itemCount];
+        const lineId = crypto.randomUUID();
+        subtotal += item.unitPrice;
+        lineRows.push({
+          id: lineId,
+          invoiceId,
+          itemId: item.id,
+          itemName: item.name,
+          description: item.description,
+          quantity: 1,
+          unitPrice: item.unitPrice,
+          total: item.unitPrice,
+        });
+        for (const tax of taxRows) {
+          lineTaxRows.push({
+            id: crypto.randomUUID(),
+            invoiceId,
+            lineItemId: lineId,
+            taxId: tax.id,
+            taxName: tax.name,
+            rate: tax.percentage,
+            taxableAmount: item.unitPrice,
+            taxAmount: Math.round(item.unitPrice * tax.percentage / 100),
+          });
+        }
+      }
+      const totalTax = Math.round(subtotal * 0.18);
+      invoiceRows.push({
+        id: invoiceId,
+        invoiceNumber: `BENCH/${String(i + 1).padStart(6, "0")}`,
+        customerId: customerRows[i % customerCount].id,
+        issueDate: new Date(now.getTime() - i * 60 * 60 * 1000),
+        subtotal,
+        totalTax,
+        total: subtotal + totalTax,
+        status: "issued",
+        createdAt: new Date(now.getTime() - i * 1000),
+      });
+    }
+
+    db.transaction(() => {
+      insertAll(taxes, taxRows);
+      insertAll(customers, customerRows);
+      insertAll(items, itemRows);
+      insertAll(itemTaxes, itemTaxRows);
+      insertAll(invoices, invoiceRows);
+      insertAll(invoiceLineItems, lineRows);
+      insertAll(invoiceLineTaxes, lineTaxRows);
+    });
+  }
+
+  // The reads as they were: one line query per invoice and one tax query per item
+  async function perRowInvoices() {
+    const rows = await db
+      .select({ invoices, customers })
+      .from(invoices)
+      .leftJoin(customers, eq(invoices.customerId, customers.id))
+      .where(and(eq(invoices.documentType, "invoice"), isNull(invoices.deletedAt)));
+    // Line taxes were already read in one query
+    const taxesByLine = new Map<string, (typeof invoiceLineTaxes.$inferSelect)[]>();
+    const lineTaxes = await db.select().from(invoiceLineTaxes).where(inArray(invoiceLineTaxes.invoiceId, rows.map(row => row.invoices.id)));
+    lineTaxes.forEach(tax => taxesByLine.set(tax.lineItemId, [...(taxesByLine.get(tax.lineItemId) || []), tax]));
+
+    return Promise.all(rows.map(async row => ({
+      ...row.invoices,
+      customer: row.customers,
+      lineItems: (await db.select().from(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, row.invoices.id)))
+        .map(line => ({ ...line, taxes: taxesByLine.get(line.id) || [] })),
+    })));
+  }
+
+  async function perRowItems() {
+    const rows = await db.select().from(items).where(isNull(items.deletedAt));
+    return Promise.all(rows.map(async item => ({
+      ...item,
+      taxes: (await db.select({ tax: taxes }).from(itemTaxes).innerJoin(taxes, eq(itemTaxes.taxId, taxes.id)).where(eq(itemTaxes.itemId, item.id)))
+        .map(row => row.tax),
+    })));
+  }
+
+  async function time(label: string, read: () => Promise<unknown[]>) {
+    const count = (await read()).length; // warm-up, and a check that both sides return the same rows
+    const durations: number[] = [];
+    for (let run = 0; run < runs; run++) {
+      const start = performance.now();
+      await read();
+      durations.push(performance.now() - start);
+    }
+    durations.sort((a, b) => a - b);
+    const median = durations[Math.floor(runs / 2)];
+    console.log(`${label.padEnd(40)} ${String(count).padStart(6)} rows  ${median.toFixed(1).padStart(9)} ms`);
+    return median;
+  }
+
+  try {
+    migrate(db, { migrationsFolder: path.resolve("migrations") });
+    const seedStart = performance.now();
+    seed();
+    console.log(`Seeded ${invoiceCount} invoices, ${customerCount} customers and ${itemCount} items in ${((performance.now() - seedStart) / 1000).toFixed(1)} s`);
+    console.log(`Median of ${runs} runs:\n`);
+
+    const perRow = await time("invoices, one query per invoice", perRowInvoices);
+    const batched = await time("invoices, batched (getInvoices)", async () => (await storage.getInvoices()).data);
+    await time("invoices, one page (getInvoices)", async () => (await storage.getInvoices(["invoice"], { limit: 25 })).data);
+    const perRowItem = await time("items, one query per item", perRowItems);
+    const batchedItem = await time("items, batched (getItems)", async () => (await storage.getItems()).data);
+
+    console.log(`\nInvoices ${(perRow / batched).toFixed(1)}x faster, items ${(perRowItem / batchedItem).toFixed(1)}x faster`);
+  } finally {
+    for (const suffix of ["", "-wal", "-shm"]) fs.rmSync(databaseFile + suffix, { force: true });
+  }
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
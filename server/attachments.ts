@@ -0,0 +1,37 @@
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+
+// Attachment files live on local disk, one directory per invoice, under ATTACHMENTS_DIR
+// (uploads/attachments in the working directory unless set). The database keeps the
+// original name, type, size and checksum; files are stored under generated names.
+export const attachmentsDir = path.resolve(process.env.ATTACHMENTS_DIR || "uploads/attachments");
+
+const invoiceDir = (invoiceId: string) => path.join(attachmentsDir, invoiceId);
+
+export const attachmentPath = (invoiceId: string, storedName: string) => path.join(invoiceDir(invoiceId), storedName);
+
+export const checksumOf = (content: Buffer): string => crypto.createHash("sha256").update(content).digest("hex");
+
+export async function writeAttachmentFile(invoiceId: string, storedName: string, content: Buffer): Promise<void> {
+  await fs.mkdir(invoiceDir(invoiceId), { recursive: true });
+  await fs.writeFile(attachmentPath(invoiceId, storedName), content, { flag: "wx" });
+}
+
+export async function readAttachmentFile(invoiceId: string, storedName: string): Promise<Buffer | undefined> {
+  try {
+    return await fs.readFile(attachmentPath(invoiceId, storedName));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+    throw error;
+  }
+}
+
+// Missing files are ignored: the row is what matters, and a retry should not fail
+export async function removeAttachmentFile(invoiceId: string, storedName: string): Promise<void> {
+  await fs.rm(attachmentPath(invoiceId, storedName), { force: true });
+}
+
+export async function removeInvoiceAttachmentFiles(invoiceId: string): Promise<void> {
+  await fs.rm(invoiceDir(invoiceId), { recursive: true, force: true });
+}
@@ -2,7 +2,8 @@ import { drizzle } from 'drizzle-orm/better-sqlite3';
 import Database from 'better-sqlite3';
 import * as schema from "@shared/schema";
 
-const sqlite = new Database('sqlite.db');
+// DATABASE_FILE points elsewhere for throwaway databases, e.g. scripts/benchmark-reads.ts
+const sqlite = new Database(process.env.DATABASE_FILE || 'sqlite.db');
 sqlite.pragma('journal_mode = WAL');
 sqlite.pragma('synchronous = NORMAL');
 export const db = drizzle(sqlite, { schema });
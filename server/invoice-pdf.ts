@@ -0,0 +1,171 @@
+import { jsPDF } from "jspdf";
+import type { InvoiceWithDetails, Template } from "@shared/schema";
+import { documentTypeLabels, type DocumentType } from "@shared/numbering";
+import { statusLabel } from "@shared/invoice-status";
+import { formatMoney, fromBasisPoints } from "@shared/money";
+import { formatQuantity } from "@shared/units";
+import { paymentTermsLabel } from "@shared/payment-terms";
+
+// Server-side rendering of an invoice to PDF, for exports that bundle many invoices.
+// It prints the same content as the preview in client/src/components/pdf-generator.tsx.
+
+const pageWidth = 595.28; // A4, in points
+const pageHeight = 841.89;
+const margin = 40;
+const lineHeight = 14;
+
+// The built-in PDF fonts have no rupee sign
+const money = (paise: number) => formatMoney(paise).replace("₹", "Rs. ");
+
+const formatDate = (date: Date | string) => new Date(date).toLocaleDateString("en-IN");
+
+export const invoicePdfFileName = (invoice: Pick<InvoiceWithDetails, "documentType" | "invoiceNumber">) =>
+  `${invoice.documentType.replace(/_/g, "-")}-${invoice.invoiceNumber.replace(/[^\w.-]+/g, "-")}.pdf`;
+
+export function renderInvoicePdf(invoice: InvoiceWithDetails, template?: Template): Buffer {
+  const doc = new jsPDF({ unit: "pt", format: "a4" });
+  const right = pageWidth - margin;
+  let y = margin;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - margin) {
+      doc.addPage();
+      y = margin;
+    }
+  };
+  const write = (text: string, x = margin, options: { align?: "left" | "right"; bold?: boolean; size?: number } = {}) => {
+    doc.setFont("helvetica", options.bold ? "bold" : "normal");
+    doc.setFontSize(options.size ?? 10);
+    doc.text(text, x, y, { align: options.align ?? "left" });
+  };
+  const paragraph = (text: string, width = right - margin) => {
+    doc.setFont("helvetica", "normal");
+    doc.setFontSize(10);
+    for (const line of doc.splitTextToSize(text, width) as string[]) {
+      ensureSpace(lineHeight);
+      doc.text(line, margin, y);
+      y += lineHeight;
+    }
+  };
+
+  // Header
+  doc.setFillColor(template?.primaryColor || "#3b82f6");
+  doc.rect(margin, y - 12, 4, 44, "F");
+  write("InvoicePro", margin + 12, { bold: true, size: 16 });
+  const title = (documentTypeLabels[invoice.documentType as DocumentType] ?? "Invoice").toUpperCase();
+  write(title, right, { align: "right", bold: true, size: 18 });
+  y += 20;
+  write(invoice.invoiceNumber, right, { align: "right", bold: true, size: 12 });
+  y += lineHeight;
+  if (invoice.originalInvoice) {
+    write(`Against Invoice ${invoice.originalInvoice.invoiceNumber} dated ${formatDate(invoice.originalInvoice.issueDate)}`, right, { align: "right" });
+    y += lineHeight;
+  }
+  if (invoice.noteReason) {
+    write(`Reason: ${invoice.noteReason}`, right, { align: "right" });
+    y += lineHeight;
+  }
+  y += lineHeight;
+
+  // Customer and dates
+  const top = y;
+  write("Bill To:", margin, { bold: true, size: 11 });
+  y += lineHeight;
+  for (const line of [invoice.customer.name, invoice.customer.email, invoice.customer.phone, invoice.customer.billingAddress, invoice.customer.gstin && `GSTIN: ${invoice.customer.gstin}`]) {
+    if (!line) continue;
+    write(line);
+    y += lineHeight;
+  }
+  const bottom = y;
+  y = top;
+  const details = [
+    `Issue Date: ${formatDate(invoice.issueDate)}`,
+    invoice.dueDate ? `Due Date: ${formatDate(invoice.dueDate)}` : null,
+    invoice.paymentTerms !== "custom" ? `Payment Terms: ${paymentTermsLabel(invoice.paymentTerms)}` : null,
+    `Status: ${statusLabel(invoice.status)}`,
+  ];
+  for (const line of details) {
+    if (!line) continue;
+    write(line, right, { align: "right" });
+    y += lineHeight;
+  }
+  y = Math.max(y, bottom) + lineHeight;
+
+  // Lines
+  const columns = { item: margin, quantity: 330, price: 430, amount: right };
+  const lineHeader = () => {
+    write("Item", columns.item, { bold: true });
+    write("Qty", columns.quantity, { align: "right", bold: true });
+    write("Rate", columns.price, { align: "right", bold: true });
+    write("Amount", columns.amount, { align: "right", bold: true });
+    y += 4;
+    doc.line(margin, y, right, y);
+    y += lineHeight;
+  };
+  lineHeader();
+  for (const line of invoice.lineItems) {
+    const name = line.itemName ?? line.description ?? "";
+    const details = [
+      line.itemName ? line.description : null,
+      line.hsnSac ? `HSN/SAC ${line.hsnSac}` : null,
+      line.discount ? `Discount ${money(line.discount)}` : null,
+    ].filter(Boolean).join(" · ");
+    const nameLines = doc.splitTextToSize(name, columns.quantity - margin - 60) as string[];
+    ensureSpace(lineHeight * (nameLines.length + (details ? 1 : 0)));
+    if (y === margin) lineHeader();
+
+    write(nameLines[0] ?? "");
+    write(formatQuantity(line.quantity, line.unit), columns.quantity, { align: "right" });
+    write(money(line.unitPrice), columns.price, { align: "right" });
+    write(money(line.total), columns.amount, { align: "right" });
+    y += lineHeight;
+    for (const extra of nameLines.slice(1)) {
+      write(extra);
+      y += lineHeight;
+    }
+    if (details) {
+      write(details, margin, { size: 8 });
+      y += lineHeight;
+    }
+  }
+  doc.line(margin, y - 8, right, y - 8);
+  y += 4;
+
+  // Totals
+  const taxBreakdown = new Map<string, { name: string; rate: number; amount: number }>();
+  invoice.lineItems.forEach(line => line.taxes.forEach(tax => {
+    const key = `${tax.taxName}|${tax.rate}`;
+    const existing = taxBreakdown.get(key);
+    if (existing) existing.amount += tax.taxAmount;
+    else taxBreakdown.set(key, { name: tax.taxName, rate: tax.rate, amount: tax.taxAmount });
+  }));
+  const totals: [string, string, boolean?][] = [
+    ["Subtotal", money(invoice.subtotal)],
+    ...(invoice.discount
+      ? [[invoice.discountType === "percent" ? `Discount (${fromBasisPoints(invoice.discountValue)}%)` : "Discount", `-${money(invoice.discount)}`] as [string, string]]
+      : []),
+    ...Array.from(taxBreakdown.values()).map(tax => [`${tax.name} (${tax.rate}%)`, money(tax.amount)] as [string, string]),
+    ["Tax", money(invoice.totalTax)],
+    ...(invoice.roundOff ? [["Round off", `${invoice.roundOff > 0 ? "+" : ""}${money(invoice.roundOff)}`] as [string, string]] : []),
+    ["Total", money(invoice.total), true],
+  ];
+  for (const [label, amount, bold] of totals) {
+    ensureSpace(lineHeight);
+    write(label, columns.price - 80, { bold });
+    write(amount, columns.amount, { align: "right", bold });
+    y += lineHeight;
+  }
+  y += lineHeight;
+  paragraph(`Amount in words: ${invoice.amountInWords}`);
+
+  for (const [heading, text] of [["Notes", invoice.notes], ["Terms & Conditions", invoice.terms]] as const) {
+    if (!text) continue;
+    y += lineHeight / 2;
+    ensureSpace(lineHeight * 2);
+    write(heading, margin, { bold: true, size: 11 });
+    y += lineHeight;
+    paragraph(text);
+  }
+
+  return Buffer.from(doc.output("arraybuffer"));
+}
@@ -1,16 +1,49 @@
-import type { Express } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
-import { insertCustomerSchema, insertTaxSchema, insertItemSchema, insertInvoiceSchema, insertTemplateSchema } from "@shared/schema";
+import multer from "multer";
+import archiver from "archiver";
+import { storage, InvoiceTotalsMismatchError, QuantityPrecisionError, UnknownItemError, DuplicateNumberError, OverpaymentError, InvoiceStateError, CreditLimitError, EstimateStateError, AttachmentError, TrashError } from "./storage";
+import { insertCustomerSchema, insertTaxSchema, insertItemSchema, insertInvoiceSchema, insertTemplateSchema, insertNumberSequenceSchema, insertPaymentSchema, insertEstimateSchema, insertRecurringProfileSchema, insertRecurringProfileLineItemSchema, invoiceLineInputSchema, estimateLineInputSchema, insertOrganisationSettingsSchema } from "@shared/schema";
+import { invoiceStatuses } from "@shared/invoice-status";
+import { estimateStatuses } from "@shared/estimate-status";
+import { documentTypes, noteTypes, type DocumentType } from "@shared/numbering";
+import { formatFileSize, maxAttachmentSize } from "@shared/attachments";
+import { trashEntityTypes } from "@shared/trash";
+import { bulkInvoiceActions, maxBulkInvoices } from "@shared/bulk-actions";
+import { maxSearchLength, maxSearchResults } from "@shared/search";
+import { customerListQuerySchema, invoiceListQuerySchema, itemListQuerySchema } from "@shared/list-query";
+import { invoicePdfFileName, renderInvoicePdf } from "./invoice-pdf";
 import { z } from "zod";
 
+// One file per request, held in memory until storage has checked it and written it to disk
+const upload = multer({ storage: multer.memoryStorage(), limits: { fileSize: maxAttachmentSize, files: 1 } });
+
+// Upload errors are answered here rather than reaching the generic error handler
+const uploadFile: RequestHandler = (req, res, next) => {
+  upload.single("file")(req, res, (error: unknown) => {
+    if (error instanceof multer.MulterError) {
+      return error.code === "LIMIT_FILE_SIZE"
+        ? res.status(413).json({ message: `Attachments can be at most ${formatFileSize(maxAttachmentSize)}` })
+        : res.status(400).json({ message: error.message });
+    }
+    next(error);
+  });
+};
+
+// Nobody signs in yet, so a revision records whoever the client names in X-Changed-By, if anyone
+const changedBy = (req: Request): string | null => req.get("X-Changed-By")?.trim() || null;
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Customers
   app.get("/api/customers", async (req, res) => {
     try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
+      const query = customerListQuerySchema.parse(req.query);
+      const page = await storage.getCustomers(query);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", errors: error.errors });
+      }
       console.error("Failed to fetch customers:", error);
       res.status(500).json({ message: "Failed to fetch customers", error: error instanceof Error ? error.message : String(error) });
     }
@@ -113,9 +146,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Items
   app.get("/api/items", async (req, res) => {
     try {
-      const items = await storage.getItems();
-      res.json(items);
+      const query = itemListQuerySchema.parse(req.query);
+      const page = await storage.getItems(query);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch items" });
     }
   });
@@ -172,13 +209,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Invoices
   app.get("/api/invoices", async (req, res) => {
     try {
-      const invoices = await storage.getInvoices();
-      res.json(invoices);
+      const query = invoiceListQuerySchema.parse(req.query);
+      const page = await storage.getInvoices(["invoice"], query);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", errors: error.errors });
+      }
       res.status(500).json({ message: "Failed to fetch invoices" });
     }
   });
 
+  // Credit and debit notes, which GET /api/invoices leaves out
+  app.get("/api/invoices/notes", async (req, res) => {
+    try {
+      const query = invoiceListQuerySchema.parse(req.query);
+      const page = await storage.getInvoices(noteTypes, query);
+      res.json(page);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid list query", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to fetch credit and debit notes" });
+    }
+  });
+
   app.get("/api/invoices/stats", async (req, res) => {
     try {
       const stats = await storage.getInvoiceStats();
@@ -188,6 +243,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post("/api/invoices/recompute-status", async (req, res) => {
+    try {
+      const result = await storage.recomputeInvoiceStatuses();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to recompute invoice statuses" });
+    }
+  });
+
+  app.get("/api/invoices/next-number", async (req, res) => {
+    try {
+      const issueDate = req.query.issueDate ? new Date(String(req.query.issueDate)) : new Date();
+      const sequenceId = req.query.sequenceId ? String(req.query.sequenceId) : undefined;
+      const documentType = documentTypes.includes(req.query.documentType as DocumentType)
+        ? req.query.documentType as DocumentType
+        : "invoice";
+      const invoiceNumber = await storage.previewDocumentNumber(documentType, isNaN(issueDate.getTime()) ? new Date() : issueDate, sequenceId);
+      res.json({ invoiceNumber });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview invoice number", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
   app.get("/api/invoices/:id", async (req, res) => {
     try {
       const invoice = await storage.getInvoice(req.params.id);
@@ -203,15 +281,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post("/api/invoices", async (req, res) => {
     try {
       console.log("Invoice creation request body:", JSON.stringify(req.body, null, 2));
-      const { lineItems, ...invoiceData } = req.body;
+      const { lineItems, sequenceId, ...invoiceData } = req.body;
       const validatedInvoice = insertInvoiceSchema.parse(invoiceData);
-      const invoice = await storage.createInvoice(validatedInvoice, lineItems || []);
+      const validatedLines = z.array(invoiceLineInputSchema).parse(lineItems || []);
+      const invoice = await storage.createInvoice(validatedInvoice, validatedLines, sequenceId || undefined, changedBy(req));
       res.status(201).json(invoice);
     } catch (error) {
       console.error("Failed to create invoice:", error);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
       }
+      if (error instanceof InvoiceTotalsMismatchError) {
+        return res.status(422).json({ message: error.message, expected: error.expected });
+      }
+      if (error instanceof DuplicateNumberError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(422).json({ message: error.message, available: error.available });
+      }
+      if (error instanceof InvoiceStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to create invoice", error: error instanceof Error ? error.message : String(error) });
     }
   });
@@ -220,12 +317,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { lineItems, ...invoiceData } = req.body;
       const validatedInvoice = insertInvoiceSchema.partial().parse(invoiceData);
-      const invoice = await storage.updateInvoice(req.params.id, validatedInvoice, lineItems || []);
+      const validatedLines = z.array(invoiceLineInputSchema).parse(lineItems || []);
+      const invoice = await storage.updateInvoice(req.params.id, validatedInvoice, validatedLines, changedBy(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
       res.json(invoice);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid invoice data", errors: error.errors });
       }
+      if (error instanceof InvoiceTotalsMismatchError) {
+        return res.status(422).json({ message: error.message, expected: error.expected });
+      }
+      if (error instanceof DuplicateNumberError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof InvoiceStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to update invoice" });
     }
   });
@@ -235,10 +351,516 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.deleteInvoice(req.params.id);
       res.status(204).send();
     } catch (error) {
+      if (error instanceof InvoiceStateError) {
+        return res.status(409).json({ message: error.message });
+      }
       res.status(500).json({ message: "Failed to delete invoice" });
     }
   });
 
+  // Bulk actions report on every invoice; one that fails does not stop the others
+  app.post("/api/invoices/bulk", async (req, res) => {
+    try {
+      const { action, ids, reason } = z.object({
+        action: z.enum(bulkInvoiceActions),
+        ids: z.array(z.string()).min(1).max(maxBulkInvoices),
+        reason: z.string().trim().optional(),
+      }).refine(body => body.action !== "cancel" || body.reason, {
+        message: "A reason is required to cancel invoices",
+        path: ["reason"],
+      }).parse(req.body);
+      const report = await storage.bulkInvoiceAction(ids, action, { reason, changedBy: changedBy(req) });
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid bulk action", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to apply bulk action", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // The selected invoices as PDFs in one zip, rendered one at a time as the archive streams out
+  app.post("/api/invoices/export", async (req, res) => {
+    let archive: archiver.Archiver | undefined;
+    try {
+      const { ids } = z.object({ ids: z.array(z.string()).min(1).max(maxBulkInvoices) }).parse(req.body);
+      const found = [];
+      for (const id of Array.from(new Set(ids))) {
+        const invoice = await storage.getInvoice(id);
+        if (invoice && !invoice.deletedAt) found.push(invoice);
+      }
+      if (found.length === 0) {
+        return res.status(404).json({ message: "None of the selected invoices were found" });
+      }
+      const templates = await storage.getTemplates();
+      const template = templates.find(candidate => candidate.isDefault) ?? templates[0];
+
+      res.attachment(`invoices-${new Date().toISOString().slice(0, 10)}.zip`);
+      res.type("application/zip");
+      archive = archiver("zip");
+      archive.pipe(res);
+      for (const invoice of found) {
+        archive.append(renderInvoicePdf(invoice, template), { name: invoicePdfFileName(invoice) });
+      }
+      await archive.finalize();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid export request", errors: error.errors });
+      }
+      console.error("Failed to export invoices:", error);
+      // Once the zip has started there is no way to report an error but to cut it short
+      if (archive) {
+        archive.abort();
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Failed to export invoices" });
+    }
+  });
+
+  app.post("/api/invoices/:id/status", async (req, res) => {
+    try {
+      const { status, reason } = z.object({
+        status: z.enum(invoiceStatuses),
+        reason: z.string().optional(),
+      }).parse(req.body);
+      const invoice = await storage.transitionInvoice(req.params.id, status, reason, changedBy(req));
+      if (!invoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.json(invoice);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      }
+      if (error instanceof CreditLimitError) {
+        return res.status(422).json({ message: error.message, available: error.available });
+      }
+      if (error instanceof InvoiceStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to change invoice status" });
+    }
+  });
+
+  app.get("/api/invoices/:id/notes", async (req, res) => {
+    try {
+      const notes = await storage.getInvoiceNotes(req.params.id);
+      res.json(notes);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch credit and debit notes" });
+    }
+  });
+
+  // Payments
+  app.get("/api/invoices/:id/payments", async (req, res) => {
+    try {
+      const payments = await storage.getPayments(req.params.id);
+      res.json(payments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/invoices/:id/payments", async (req, res) => {
+    try {
+      const { allowOverpayment, ...paymentData } = req.body;
+      const validatedPayment = insertPaymentSchema.parse(paymentData);
+      const payment = await storage.createPayment(req.params.id, validatedPayment, allowOverpayment === true);
+      if (!payment) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.status(201).json(payment);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid payment data", errors: error.errors });
+      }
+      if (error instanceof OverpaymentError) {
+        return res.status(422).json({ message: error.message, balanceDue: error.balanceDue });
+      }
+      if (error instanceof InvoiceStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to record payment", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.delete("/api/invoices/:id/payments/:paymentId", async (req, res) => {
+    try {
+      await storage.deletePayment(req.params.id, req.params.paymentId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete payment" });
+    }
+  });
+
+  // Revisions
+  app.get("/api/invoices/:id/revisions", async (req, res) => {
+    try {
+      const revisions = await storage.getInvoiceRevisions(req.params.id);
+      res.json(revisions);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch revisions" });
+    }
+  });
+
+  app.get("/api/invoices/:id/revisions/diff", async (req, res) => {
+    try {
+      const { from, to } = z.object({
+        from: z.coerce.number().int().positive(),
+        to: z.coerce.number().int().positive(),
+      }).parse(req.query);
+      const diff = await storage.diffInvoiceRevisions(req.params.id, from, to);
+      if (!diff) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(diff);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid revision numbers", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to compare revisions" });
+    }
+  });
+
+  app.get("/api/invoices/:id/revisions/:revision", async (req, res) => {
+    try {
+      const revision = await storage.getInvoiceRevision(req.params.id, Number(req.params.revision));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch revision" });
+    }
+  });
+
+  // Attachments
+  app.get("/api/invoices/:id/attachments", async (req, res) => {
+    try {
+      const attachments = await storage.getInvoiceAttachments(req.params.id);
+      res.json(attachments);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch attachments" });
+    }
+  });
+
+  app.post("/api/invoices/:id/attachments", uploadFile, async (req, res) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "Choose a file to attach" });
+      }
+      const attachment = await storage.createInvoiceAttachment(req.params.id, {
+        fileName: req.file.originalname,
+        mimeType: req.file.mimetype,
+        content: req.file.buffer,
+      });
+      if (!attachment) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      res.status(201).json(attachment);
+    } catch (error) {
+      if (error instanceof AttachmentError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to upload attachment" });
+    }
+  });
+
+  app.get("/api/invoices/:id/attachments/:attachmentId/download", async (req, res) => {
+    try {
+      const file = await storage.getInvoiceAttachmentContent(req.params.id, req.params.attachmentId);
+      if (!file) {
+        return res.status(404).json({ message: "Attachment not found" });
+      }
+      res.attachment(file.attachment.fileName);
+      res.set({
+        "Content-Type": file.attachment.mimeType,
+        "Content-Length": String(file.attachment.size),
+        ETag: `"${file.attachment.checksum}"`,
+      });
+      res.send(file.content);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to download attachment" });
+    }
+  });
+
+  app.delete("/api/invoices/:id/attachments/:attachmentId", async (req, res) => {
+    try {
+      await storage.deleteInvoiceAttachment(req.params.id, req.params.attachmentId);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete attachment" });
+    }
+  });
+
+  // Estimates
+  app.get("/api/estimates", async (req, res) => {
+    try {
+      const estimates = await storage.getEstimates();
+      res.json(estimates);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch estimates" });
+    }
+  });
+
+  app.get("/api/estimates/next-number", async (req, res) => {
+    try {
+      const issueDate = req.query.issueDate ? new Date(String(req.query.issueDate)) : new Date();
+      const sequenceId = req.query.sequenceId ? String(req.query.sequenceId) : undefined;
+      const estimateNumber = await storage.previewDocumentNumber("estimate", isNaN(issueDate.getTime()) ? new Date() : issueDate, sequenceId);
+      res.json({ estimateNumber });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to preview estimate number", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.get("/api/estimates/:id", async (req, res) => {
+    try {
+      const estimate = await storage.getEstimate(req.params.id);
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      res.json(estimate);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch estimate" });
+    }
+  });
+
+  app.post("/api/estimates", async (req, res) => {
+    try {
+      const { lineItems, sequenceId, ...estimateData } = req.body;
+      const validatedEstimate = insertEstimateSchema.parse(estimateData);
+      const validatedLines = z.array(estimateLineInputSchema).parse(lineItems || []);
+      const estimate = await storage.createEstimate(validatedEstimate, validatedLines, sequenceId || undefined);
+      res.status(201).json(estimate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid estimate data", errors: error.errors });
+      }
+      if (error instanceof InvoiceTotalsMismatchError) {
+        return res.status(422).json({ message: error.message, expected: error.expected });
+      }
+      if (error instanceof DuplicateNumberError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create estimate", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put("/api/estimates/:id", async (req, res) => {
+    try {
+      const { lineItems, ...estimateData } = req.body;
+      const validatedEstimate = insertEstimateSchema.partial().parse(estimateData);
+      const validatedLines = z.array(estimateLineInputSchema).parse(lineItems || []);
+      const estimate = await storage.updateEstimate(req.params.id, validatedEstimate, validatedLines);
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      res.json(estimate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid estimate data", errors: error.errors });
+      }
+      if (error instanceof InvoiceTotalsMismatchError) {
+        return res.status(422).json({ message: error.message, expected: error.expected });
+      }
+      if (error instanceof DuplicateNumberError) {
+        return res.status(409).json({ message: error.message });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      if (error instanceof EstimateStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update estimate" });
+    }
+  });
+
+  app.delete("/api/estimates/:id", async (req, res) => {
+    try {
+      await storage.deleteEstimate(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof EstimateStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete estimate" });
+    }
+  });
+
+  app.post("/api/estimates/:id/status", async (req, res) => {
+    try {
+      const { status } = z.object({ status: z.enum(estimateStatuses) }).parse(req.body);
+      const estimate = await storage.transitionEstimate(req.params.id, status);
+      if (!estimate) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      res.json(estimate);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid status change", errors: error.errors });
+      }
+      if (error instanceof EstimateStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to change estimate status" });
+    }
+  });
+
+  // Creates a draft invoice from the estimate and returns it
+  app.post("/api/estimates/:id/convert", async (req, res) => {
+    try {
+      const invoice = await storage.convertEstimate(req.params.id, req.body?.sequenceId || undefined);
+      if (!invoice) {
+        return res.status(404).json({ message: "Estimate not found" });
+      }
+      res.status(201).json(invoice);
+    } catch (error) {
+      if (error instanceof EstimateStateError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to convert estimate", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  // Recurring profiles
+  app.get("/api/recurring-profiles", async (req, res) => {
+    try {
+      const profiles = await storage.getRecurringProfiles();
+      res.json(profiles);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring profiles" });
+    }
+  });
+
+  // Runs the recurring invoice job now instead of waiting for the scheduler
+  app.post("/api/recurring-profiles/run", async (req, res) => {
+    try {
+      const result = await storage.runRecurringProfiles();
+      res.json(result);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to run recurring profiles" });
+    }
+  });
+
+  app.get("/api/recurring-profiles/:id", async (req, res) => {
+    try {
+      const profile = await storage.getRecurringProfile(req.params.id);
+      if (!profile) {
+        return res.status(404).json({ message: "Recurring profile not found" });
+      }
+      res.json(profile);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring profile" });
+    }
+  });
+
+  app.get("/api/recurring-profiles/:id/runs", async (req, res) => {
+    try {
+      const runs = await storage.getRecurringRuns(req.params.id);
+      res.json(runs);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch recurring profile runs" });
+    }
+  });
+
+  app.post("/api/recurring-profiles", async (req, res) => {
+    try {
+      const { lineItems, ...profileData } = req.body;
+      const validatedProfile = insertRecurringProfileSchema.parse(profileData);
+      const validatedLines = z.array(insertRecurringProfileLineItemSchema).min(1, "Add at least one line item").parse(lineItems || []);
+      const profile = await storage.createRecurringProfile(validatedProfile, validatedLines);
+      res.status(201).json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurring profile data", errors: error.errors });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to create recurring profile" });
+    }
+  });
+
+  app.put("/api/recurring-profiles/:id", async (req, res) => {
+    try {
+      const { lineItems, ...profileData } = req.body;
+      const validatedProfile = insertRecurringProfileSchema.partial().parse(profileData);
+      const validatedLines = z.array(insertRecurringProfileLineItemSchema).min(1, "Add at least one line item").parse(lineItems || []);
+      const profile = await storage.updateRecurringProfile(req.params.id, validatedProfile, validatedLines);
+      res.json(profile);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid recurring profile data", errors: error.errors });
+      }
+      if (error instanceof UnknownItemError) {
+        return res.status(400).json({ message: error.message });
+      }
+      if (error instanceof QuantityPrecisionError) {
+        return res.status(422).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to update recurring profile" });
+    }
+  });
+
+  app.delete("/api/recurring-profiles/:id", async (req, res) => {
+    try {
+      await storage.deleteRecurringProfile(req.params.id);
+      res.status(204).send();
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete recurring profile" });
+    }
+  });
+
+  // Number sequences
+  app.get("/api/number-sequences", async (req, res) => {
+    try {
+      const sequences = await storage.getNumberSequences();
+      res.json(sequences);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch number sequences" });
+    }
+  });
+
+  app.post("/api/number-sequences", async (req, res) => {
+    try {
+      const sequenceData = insertNumberSequenceSchema.parse(req.body);
+      const sequence = await storage.createNumberSequence(sequenceData);
+      res.status(201).json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid number sequence data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to create number sequence", error: error instanceof Error ? error.message : String(error) });
+    }
+  });
+
+  app.put("/api/number-sequences/:id", async (req, res) => {
+    try {
+      const sequenceData = insertNumberSequenceSchema.partial().parse(req.body);
+      const sequence = await storage.updateNumberSequence(req.params.id, sequenceData);
+      res.json(sequence);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid number sequence data", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update number sequence" });
+    }
+  });
+
   // Templates
   app.get("/api/templates", async (req, res) => {
     try {
@@ -284,6 +906,91 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Trash
+  app.get("/api/trash", async (req, res) => {
+    try {
+      const entries = await storage.getTrash();
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch trash" });
+    }
+  });
+
+  app.post("/api/trash/:type/:id/restore", async (req, res) => {
+    try {
+      const type = z.enum(trashEntityTypes).parse(req.params.type);
+      const restored = await storage.restoreFromTrash(type, req.params.id);
+      if (!restored) {
+        return res.status(404).json({ message: "Not found in trash" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid record type", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to restore from trash" });
+    }
+  });
+
+  app.delete("/api/trash/:type/:id", async (req, res) => {
+    try {
+      const type = z.enum(trashEntityTypes).parse(req.params.type);
+      const purged = await storage.purgeFromTrash(type, req.params.id);
+      if (!purged) {
+        return res.status(404).json({ message: "Not found in trash" });
+      }
+      res.status(204).send();
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid record type", errors: error.errors });
+      }
+      if (error instanceof TrashError) {
+        return res.status(409).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Failed to delete permanently" });
+    }
+  });
+
+  // Organisation settings
+  app.get("/api/settings", async (req, res) => {
+    try {
+      const settings = await storage.getSettings();
+      res.json(settings);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch settings" });
+    }
+  });
+
+  app.put("/api/settings", async (req, res) => {
+    try {
+      const settingsData = insertOrganisationSettingsSchema.partial().parse(req.body);
+      const settings = await storage.updateSettings(settingsData);
+      res.json(settings);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid settings", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to update settings" });
+    }
+  });
+
+  // Search
+  app.get("/api/search", async (req, res) => {
+    try {
+      const { q, limit } = z.object({
+        q: z.string().trim().min(1).max(maxSearchLength),
+        limit: z.coerce.number().int().min(1).max(maxSearchResults).optional(),
+      }).parse(req.query);
+      const results = await storage.search(q, limit);
+      res.json(results);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search", errors: error.errors });
+      }
+      res.status(500).json({ message: "Failed to search" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
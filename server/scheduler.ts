@@ -0,0 +1,80 @@
+import { storage } from "./storage";
+import { log } from "./vite";
+
+interface Job {
+  name: string;
+  intervalMinutes: number;
+  run: () => Promise<string | void>;
+}
+
+const minutesFromEnv = (name: string, fallback: number) => {
+  const value = parseInt(process.env[name] || "", 10);
+  return value > 0 ? value : fallback;
+};
+
+const jobs: Job[] = [
+  {
+    name: "overdue-invoices",
+    intervalMinutes: minutesFromEnv("OVERDUE_CHECK_INTERVAL_MINUTES", 60),
+    run: async () => {
+      const { markedOverdue, cleared } = await storage.recomputeInvoiceStatuses();
+      if (markedOverdue || cleared) {
+        return `${markedOverdue} marked overdue, ${cleared} cleared`;
+      }
+    },
+  },
+  {
+    name: "expired-estimates",
+    intervalMinutes: minutesFromEnv("ESTIMATE_EXPIRY_INTERVAL_MINUTES", 60),
+    run: async () => {
+      const expired = await storage.expireEstimates();
+      if (expired) return `${expired} marked expired`;
+    },
+  },
+  {
+    // Catches up on every period missed while the server was down
+    name: "recurring-invoices",
+    intervalMinutes: minutesFromEnv("RECURRING_INVOICE_INTERVAL_MINUTES", 60),
+    run: async () => {
+      const { created, failed } = await storage.runRecurringProfiles();
+      if (created || failed) {
+        return `${created} invoices created, ${failed} failed`;
+      }
+    },
+  },
+  {
+    // Deletes for good whatever has been in the trash longer than the retention period
+    name: "trash-retention",
+    intervalMinutes: minutesFromEnv("TRASH_PURGE_INTERVAL_MINUTES", 60),
+    run: async () => {
+      const { purged, kept } = await storage.purgeExpiredTrash();
+      if (purged || kept) {
+        return `${purged} purged, ${kept} kept because still in use`;
+      }
+    },
+  },
+];
+
+// Runs every job once at startup and then on its interval. A job never overlaps
+// itself, and a failing run is logged and retried on the next tick.
+export function startScheduler() {
+  jobs.forEach((job) => {
+    let running = false;
+
+    const tick = async () => {
+      if (running) return;
+      running = true;
+      try {
+        const summary = await job.run();
+        if (summary) log(`${job.name}: ${summary}`, "scheduler");
+      } catch (error) {
+        log(`${job.name} failed: ${error instanceof Error ? error.message : String(error)}`, "scheduler");
+      } finally {
+        running = false;
+      }
+    };
+
+    void tick();
+    setInterval(tick, job.intervalMinutes * 60 * 1000).unref();
+  });
+}
@@ -0,0 +1,207 @@
+// Rollback of the multi-statement writes in storage.ts: each test makes one statement of a
+// write fail, or two writes overlap, and checks that nothing is left half done or done twice.
+// Run with `npm test`; it uses a throwaway database, never sqlite.db.
+import { after, before, describe, test } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const databaseFile = path.join(os.tmpdir(), `invoice-builder-test-${process.pid}.db`);
+process.env.DATABASE_FILE = databaseFile;
+
+// Imported only once DATABASE_FILE is set, so the real database is never opened
+const { db } = await import("./db");
+const { storage } = await import("./storage");
+const { migrate } = await import("drizzle-orm/better-sqlite3/migrator");
+const { eq } = await import("drizzle-orm");
+const { invoices, itemTaxes, items, recurringInvoiceRuns } = await import("@shared/schema");
+
+// Stands in for a write that fails part-way through a save
+const failRevisions = (t: { mock: { method: Function } }) =>
+  t.mock.method(storage, "recordRevision", () => {
+    throw new Error("injected failure");
+  });
+
+const linkIds = (itemId: string) =>
+  db.select().from(itemTaxes).where(eq(itemTaxes.itemId, itemId)).all().map(link => link.id).sort();
+
+describe("storage rollback", () => {
+  let cgst: string;
+  let sgst: string;
+  let customerId: string;
+
+  before(async () => {
+    migrate(db, { migrationsFolder: path.resolve("migrations") });
+    cgst = (await storage.createTax({ name: "CGST", percentage: 9 })).id;
+    sgst = (await storage.createTax({ name: "SGST", percentage: 9 })).id;
+    customerId = (await storage.createCustomer({ name: "Acme Traders" })).id;
+  });
+
+  after(() => {
+    for (const suffix of ["", "-wal", "-shm"]) fs.rmSync(databaseFile + suffix, { force: true });
+  });
+
+  test("createItem leaves no item behind when a tax link fails", async () => {
+    const before = db.select().from(items).all().length;
+    await assert.rejects(storage.createItem({ name: "Widget", unitPrice: 10000 }, [cgst, "no-such-tax"]));
+    assert.equal(db.select().from(items).all().length, before);
+  });
+
+  test("updateItem keeps the item and its tax links when a tax link fails", async () => {
+    const item = await storage.createItem({ name: "Gadget", unitPrice: 5000 }, [cgst, sgst]);
+    const links = linkIds(item.id);
+
+    await assert.rejects(storage.updateItem(item.id, { name: "Gadget Pro" }, [cgst, "no-such-tax"]));
+
+    assert.equal((await storage.getItem(item.id))?.name, "Gadget");
+    assert.deepEqual(linkIds(item.id), links);
+  });
+
+  test("updateItem only replaces the tax links that changed", async () => {
+    const item = await storage.createItem({ name: "Sprocket", unitPrice: 2500 }, [cgst, sgst]);
+    const [kept] = db.select().from(itemTaxes).where(eq(itemTaxes.taxId, cgst)).all().filter(link => link.itemId === item.id);
+
+    await storage.updateItem(item.id, { name: "Sprocket" }, [cgst]);
+
+    assert.deepEqual(linkIds(item.id), [kept.id]);
+  });
+
+  test("createInvoice leaves no invoice or number behind when a write fails", async (t) => {
+    const item = await storage.createItem({ name: "Bolt", unitPrice: 1000 }, [cgst]);
+    const invoice = { customerId, issueDate: new Date(), dueDate: null };
+    const lines = [{ itemId: item.id, quantity: 2, unitPrice: 1000 }];
+    const first = await storage.createInvoice(invoice, lines);
+    const before = db.select().from(invoices).all().length;
+
+    const revisions = failRevisions(t);
+    await assert.rejects(storage.createInvoice(invoice, lines), /injected failure/);
+    revisions.mock.restore();
+
+    assert.equal(db.select().from(invoices).all().length, before);
+    // The number drawn for the failed invoice goes to the next one
+    const next = await storage.createInvoice(invoice, lines);
+    const sequence = (number: string) => Number(number.match(/\d+$/)?.[0]);
+    assert.equal(sequence(next.invoiceNumber), sequence(first.invoiceNumber) + 1);
+  });
+
+  test("updateInvoice keeps the header, lines and line taxes when a write fails", async (t) => {
+    const bolt = await storage.createItem({ name: "Nut", unitPrice: 1000 }, [cgst, sgst]);
+    const washer = await storage.createItem({ name: "Washer", unitPrice: 200 }, [sgst]);
+    const created = await storage.createInvoice({ customerId, issueDate: new Date(), dueDate: null, notes: "First" }, [
+      { itemId: bolt.id, quantity: 1, unitPrice: 1000 },
+      { itemId: washer.id, quantity: 10, unitPrice: 200 },
+    ]);
+    const saved = await storage.getInvoice(created.id);
+    assert.ok(saved);
+
+    failRevisions(t);
+    await assert.rejects(
+      storage.updateInvoice(created.id, { notes: "Second" }, [{ id: saved.lineItems[0].id, itemId: bolt.id, quantity: 5, unitPrice: 1000 }]),
+      /injected failure/
+    );
+
+    const after = await storage.getInvoice(created.id);
+    assert.ok(after);
+    assert.equal(after.notes, "First");
+    assert.equal(after.total, saved.total);
+    assert.deepEqual(after.lineItems.map(line => [line.id, line.quantity]), saved.lineItems.map(line => [line.id, line.quantity]));
+    assert.deepEqual(after.lineItems.map(line => line.taxes.map(tax => tax.id)), saved.lineItems.map(line => line.taxes.map(tax => tax.id)));
+  });
+
+  test("updateInvoice keeps the ids of the lines it is sent back", async () => {
+    const item = await storage.createItem({ name: "Screw", unitPrice: 300 }, [cgst]);
+    const created = await storage.createInvoice({ customerId, issueDate: new Date(), dueDate: null }, [
+      { itemId: item.id, quantity: 1, unitPrice: 300 },
+      { itemId: item.id, quantity: 2, unitPrice: 300 },
+    ]);
+    const saved = await storage.getInvoice(created.id);
+    assert.ok(saved);
+
+    await storage.updateInvoice(created.id, {}, [
+      { id: saved.lineItems[1].id, itemId: item.id, quantity: 4, unitPrice: 300 },
+      { description: "Delivery", quantity: 1, unitPrice: 5000 },
+    ]);
+
+    const after = await storage.getInvoice(created.id);
+    assert.ok(after);
+    assert.equal(after.lineItems.length, 2);
+    assert.equal(after.lineItems.find(line => line.id === saved.lineItems[1].id)?.quantity, 4);
+    assert.ok(!after.lineItems.some(line => line.id === saved.lineItems[0].id));
+  });
+
+  test("createInvoice keeps a due date sent without payment terms", async () => {
+    await storage.updateSettings({ defaultPaymentTerms: "due_on_receipt" });
+    const item = await storage.createItem({ name: "Rivet", unitPrice: 100 }, []);
+    const lines = [{ itemId: item.id, quantity: 1, unitPrice: 100 }];
+    const issueDate = new Date(2026, 4, 1);
+    const dueDate = new Date(2026, 4, 20);
+
+    const entered = await storage.createInvoice({ customerId, issueDate, dueDate }, lines);
+    assert.equal(entered.paymentTerms, "custom");
+    assert.equal(entered.dueDate?.getTime(), dueDate.getTime());
+
+    // Without either, the default terms still set the date
+    const defaulted = await storage.createInvoice({ customerId, issueDate, dueDate: null }, lines);
+    assert.equal(defaulted.paymentTerms, "due_on_receipt");
+    assert.equal(defaulted.dueDate?.getTime(), issueDate.getTime());
+
+    const edited = await storage.updateInvoice(defaulted.id, { dueDate }, lines);
+    assert.equal(edited?.paymentTerms, "custom");
+    assert.equal(edited?.dueDate?.getTime(), dueDate.getTime());
+  });
+
+  test("runRecurringProfiles bills each period once when two runs overlap", async () => {
+    const item = await storage.createItem({ name: "Retainer", unitPrice: 100000 }, [cgst]);
+    const profile = await storage.createRecurringProfile(
+      { name: "Overlap", customerId, interval: "monthly", dayOfMonth: 1, startDate: new Date(2026, 0, 1), endDate: new Date(2026, 2, 1) },
+      [{ itemId: item.id, quantity: 1, unitPrice: 100000 }]
+    );
+    const now = new Date(2026, 3, 1);
+
+    const results = await Promise.all([storage.runRecurringProfiles(now), storage.runRecurringProfiles(now)]);
+
+    assert.equal(results.reduce((sum, result) => sum + result.created, 0), 3);
+    const runs = db.select().from(recurringInvoiceRuns).where(eq(recurringInvoiceRuns.profileId, profile.id)).all();
+    assert.equal(new Set(runs.map(run => run.invoiceId)).size, 3);
+  });
+
+  test("runRecurringProfiles leaves no invoice and the period due when a write fails", async (t) => {
+    const item = await storage.createItem({ name: "Hosting", unitPrice: 50000 }, [cgst]);
+    const profile = await storage.createRecurringProfile(
+      { name: "Failing", customerId, interval: "monthly", dayOfMonth: 1, startDate: new Date(2026, 0, 1), endDate: null },
+      [{ itemId: item.id, quantity: 1, unitPrice: 50000 }]
+    );
+    const before = db.select().from(invoices).all().length;
+
+    failRevisions(t);
+    await storage.runRecurringProfiles(new Date(2026, 0, 15));
+
+    assert.equal(db.select().from(invoices).all().length, before);
+    const [run] = db.select().from(recurringInvoiceRuns).where(eq(recurringInvoiceRuns.profileId, profile.id)).all();
+    assert.equal(run.status, "failed");
+    assert.equal((await storage.getRecurringProfile(profile.id))?.nextRunDate?.getTime(), profile.nextRunDate?.getTime());
+  });
+
+  test("updateEstimate keeps the ids of the lines it is sent back", async () => {
+    const item = await storage.createItem({ name: "Hinge", unitPrice: 700 }, [cgst]);
+    const created = await storage.createEstimate({ customerId, issueDate: new Date(), validUntil: null }, [
+      { itemId: item.id, quantity: 1, unitPrice: 700 },
+      { itemId: item.id, quantity: 2, unitPrice: 700 },
+    ]);
+    const saved = await storage.getEstimate(created.id);
+    assert.ok(saved);
+
+    await storage.updateEstimate(created.id, {}, [
+      { id: saved.lineItems[1].id, itemId: item.id, quantity: 3, unitPrice: 700 },
+      { itemId: item.id, quantity: 1, unitPrice: 700 },
+    ]);
+
+    const after = await storage.getEstimate(created.id);
+    assert.ok(after);
+    assert.equal(after.lineItems.length, 2);
+    assert.equal(after.lineItems.find(line => line.id === saved.lineItems[1].id)?.quantity, 3);
+    assert.ok(!after.lineItems.some(line => line.id === saved.lineItems[0].id));
+    assert.ok(after.lineItems.every(line => line.taxes.length === 1));
+  });
+});
@@ -1,13 +1,230 @@
 import { 
-  users, customers, taxes, items, invoices, invoiceLineItems, templates, itemTaxes,
+  users, customers, taxes, items, invoices, invoiceLineItems, invoiceLineTaxes, templates, itemTaxes,
   type User, type InsertUser, type Customer, type InsertCustomer,
   type Tax, type InsertTax, type Item, type InsertItem,
   type Invoice, type InsertInvoice, type InvoiceLineItem, type InsertInvoiceLineItem,
-  type Template, type InsertTemplate, type ItemTax
+  type Template, type InsertTemplate, type ItemTax,
+  type InvoiceLineTax, type InvoiceWithDetails,
+  numberSequences, numberSequenceCounters, type NumberSequence, type InsertNumberSequence,
+  payments, type Payment, type InsertPayment,
+  estimates, estimateLineItems, estimateLineTaxes, type Estimate, type InsertEstimate,
+  type EstimateLineInput, type EstimateLineTax, type EstimateWithDetails,
+  recurringProfiles, recurringProfileLineItems, recurringInvoiceRuns, type RecurringProfile,
+  type InsertRecurringProfile, type InsertRecurringProfileLineItem, type RecurringInvoiceRun,
+  type RecurringProfileWithDetails,
+  organisationSettings, type OrganisationSettings, type InsertOrganisationSettings,
+  invoiceAttachments, type InvoiceAttachment,
+  invoiceRevisions, type InvoiceRevision
 } from "@shared/schema";
+import { defaultSequencePatterns, documentTypeLabels, formatDocumentNumber, sequencePeriod, type DocumentType } from "@shared/numbering";
+import { balanceDue, derivePaymentStatus, isPastDue } from "@shared/payments";
+import { canTransition, isEditable, openStatuses, payableStatuses, statusLabel, type InvoiceStatus } from "@shared/invoice-status";
+import {
+  canTransitionEstimate, estimateStatusLabel, isConvertible, isEstimateEditable, isEstimateExpired,
+  pendingEstimateStatuses, type EstimateStatus
+} from "@shared/estimate-status";
+import { addDays, dueOccurrences, firstOccurrence, nextOccurrence } from "@shared/recurrence";
+import { calculateInvoiceTotals, totalsMatch, type InvoiceTotals, type TaxRate } from "@shared/invoice-totals";
+import { formatMoney, type Paise } from "@shared/money";
+import { defaultRoundingPolicy, type RoundingPolicy } from "@shared/rounding";
+import { amountInWords } from "@shared/amount-in-words";
+import { dueDateFor } from "@shared/payment-terms";
+import { diffSnapshots, toSnapshot, type RevisionDiff } from "@shared/invoice-revisions";
+import { bulkActionStatuses, type BulkActionReport, type BulkActionResult, type BulkInvoiceAction } from "@shared/bulk-actions";
+import {
+  dayAfter, type CustomerListQuery, type CustomerSortKey, type InvoiceListQuery, type InvoiceSortKey, type ItemListQuery,
+  type ItemSortKey, type Page
+} from "@shared/list-query";
+import { maxSearchResults, type HighlightPart, type SearchEntityType, type SearchResult } from "@shared/search";
+import { purgeDate, trashEntityLabels, trashEntityTypes, type TrashEntityType, type TrashEntry } from "@shared/trash";
+import { attachmentTypes, formatFileSize, isAllowedAttachmentType, maxAttachmentSize, maxAttachmentsPerInvoice } from "@shared/attachments";
+import { checksumOf, readAttachmentFile, removeAttachmentFile, removeInvoiceAttachmentFiles, writeAttachmentFile } from "./attachments";
+import { defaultUnit, hasAtMostDecimals } from "@shared/units";
 import { db } from "./db";
-import { eq, desc, and, sql } from "drizzle-orm";
+import { eq, ne, asc, desc, and, or, sql, inArray, notInArray, isNull, isNotNull, gte, lt, lte, type SQL } from "drizzle-orm";
+import { alias, type SQLiteColumn } from "drizzle-orm/sqlite-core";
 import crypto from "crypto";
+import path from "path";
+
+export class OverpaymentError extends Error {
+  constructor(public balanceDue: Paise) {
+    super(`Payment exceeds the balance due of ${formatMoney(balanceDue)}`);
+    this.name = "OverpaymentError";
+  }
+}
+
+// An action the invoice's current lifecycle state does not allow
+export class InvoiceStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InvoiceStateError";
+  }
+}
+
+// An action the estimate's current state does not allow
+export class EstimateStateError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EstimateStateError";
+  }
+}
+
+// A credit note would take more off an invoice than is left to credit
+export class CreditLimitError extends Error {
+  constructor(public available: Paise) {
+    super(`Credit note exceeds the ${formatMoney(available)} still available to credit on the original invoice`);
+    this.name = "CreditLimitError";
+  }
+}
+
+export interface InvoiceStats {
+  total: number;
+  paid: number;
+  partiallyPaid: number;
+  pending: number;
+  overdue: number;
+  overdueAmount: number;
+  draft: number;
+  cancelled: number;
+}
+
+// Where an invoice returns to when it is neither paid nor overdue
+const unpaidStatus = (invoice: Invoice) => (invoice.sentAt ? "sent" : "issued");
+
+const documentLabel = (invoice: Invoice) => documentTypeLabels[invoice.documentType as DocumentType] ?? "Invoice";
+
+// Self-join target for a note's original invoice
+const originalInvoices = alias(invoices, "original_invoices");
+
+// SQLite allows at most 32766 bound parameters per statement, so long id lists are
+// queried a slice at a time
+const idBatchSize = 5000;
+
+async function selectByIds<T>(ids: string[], select: (batch: string[]) => Promise<T[]>): Promise<T[]> {
+  let rows: T[] = [];
+  for (let start = 0; start < ids.length; start += idBatchSize) {
+    rows = rows.concat(await select(ids.slice(start, start + idBatchSize)));
+  }
+  return rows;
+}
+
+// Substring match for list searches, with the user's % and _ taken literally
+const contains = (column: SQLiteColumn, text: string): SQL =>
+  sql`${column} LIKE ${`%${text.replace(/[\\%_]/g, "\\$&")}%`} ESCAPE '\\'`;
+
+// Every word in the search box as a quoted prefix phrase, so FTS5 syntax typed in is taken
+// literally and an invoice number like INV/2026-27/00 matches as one run of tokens
+const matchQuery = (text: string): string | null => {
+  const words = text.split(/\s+/).map(word => word.replace(/"/g, "")).filter(Boolean);
+  return words.length > 0 ? words.map(word => `"${word}"*`).join(" ") : null;
+};
+
+// FTS5 wraps each match in these control characters, which nobody types into a name or a note
+const highlightStart = "\u0002";
+const highlightEnd = "\u0003";
+
+const highlightParts = (text: string): HighlightPart[] =>
+  text
+    .split(/(\u0002[^\u0003]*\u0003)/)
+    .filter(Boolean)
+    .map(part => part.startsWith(highlightStart)
+      ? { text: part.slice(1, -1), match: true }
+      : { text: part, match: false });
+
+const customerSortColumns: Record<CustomerSortKey, SQLiteColumn> = {
+  createdAt: customers.createdAt,
+  name: customers.name,
+  email: customers.email,
+};
+
+const itemSortColumns: Record<ItemSortKey, SQLiteColumn> = {
+  createdAt: items.createdAt,
+  name: items.name,
+  unitPrice: items.unitPrice,
+};
+
+const invoiceSortColumns: Record<InvoiceSortKey, SQLiteColumn> = {
+  createdAt: invoices.createdAt,
+  issueDate: invoices.issueDate,
+  dueDate: invoices.dueDate,
+  invoiceNumber: invoices.invoiceNumber,
+  customer: customers.name,
+  total: invoices.total,
+};
+
+const trashTables = { invoice: invoices, customer: customers, item: items };
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// What pricing needs from an invoice or estimate and its lines
+type PricingHeader = Pick<Partial<InsertInvoice>, "discountType" | "discountValue" | "roundingPolicy" | "subtotal" | "totalTax" | "total">;
+// The totals are optional: the lines are priced on save, and sent totals are only checked
+type NewInvoice = Omit<InsertInvoice, "subtotal" | "totalTax" | "total"> & PricingHeader;
+export type LineItemInput = Pick<InsertInvoiceLineItem, "itemId" | "description" | "hsnSac" | "quantity" | "unit" | "unitPrice" | "discountType" | "discountValue">
+  & {
+    id?: string; // the saved line this one edits
+    taxIds?: string[]; // taxes for an ad-hoc line; catalog lines use their item's
+  };
+
+type PricedLineItem = Omit<InsertInvoiceLineItem, "invoiceId"> & { itemName: string | null; unit: string; discount: number };
+
+// A line quantity has more decimal places than its item allows
+export class QuantityPrecisionError extends Error {
+  constructor(itemName: string, public decimals: number) {
+    super(decimals === 0
+      ? `${itemName} is sold in whole quantities`
+      : `${itemName} quantities can have at most ${decimals} decimal place${decimals === 1 ? "" : "s"}`);
+    this.name = "QuantityPrecisionError";
+  }
+}
+
+// A line refers to a catalog item that does not exist
+export class UnknownItemError extends Error {
+  constructor() {
+    super("A line refers to an item that does not exist");
+    this.name = "UnknownItemError";
+  }
+}
+
+// A manually entered document number that another document already uses
+export class DuplicateNumberError extends Error {
+  constructor(public number: string) {
+    super(`The number ${number} is already in use; choose another or leave it blank`);
+    this.name = "DuplicateNumberError";
+  }
+}
+
+// An upload of a type, size or number the attachment limits do not allow
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AttachmentError";
+  }
+}
+
+// A record that cannot leave the trash the way asked, such as a customer still billed on invoices
+export class TrashError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TrashError";
+  }
+}
+
+const isForeignKeyError = (error: unknown) =>
+  (error as { code?: string } | null)?.code === "SQLITE_CONSTRAINT_FOREIGNKEY";
+
+export interface AttachmentUpload {
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+export class InvoiceTotalsMismatchError extends Error {
+  constructor(public expected: Pick<InvoiceTotals, "subtotal" | "totalTax" | "total">) {
+    super("Invoice totals do not match the line items");
+    this.name = "InvoiceTotalsMismatchError";
+  }
+}
 
 export interface IStorage {
   // Users
@@ -16,7 +233,7 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
 
   // Customers
-  getCustomers(): Promise<Customer[]>;
+  getCustomers(query?: Partial<CustomerListQuery>): Promise<Page<Customer>>;
   getCustomer(id: string): Promise<Customer | undefined>;
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer>;
@@ -30,19 +247,64 @@ export interface IStorage {
   deleteTax(id: string): Promise<void>;
 
   // Items
-  getItems(): Promise<(Item & { taxes: Tax[] })[]>;
+  getItems(query?: Partial<ItemListQuery>): Promise<Page<Item & { taxes: Tax[] }>>;
   getItem(id: string): Promise<(Item & { taxes: Tax[] }) | undefined>;
   createItem(item: InsertItem, taxIds: string[]): Promise<Item>;
   updateItem(id: string, item: Partial<InsertItem>, taxIds: string[]): Promise<Item>;
   deleteItem(id: string): Promise<void>;
 
   // Invoices
-  getInvoices(): Promise<(Invoice & { customer: Customer; lineItems: (InvoiceLineItem & { item: Item })[] })[]>;
-  getInvoice(id: string): Promise<(Invoice & { customer: Customer; lineItems: (InvoiceLineItem & { item: Item })[] }) | undefined>;
-  createInvoice(invoice: InsertInvoice, lineItems: InsertInvoiceLineItem[]): Promise<Invoice>;
-  updateInvoice(id: string, invoice: Partial<InsertInvoice>, lineItems: InsertInvoiceLineItem[]): Promise<Invoice>;
+  getInvoices(documentTypes?: DocumentType[], query?: Partial<InvoiceListQuery>): Promise<Page<InvoiceWithDetails>>;
+  getInvoiceNotes(invoiceId: string): Promise<Invoice[]>;
+  getInvoice(id: string): Promise<InvoiceWithDetails | undefined>;
+  createInvoice(invoice: NewInvoice, lineItems: LineItemInput[], sequenceId?: string, changedBy?: string | null): Promise<Invoice>;
+  updateInvoice(id: string, invoice: Partial<InsertInvoice>, lineItems: LineItemInput[], changedBy?: string | null): Promise<Invoice | undefined>;
   deleteInvoice(id: string): Promise<void>;
-  getInvoiceStats(): Promise<{ total: number; paid: number; pending: number; overdue: number }>;
+  transitionInvoice(id: string, status: InvoiceStatus, reason?: string, changedBy?: string | null): Promise<Invoice | undefined>;
+  bulkInvoiceAction(ids: string[], action: BulkInvoiceAction, options?: { reason?: string; changedBy?: string | null }): Promise<BulkActionReport>;
+  getInvoiceStats(): Promise<InvoiceStats>;
+  recomputeInvoiceStatuses(now?: Date): Promise<{ markedOverdue: number; cleared: number }>;
+
+  // Payments
+  getPayments(invoiceId: string): Promise<Payment[]>;
+  createPayment(invoiceId: string, payment: InsertPayment, allowOverpayment?: boolean): Promise<Payment | undefined>;
+  deletePayment(invoiceId: string, paymentId: string): Promise<void>;
+
+  // Attachments
+  getInvoiceAttachments(invoiceId: string): Promise<InvoiceAttachment[]>;
+  getInvoiceAttachmentContent(invoiceId: string, attachmentId: string): Promise<{ attachment: InvoiceAttachment; content: Buffer } | undefined>;
+  createInvoiceAttachment(invoiceId: string, upload: AttachmentUpload): Promise<InvoiceAttachment | undefined>;
+  deleteInvoiceAttachment(invoiceId: string, attachmentId: string): Promise<void>;
+
+  // Revisions
+  getInvoiceRevisions(invoiceId: string): Promise<Omit<InvoiceRevision, "snapshot">[]>;
+  getInvoiceRevision(invoiceId: string, revision: number): Promise<InvoiceRevision | undefined>;
+  diffInvoiceRevisions(invoiceId: string, from: number, to: number): Promise<RevisionDiff | undefined>;
+
+  // Estimates
+  getEstimates(): Promise<EstimateWithDetails[]>;
+  getEstimate(id: string): Promise<EstimateWithDetails | undefined>;
+  createEstimate(estimate: InsertEstimate, lineItems: EstimateLineInput[], sequenceId?: string): Promise<Estimate>;
+  updateEstimate(id: string, estimate: Partial<InsertEstimate>, lineItems: EstimateLineInput[]): Promise<Estimate | undefined>;
+  deleteEstimate(id: string): Promise<void>;
+  transitionEstimate(id: string, status: EstimateStatus): Promise<Estimate | undefined>;
+  convertEstimate(id: string, sequenceId?: string): Promise<Invoice | undefined>;
+  expireEstimates(now?: Date): Promise<number>;
+
+  // Recurring profiles
+  getRecurringProfiles(): Promise<RecurringProfileWithDetails[]>;
+  getRecurringProfile(id: string): Promise<RecurringProfileWithDetails | undefined>;
+  createRecurringProfile(profile: InsertRecurringProfile, lineItems: InsertRecurringProfileLineItem[]): Promise<RecurringProfile>;
+  updateRecurringProfile(id: string, profile: Partial<InsertRecurringProfile>, lineItems: InsertRecurringProfileLineItem[]): Promise<RecurringProfile>;
+  deleteRecurringProfile(id: string): Promise<void>;
+  getRecurringRuns(profileId: string): Promise<RecurringInvoiceRun[]>;
+  runRecurringProfiles(now?: Date): Promise<{ created: number; failed: number }>;
+
+  // Number sequences
+  getNumberSequences(): Promise<NumberSequence[]>;
+  createNumberSequence(sequence: InsertNumberSequence): Promise<NumberSequence>;
+  updateNumberSequence(id: string, sequence: Partial<InsertNumberSequence>): Promise<NumberSequence>;
+  previewDocumentNumber(documentType: DocumentType, date: Date, sequenceId?: string): Promise<string>;
 
   // Templates
   getTemplates(): Promise<Template[]>;
@@ -50,6 +312,19 @@ export interface IStorage {
   createTemplate(template: InsertTemplate): Promise<Template>;
   updateTemplate(id: string, template: Partial<InsertTemplate>): Promise<Template>;
   deleteTemplate(id: string): Promise<void>;
+
+  // Trash
+  getTrash(): Promise<TrashEntry[]>;
+  restoreFromTrash(type: TrashEntityType, id: string): Promise<boolean>;
+  purgeFromTrash(type: TrashEntityType, id: string): Promise<boolean>;
+  purgeExpiredTrash(now?: Date): Promise<{ purged: number; kept: number }>;
+
+  // Organisation settings
+  getSettings(): Promise<OrganisationSettings>;
+  updateSettings(settings: Partial<InsertOrganisationSettings>): Promise<OrganisationSettings>;
+
+  // Search
+  search(text: string, limit?: number): Promise<SearchResult[]>;
 }
 
 export class DatabaseStorage implements IStorage {
@@ -72,8 +347,25 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Customers
-  async getCustomers(): Promise<Customer[]> {
-    return await db.select().from(customers).orderBy(desc(customers.createdAt));
+  async getCustomers(query: Partial<CustomerListQuery> = {}): Promise<Page<Customer>> {
+    const { sort = "createdAt", order = "desc", offset = 0, limit } = query;
+    const where = and(
+      isNull(customers.deletedAt),
+      query.search
+        ? or(contains(customers.name, query.search), contains(customers.email, query.search), contains(customers.gstin, query.search))
+        : undefined
+    );
+    const direction = order === "asc" ? asc : desc;
+
+    const data = await db
+      .select()
+      .from(customers)
+      .where(where)
+      .orderBy(direction(customerSortColumns[sort]), direction(customers.id))
+      .limit(limit ?? -1)
+      .offset(offset);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(customers).where(where);
+    return { data, total: count, limit: limit ?? count, offset };
   }
 
   async getCustomer(id: string): Promise<Customer | undefined> {
@@ -98,8 +390,12 @@ export class DatabaseStorage implements IStorage {
     return updatedCustomer;
   }
 
+  // Moves the customer to the trash; see purgeFromTrash for deleting it for good
   async deleteCustomer(id: string): Promise<void> {
-    await db.delete(customers).where(eq(customers.id, id));
+    await db
+      .update(customers)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(customers.id, id), isNull(customers.deletedAt)));
   }
 
   // Taxes
@@ -134,227 +430,1586 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Items
-  async getItems(): Promise<(Item & { taxes: Tax[] })[]> {
-    const allItems = await db.select().from(items).orderBy(desc(items.createdAt));
-    
-    const itemsWithTaxes = await Promise.all(
-      allItems.map(async (item) => {
-        const itemTaxData = await db
-          .select({ tax: taxes })
-          .from(itemTaxes)
-          .innerJoin(taxes, eq(itemTaxes.taxId, taxes.id))
-          .where(eq(itemTaxes.itemId, item.id));
-        
-        return {
-          ...item,
-          taxes: itemTaxData.map(row => row.tax)
-        };
-      })
+  async getItems(query: Partial<ItemListQuery> = {}): Promise<Page<Item & { taxes: Tax[] }>> {
+    const { sort = "createdAt", order = "desc", offset = 0, limit } = query;
+    const where = and(
+      isNull(items.deletedAt),
+      query.search
+        ? or(contains(items.name, query.search), contains(items.description, query.search), contains(items.hsnSac, query.search))
+        : undefined
     );
-    
-    return itemsWithTaxes;
+    const direction = order === "asc" ? asc : desc;
+
+    const allItems = await db
+      .select()
+      .from(items)
+      .where(where)
+      .orderBy(direction(itemSortColumns[sort]), direction(items.id))
+      .limit(limit ?? -1)
+      .offset(offset);
+    const [{ count }] = await db.select({ count: sql<number>`count(*)` }).from(items).where(where);
+
+    const taxesByItem = await this.getItemTaxes(allItems.map(item => item.id));
+    const itemsWithTaxes = allItems.map(item => ({ ...item, taxes: taxesByItem.get(item.id) || [] }));
+
+    return { data: itemsWithTaxes, total: count, limit: limit ?? count, offset };
   }
 
   async getItem(id: string): Promise<(Item & { taxes: Tax[] }) | undefined> {
     const [item] = await db.select().from(items).where(eq(items.id, id));
     if (!item) return undefined;
 
-    const itemTaxData = await db
-      .select({ tax: taxes })
-      .from(itemTaxes)
-      .innerJoin(taxes, eq(itemTaxes.taxId, taxes.id))
-      .where(eq(itemTaxes.itemId, item.id));
-
-    return {
-      ...item,
-      taxes: itemTaxData.map(row => row.tax)
-    };
+    const taxesByItem = await this.getItemTaxes([item.id]);
+    return { ...item, taxes: taxesByItem.get(item.id) || [] };
   }
 
   async createItem(item: InsertItem, taxIds: string[]): Promise<Item> {
     const id = crypto.randomUUID();
-    await db.insert(items).values({ ...item, id });
+    db.transaction((tx) => {
+      tx.insert(items).values({ ...item, id }).run();
+      this.setItemTaxes(tx, id, taxIds);
+    });
+
     const [newItem] = await db.select().from(items).where(eq(items.id, id));
-    
-    if (taxIds.length > 0) {
-      const itemTaxData = taxIds.map(taxId => ({
-        id: crypto.randomUUID(),
-        itemId: id,
-        taxId
-      }));
-      await db.insert(itemTaxes).values(itemTaxData);
-    }
-    
     return newItem;
   }
 
   async updateItem(id: string, item: Partial<InsertItem>, taxIds: string[]): Promise<Item> {
-    await db
-      .update(items)
-      .set(item)
-      .where(eq(items.id, id));
+    db.transaction((tx) => {
+      tx.update(items).set(item).where(eq(items.id, id)).run();
+      this.setItemTaxes(tx, id, taxIds);
+    });
 
-    // Update item taxes
-    await db.delete(itemTaxes).where(eq(itemTaxes.itemId, id));
-    
-    if (taxIds.length > 0) {
-      const itemTaxData = taxIds.map(taxId => ({
-        id: crypto.randomUUID(),
-        itemId: id,
-        taxId
-      }));
-      await db.insert(itemTaxes).values(itemTaxData);
-    }
-    
     const [updatedItem] = await db.select().from(items).where(eq(items.id, id));
     return updatedItem;
   }
 
+  // Leaves the item with exactly these taxes, keeping the links it already has
+  private setItemTaxes(tx: Transaction, itemId: string, taxIds: string[]): void {
+    const wanted = new Set(taxIds);
+    const current = tx.select().from(itemTaxes).where(eq(itemTaxes.itemId, itemId)).all();
+    const removed = current.filter(link => !wanted.has(link.taxId)).map(link => link.id);
+    if (removed.length > 0) {
+      tx.delete(itemTaxes).where(inArray(itemTaxes.id, removed)).run();
+    }
+
+    const linked = new Set(current.map(link => link.taxId));
+    const added = Array.from(wanted).filter(taxId => !linked.has(taxId));
+    if (added.length > 0) {
+      tx.insert(itemTaxes).values(added.map(taxId => ({ id: crypto.randomUUID(), itemId, taxId }))).run();
+    }
+  }
+
+  // Moves the item to the trash; invoice lines keep their own copy of it either way
   async deleteItem(id: string): Promise<void> {
-    await db.delete(items).where(eq(items.id, id));
+    await db
+      .update(items)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(items.id, id), isNull(items.deletedAt)));
+  }
+
+  // The taxes of many items at once, by item
+  private async getItemTaxes(itemIds: string[]): Promise<Map<string, Tax[]>> {
+    const rows = await selectByIds(itemIds, batch => db
+      .select({ itemId: itemTaxes.itemId, tax: taxes })
+      .from(itemTaxes)
+      .innerJoin(taxes, eq(itemTaxes.taxId, taxes.id))
+      .where(inArray(itemTaxes.itemId, batch)));
+
+    const taxesByItem = new Map<string, Tax[]>();
+    rows.forEach(row => {
+      const list = taxesByItem.get(row.itemId) || [];
+      list.push(row.tax);
+      taxesByItem.set(row.itemId, list);
+    });
+    return taxesByItem;
   }
 
   // Invoices
-  async getInvoices(): Promise<(Invoice & { customer: Customer; lineItems: (InvoiceLineItem & { item: Item })[] })[]> {
-    const allInvoices = await db
+  private async getLineTaxes(invoiceIds: string[]): Promise<Map<string, InvoiceLineTax[]>> {
+    const rows = await selectByIds(invoiceIds, batch => db
       .select()
+      .from(invoiceLineTaxes)
+      .where(inArray(invoiceLineTaxes.invoiceId, batch)));
+
+    const taxesByLine = new Map<string, InvoiceLineTax[]>();
+    rows.forEach(row => {
+      const list = taxesByLine.get(row.lineItemId) || [];
+      list.push(row);
+      taxesByLine.set(row.lineItemId, list);
+    });
+    return taxesByLine;
+  }
+
+  // The lines of many invoices at once, with their taxes, by invoice. Lines print from
+  // their own snapshot, never the live catalog.
+  private async getInvoiceLines(invoiceIds: string[]): Promise<Map<string, InvoiceWithDetails["lineItems"]>> {
+    const [lines, taxesByLine] = await Promise.all([
+      selectByIds(invoiceIds, batch => db
+        .select()
+        .from(invoiceLineItems)
+        .where(inArray(invoiceLineItems.invoiceId, batch))),
+      this.getLineTaxes(invoiceIds),
+    ]);
+
+    const linesByInvoice = new Map<string, InvoiceWithDetails["lineItems"]>();
+    lines.forEach(line => {
+      const list = linesByInvoice.get(line.invoiceId) || [];
+      list.push({ ...line, taxes: taxesByLine.get(line.id) || [] });
+      linesByInvoice.set(line.invoiceId, list);
+    });
+    return linesByInvoice;
+  }
+
+  async getInvoices(documentTypes: DocumentType[] = ["invoice"], query: Partial<InvoiceListQuery> = {}): Promise<Page<InvoiceWithDetails>> {
+    const { sort = "createdAt", order = "desc", offset = 0, limit } = query;
+    const where = and(
+      inArray(invoices.documentType, documentTypes),
+      isNull(invoices.deletedAt),
+      query.search ? or(contains(invoices.invoiceNumber, query.search), contains(customers.name, query.search)) : undefined,
+      query.status ? inArray(invoices.status, query.status) : undefined,
+      query.customerId ? eq(invoices.customerId, query.customerId) : undefined,
+      query.issuedFrom ? gte(invoices.issueDate, query.issuedFrom) : undefined,
+      query.issuedTo ? lt(invoices.issueDate, dayAfter(query.issuedTo)) : undefined,
+      query.dueFrom ? gte(invoices.dueDate, query.dueFrom) : undefined,
+      query.dueTo ? lt(invoices.dueDate, dayAfter(query.dueTo)) : undefined,
+      query.minTotal !== undefined ? gte(invoices.total, query.minTotal) : undefined,
+      query.maxTotal !== undefined ? lte(invoices.total, query.maxTotal) : undefined,
+    );
+    const direction = order === "asc" ? asc : desc;
+
+    const allInvoices = await db
+      .select({
+        invoices,
+        customers,
+        originalInvoice: { id: originalInvoices.id, invoiceNumber: originalInvoices.invoiceNumber, issueDate: originalInvoices.issueDate },
+      })
       .from(invoices)
       .leftJoin(customers, eq(invoices.customerId, customers.id))
-      .orderBy(desc(invoices.createdAt));
-
-    const invoicesWithDetails = await Promise.all(
-      allInvoices.map(async (row) => {
-        const invoice = row.invoices;
-        const customer = row.customers!;
-
-        const lineItemsData = await db
-          .select()
-          .from(invoiceLineItems)
-          .leftJoin(items, eq(invoiceLineItems.itemId, items.id))
-          .where(eq(invoiceLineItems.invoiceId, invoice.id));
-
-        const lineItems = lineItemsData.map(row => ({
-          ...row.invoice_line_items,
-          item: row.items!
-        }));
-
-        return {
-          ...invoice,
-          customer,
-          lineItems
-        };
-      })
-    );
+      .leftJoin(originalInvoices, eq(invoices.originalInvoiceId, originalInvoices.id))
+      .where(where)
+      .orderBy(direction(invoiceSortColumns[sort]), direction(invoices.id))
+      .limit(limit ?? -1)
+      .offset(offset);
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(invoices)
+      .leftJoin(customers, eq(invoices.customerId, customers.id))
+      .where(where);
+
+    const linesByInvoice = await this.getInvoiceLines(allInvoices.map(row => row.invoices.id));
+
+    const invoicesWithDetails = allInvoices.map(row => {
+      const invoice = row.invoices;
+      return {
+        ...invoice,
+        customer: row.customers!,
+        lineItems: linesByInvoice.get(invoice.id) || [],
+        originalInvoice: row.originalInvoice?.id ? row.originalInvoice : null,
+        balanceDue: balanceDue(invoice.total, invoice.amountPaid, invoice.amountCredited),
+        amountInWords: amountInWords(invoice.total)
+      };
+    });
 
-    return invoicesWithDetails;
+    return { data: invoicesWithDetails, total: count, limit: limit ?? count, offset };
   }
 
-  async getInvoice(id: string): Promise<(Invoice & { customer: Customer; lineItems: (InvoiceLineItem & { item: Item })[] }) | undefined> {
+  async getInvoice(id: string): Promise<InvoiceWithDetails | undefined> {
     const [invoiceData] = await db
-      .select()
+      .select({
+        invoices,
+        customers,
+        originalInvoice: { id: originalInvoices.id, invoiceNumber: originalInvoices.invoiceNumber, issueDate: originalInvoices.issueDate },
+      })
       .from(invoices)
       .leftJoin(customers, eq(invoices.customerId, customers.id))
+      .leftJoin(originalInvoices, eq(invoices.originalInvoiceId, originalInvoices.id))
       .where(eq(invoices.id, id));
 
     if (!invoiceData) return undefined;
 
     const invoice = invoiceData.invoices;
     const customer = invoiceData.customers!;
+    const originalInvoice = invoiceData.originalInvoice?.id ? invoiceData.originalInvoice : null;
 
-    const lineItemsData = await db
-      .select()
-      .from(invoiceLineItems)
-      .leftJoin(items, eq(invoiceLineItems.itemId, items.id))
-      .where(eq(invoiceLineItems.invoiceId, invoice.id));
-
-    const lineItems = lineItemsData.map(row => ({
-      ...row.invoice_line_items,
-      item: row.items!
-    }));
+    const linesByInvoice = await this.getInvoiceLines([invoice.id]);
+    const lineItems = linesByInvoice.get(invoice.id) || [];
 
     return {
       ...invoice,
       customer,
-      lineItems
+      lineItems,
+      originalInvoice,
+      balanceDue: balanceDue(invoice.total, invoice.amountPaid, invoice.amountCredited),
+      amountInWords: amountInWords(invoice.total)
     };
   }
 
-  async createInvoice(invoice: InsertInvoice, lineItems: InsertInvoiceLineItem[]): Promise<Invoice> {
-    const id = crypto.randomUUID();
-    // Ensure numeric fields are correctly handled
-    const processedInvoice = {
-      ...invoice,
-      id,
-      subtotal: Number(invoice.subtotal),
-      totalTax: Number(invoice.totalTax),
-      total: Number(invoice.total)
-    };
-    
-    await db.insert(invoices).values(processedInvoice);
-    const [newInvoice] = await db.select().from(invoices).where(eq(invoices.id, id));
-    
-    if (lineItems.length > 0) {
-      const lineItemsWithInvoiceId = lineItems.map(item => ({
-        ...item,
+  // Credit and debit notes raised against an invoice, oldest first
+  async getInvoiceNotes(invoiceId: string): Promise<Invoice[]> {
+    return await db
+      .select()
+      .from(invoices)
+      .where(and(eq(invoices.originalInvoiceId, invoiceId), isNull(invoices.deletedAt)))
+      .orderBy(invoices.issueDate);
+  }
+
+  // Recomputes every amount from the line items and the current item taxes.
+  // Client-sent totals are only accepted if they agree with the result.
+  private priceInvoice(
+    tx: Pick<Transaction, "select">,
+    invoice: PricingHeader,
+    lineItems: LineItemInput[],
+    current?: Pick<Invoice, "discountType" | "discountValue" | "roundingPolicy">
+  ): { totals: InvoiceTotals; lines: PricedLineItem[] } {
+    const resolved = this.resolveLines(tx, lineItems);
+    const itemIds = Array.from(new Set(lineItems.flatMap(line => line.itemId ? [line.itemId] : [])));
+    const taxRows = itemIds.length > 0
+      ? tx
+          .select({ itemId: itemTaxes.itemId, tax: taxes })
+          .from(itemTaxes)
+          .innerJoin(taxes, eq(itemTaxes.taxId, taxes.id))
+          .where(inArray(itemTaxes.itemId, itemIds))
+          .all()
+      : [];
+
+    const taxesByItem = new Map<string, TaxRate[]>();
+    taxRows.forEach(row => {
+      const list = taxesByItem.get(row.itemId) || [];
+      list.push({ id: row.tax.id, name: row.tax.name, percentage: row.tax.percentage });
+      taxesByItem.set(row.itemId, list);
+    });
+
+    const adHocTaxIds = Array.from(new Set(lineItems.flatMap(line => line.itemId ? [] : line.taxIds ?? [])));
+    const adHocTaxes = new Map<string, TaxRate>(
+      (adHocTaxIds.length > 0 ? tx.select().from(taxes).where(inArray(taxes.id, adHocTaxIds)).all() : [])
+        .map(tax => [tax.id, { id: tax.id, name: tax.name, percentage: tax.percentage }])
+    );
+    const lineTaxes = (line: LineItemInput): TaxRate[] => line.itemId
+      ? taxesByItem.get(line.itemId) || []
+      : (line.taxIds ?? []).flatMap(taxId => adHocTaxes.get(taxId) ?? []);
+
+    const totals = calculateInvoiceTotals(
+      lineItems.map(line => ({
+        quantity: Number(line.quantity),
+        unitPrice: Number(line.unitPrice),
+        taxes: lineTaxes(line),
+        discount: { type: line.discountType, value: line.discountValue },
+      })),
+      {
+        discount: {
+          type: invoice.discountType ?? current?.discountType,
+          value: invoice.discountValue ?? current?.discountValue,
+        },
+        rounding: invoice.roundingPolicy ?? current?.roundingPolicy ?? defaultRoundingPolicy,
+      }
+    );
+
+    const clientTotalsSent = invoice.subtotal !== undefined || invoice.totalTax !== undefined || invoice.total !== undefined;
+    if (clientTotalsSent && !totalsMatch({
+      subtotal: invoice.subtotal ?? totals.subtotal,
+      totalTax: invoice.totalTax ?? totals.totalTax,
+      total: invoice.total ?? totals.total,
+    }, totals)) {
+      throw new InvoiceTotalsMismatchError({ subtotal: totals.subtotal, totalTax: totals.totalTax, total: totals.total });
+    }
+
+    const lines = lineItems.map((line, index) => ({
+      itemId: line.itemId || null,
+      ...this.lineSnapshot(line, resolved[index].item),
+      quantity: Number(line.quantity),
+      unit: resolved[index].unit,
+      unitPrice: Number(line.unitPrice),
+      discountType: line.discountType === "percent" ? "percent" as const : "flat" as const,
+      discountValue: Number(line.discountValue) || 0,
+      discount: totals.lines[index].discount,
+      total: totals.lines[index].lineTotal,
+    }));
+
+    return { totals, lines };
+  }
+
+  // Each line's catalog item, and the unit it is billed in: the item's unless the line
+  // overrides it. Also checks that each item exists and each quantity has no more
+  // decimals than its item allows.
+  private resolveLines(
+    tx: Pick<Transaction, "select">,
+    lineItems: Pick<LineItemInput, "itemId" | "quantity" | "unit">[]
+  ): { item: Item | undefined; unit: string }[] {
+    const itemIds = Array.from(new Set(lineItems.flatMap(line => line.itemId ? [line.itemId] : [])));
+    const itemRows = itemIds.length > 0
+      ? tx.select().from(items).where(inArray(items.id, itemIds)).all()
+      : [];
+    const itemsById = new Map(itemRows.map(item => [item.id, item]));
+
+    return lineItems.map(line => {
+      const item = line.itemId ? itemsById.get(line.itemId) : undefined;
+      if (line.itemId && !item) {
+        throw new UnknownItemError();
+      }
+      if (item && !hasAtMostDecimals(line.quantity, item.quantityDecimals)) {
+        throw new QuantityPrecisionError(item.name, item.quantityDecimals);
+      }
+      return { item, unit: line.unit || item?.unit || defaultUnit };
+    });
+  }
+
+  // The text a line prints with, fixed at save time. A catalog line copies its item's
+  // name, description and HSN/SAC, keeping a description typed on the line; an ad-hoc
+  // line keeps what was entered.
+  private lineSnapshot(
+    line: Pick<LineItemInput, "description" | "hsnSac">,
+    item: Item | undefined
+  ): Pick<InvoiceLineItem, "itemName" | "description" | "hsnSac"> {
+    const description = line.description?.trim() || null;
+    if (!item) {
+      return { itemName: null, description, hsnSac: line.hsnSac?.trim() || null };
+    }
+    return { itemName: item.name, description: description ?? item.description, hsnSac: item.hsnSac };
+  }
+
+  // Writes the priced lines together with a snapshot of the taxes applied to each. A line
+  // sent with the id of one of the invoice's saved lines is updated in place, so its id
+  // survives the save; the others are added after the saved ones, and saved lines no
+  // longer sent are deleted. Every line's tax snapshot is written afresh.
+  private saveLineItems(
+    tx: Transaction,
+    invoiceId: string,
+    lineItems: Pick<LineItemInput, "id">[],
+    lines: PricedLineItem[],
+    totals: InvoiceTotals
+  ): void {
+    const savedIds = new Set(tx
+      .select({ id: invoiceLineItems.id })
+      .from(invoiceLineItems)
+      .where(eq(invoiceLineItems.invoiceId, invoiceId))
+      .all()
+      .map(line => line.id));
+    const keptIds = new Set<string>();
+    const lineRows = lines.map((line, index) => {
+      const id = lineItems[index].id;
+      if (id && savedIds.has(id) && !keptIds.has(id)) {
+        keptIds.add(id);
+        return { ...line, id, invoiceId, isNew: false };
+      }
+      return { ...line, id: crypto.randomUUID(), invoiceId, isNew: true };
+    });
+
+    // Their tax snapshots go with them via the cascade
+    const removedIds = Array.from(savedIds).filter(id => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      tx.delete(invoiceLineItems).where(inArray(invoiceLineItems.id, removedIds)).run();
+    }
+    if (keptIds.size > 0) {
+      tx.delete(invoiceLineTaxes).where(inArray(invoiceLineTaxes.lineItemId, Array.from(keptIds))).run();
+    }
+
+    lineRows.forEach(({ isNew, ...line }) => {
+      if (!isNew) tx.update(invoiceLineItems).set(line).where(eq(invoiceLineItems.id, line.id)).run();
+    });
+    const newRows = lineRows.flatMap(({ isNew, ...line }) => isNew ? [line] : []);
+    if (newRows.length > 0) {
+      tx.insert(invoiceLineItems).values(newRows).run();
+    }
+
+    const taxRows = lineRows.flatMap((line, index) =>
+      totals.lines[index].taxes.map(tax => ({
         id: crypto.randomUUID(),
-        invoiceId: id,
-        unitPrice: Number(item.unitPrice),
-        total: Number(item.total),
-        quantity: Number(item.quantity)
-      }));
-      await db.insert(invoiceLineItems).values(lineItemsWithInvoiceId);
+        invoiceId,
+        lineItemId: line.id,
+        taxId: tax.id ?? null,
+        taxName: tax.name,
+        rate: tax.percentage,
+        taxableAmount: totals.lines[index].taxableAmount,
+        taxAmount: tax.amount
+      }))
+    );
+    if (taxRows.length > 0) {
+      tx.insert(invoiceLineTaxes).values(taxRows).run();
     }
-    
+  }
+
+  // Payment terms, due date, notes and terms for a new invoice. Anything left out takes the
+  // organisation default, and a preset works the due date out from the issue date.
+  private invoiceTerms(
+    tx: Pick<Transaction, "select" | "insert">,
+    invoice: Pick<InsertInvoice, "issueDate" | "dueDate" | "paymentTerms" | "notes" | "terms">
+  ): Pick<Invoice, "paymentTerms" | "dueDate" | "notes" | "terms"> {
+    const settings = this.readSettings(tx);
+    // A due date sent without terms is kept as entered rather than replaced by the default preset
+    const paymentTerms = invoice.paymentTerms ?? (invoice.dueDate ? "custom" : settings.defaultPaymentTerms);
+    return {
+      paymentTerms,
+      dueDate: dueDateFor(paymentTerms, invoice.issueDate) ?? invoice.dueDate ?? null,
+      notes: invoice.notes === undefined ? settings.defaultNotes : invoice.notes || null,
+      terms: invoice.terms === undefined ? settings.defaultTerms : invoice.terms || null,
+    };
+  }
+
+  // Writes the invoice as it now stands as its next revision; called in the transaction of every save
+  private recordRevision(tx: Transaction, invoiceId: string, changedBy: string | null = null): void {
+    const [invoice] = tx.select().from(invoices).where(eq(invoices.id, invoiceId)).all();
+    const lines = tx.select().from(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, invoiceId)).all();
+    const lineTaxes = tx.select().from(invoiceLineTaxes).where(eq(invoiceLineTaxes.invoiceId, invoiceId)).all();
+    const [{ latest }] = tx
+      .select({ latest: sql<number | null>`max(${invoiceRevisions.revision})` })
+      .from(invoiceRevisions)
+      .where(eq(invoiceRevisions.invoiceId, invoiceId))
+      .all();
+
+    tx.insert(invoiceRevisions).values({
+      id: crypto.randomUUID(),
+      invoiceId,
+      revision: (latest ?? 0) + 1,
+      snapshot: toSnapshot(invoice, lines.map(line => ({ ...line, taxes: lineTaxes.filter(tax => tax.lineItemId === line.id) }))),
+      changedBy,
+      createdAt: new Date(),
+    }).run();
+  }
+
+  async createInvoice(invoice: NewInvoice, lineItems: LineItemInput[], sequenceId?: string, changedBy?: string | null): Promise<Invoice> {
+    // The number is drawn in the same transaction as the insert, so a failed insert never burns one
+    const id = db.transaction((tx) => this.insertInvoice(tx, invoice, lineItems, sequenceId, changedBy));
+
+    const [newInvoice] = await db.select().from(invoices).where(eq(invoices.id, id));
     return newInvoice;
   }
 
-  async updateInvoice(id: string, invoice: Partial<InsertInvoice>, lineItems: InsertInvoiceLineItem[]): Promise<Invoice> {
-    const updateData: any = { ...invoice };
-    if (updateData.subtotal !== undefined) updateData.subtotal = Number(updateData.subtotal);
-    if (updateData.totalTax !== undefined) updateData.totalTax = Number(updateData.totalTax);
-    if (updateData.total !== undefined) updateData.total = Number(updateData.total);
+  // Prices and writes a new invoice or note with its lines and first revision; returns its id
+  private insertInvoice(
+    tx: Transaction,
+    invoice: NewInvoice,
+    lineItems: LineItemInput[],
+    sequenceId?: string,
+    changedBy?: string | null
+  ): string {
+    const id = crypto.randomUUID();
+    const { totals, lines } = this.priceInvoice(tx, invoice, lineItems);
 
-    await db
-      .update(invoices)
-      .set(updateData)
-      .where(eq(invoices.id, id));
+    const status = invoice.status ?? "draft";
+    const documentType = invoice.documentType ?? "invoice";
 
-    // Update line items
-    await db.delete(invoiceLineItems).where(eq(invoiceLineItems.invoiceId, id));
-    
-    if (lineItems.length > 0) {
-      const lineItemsWithInvoiceId = lineItems.map(item => ({
-        ...item,
-        id: crypto.randomUUID(),
-        invoiceId: id,
-        unitPrice: Number(item.unitPrice),
-        total: Number(item.total),
-        quantity: Number(item.quantity)
-      }));
-      await db.insert(invoiceLineItems).values(lineItemsWithInvoiceId);
+    // A note always bills the customer of the invoice it adjusts
+    const original = documentType === "invoice" ? undefined : this.resolveOriginalInvoice(tx, invoice.originalInvoiceId);
+    if (original && documentType === "credit_note" && status === "issued") {
+      this.assertCreditAvailable(tx, original, totals.total);
     }
-    
+
+    if (invoice.invoiceNumber) {
+      this.assertNumberFree(tx, documentType, invoice.invoiceNumber);
+    }
+    const invoiceNumber = invoice.invoiceNumber || this.allocateNumber(tx, documentType, invoice.issueDate, sequenceId);
+    tx.insert(invoices).values({
+      ...invoice,
+      ...this.invoiceTerms(tx, invoice),
+      id,
+      invoiceNumber,
+      documentType,
+      originalInvoiceId: original?.id ?? null,
+      noteReason: original ? invoice.noteReason ?? null : null,
+      customerId: original?.customerId ?? invoice.customerId,
+      status,
+      issuedAt: status === "issued" ? new Date() : null,
+      subtotal: totals.subtotal,
+      totalTax: totals.totalTax,
+      discount: totals.discount,
+      roundOff: totals.roundOff,
+      total: totals.total
+    }).run();
+    this.saveLineItems(tx, id, lineItems, lines, totals);
+    this.refreshPaymentStatus(tx, id);
+    if (original) this.refreshPaymentStatus(tx, original.id);
+    this.recordRevision(tx, id, changedBy);
+    return id;
+  }
+
+  // Undefined when there is no such invoice. The state checks, the pricing and the write share
+  // one transaction, so the invoice cannot be issued or trashed between the check and the save.
+  async updateInvoice(id: string, invoice: Partial<InsertInvoice>, lineItems: LineItemInput[], changedBy?: string | null): Promise<Invoice | undefined> {
+    const found = db.transaction((tx) => {
+      const [current] = tx.select().from(invoices).where(eq(invoices.id, id)).all();
+      if (!current) return false;
+      if (current.deletedAt) {
+        throw new InvoiceStateError("This invoice is in the trash; restore it before editing");
+      }
+      if (!isEditable(current.status)) {
+        throw new InvoiceStateError(`${statusLabel(current.status)} invoices cannot be edited; cancel it or issue a credit note instead`);
+      }
+
+      const { totals, lines } = this.priceInvoice(tx, invoice, lineItems, current);
+      // Status only moves through transitionInvoice, and a document never changes type or original
+      const { invoiceNumber, status: _status, documentType: _documentType, originalInvoiceId: _originalInvoiceId, ...rest } = invoice;
+      if (current.originalInvoiceId) {
+        rest.customerId = current.customerId;
+      }
+      // A preset recomputes the due date whenever the terms or the issue date change; a due
+      // date sent without terms switches the invoice to custom terms and is kept as entered
+      const paymentTerms = invoice.paymentTerms ?? (invoice.dueDate ? "custom" : current.paymentTerms);
+      const termsDueDate = dueDateFor(paymentTerms, invoice.issueDate ?? current.issueDate);
+      if (invoiceNumber && invoiceNumber !== current.invoiceNumber) {
+        this.assertNumberFree(tx, current.documentType as DocumentType, invoiceNumber, id);
+      }
+
+      tx.update(invoices).set({
+        ...rest,
+        paymentTerms,
+        ...(termsDueDate ? { dueDate: termsDueDate } : {}),
+        // A blank number keeps the one already assigned
+        ...(invoiceNumber ? { invoiceNumber } : {}),
+        subtotal: totals.subtotal,
+        totalTax: totals.totalTax,
+        discount: totals.discount,
+        roundOff: totals.roundOff,
+        total: totals.total
+      }).where(eq(invoices.id, id)).run();
+
+      this.saveLineItems(tx, id, lineItems, lines, totals);
+
+      // A new total can settle or reopen the invoice
+      this.refreshPaymentStatus(tx, id);
+      this.recordRevision(tx, id, changedBy);
+      return true;
+    });
+    if (!found) return undefined;
+
     const [updatedInvoice] = await db.select().from(invoices).where(eq(invoices.id, id));
     return updatedInvoice;
   }
 
+  // Moves the draft to the trash. Its number stays taken until it is purged.
   async deleteInvoice(id: string): Promise<void> {
-    await db.delete(invoices).where(eq(invoices.id, id));
+    db.transaction((tx) => {
+      const [current] = tx.select().from(invoices).where(eq(invoices.id, id)).all();
+      if (current) this.trashInvoice(tx, current);
+    });
   }
 
-  async getInvoiceStats(): Promise<{ total: number; paid: number; pending: number; overdue: number }> {
-    const allInvoices = await db.select().from(invoices);
-    
+  private trashInvoice(tx: Transaction, current: Invoice): void {
+    if (!isEditable(current.status)) {
+      throw new InvoiceStateError(`${statusLabel(current.status)} invoices cannot be deleted; cancel it instead so the number stays accounted for`);
+    }
+    tx.update(invoices)
+      .set({ deletedAt: new Date() })
+      .where(and(eq(invoices.id, current.id), isNull(invoices.deletedAt)))
+      .run();
+  }
+
+  async transitionInvoice(id: string, status: InvoiceStatus, reason?: string, changedBy?: string | null): Promise<Invoice | undefined> {
+    const found = db.transaction((tx) => {
+      const [current] = tx.select().from(invoices).where(eq(invoices.id, id)).all();
+      if (!current) return false;
+      this.applyTransition(tx, current, status, reason, changedBy);
+      return true;
+    });
+    if (!found) return undefined;
+
+    const [updatedInvoice] = await db.select().from(invoices).where(eq(invoices.id, id));
+    return updatedInvoice;
+  }
+
+  // Checks and applies a status change to an invoice read in the same transaction
+  private applyTransition(tx: Transaction, current: Invoice, status: InvoiceStatus, reason?: string, changedBy?: string | null): void {
+    const id = current.id;
+    if (current.deletedAt) {
+      throw new InvoiceStateError("This invoice is in the trash; restore it first");
+    }
+    if (!canTransition(current.status, status)) {
+      throw new InvoiceStateError(`Cannot move a ${statusLabel(current.status).toLowerCase()} ${documentLabel(current).toLowerCase()} to ${statusLabel(status).toLowerCase()}`);
+    }
+
+    const now = new Date();
+    if (status === "cancelled") {
+      if (!reason?.trim()) {
+        throw new InvoiceStateError("A reason is required to cancel an invoice");
+      }
+      if (current.amountPaid > 0) {
+        throw new InvoiceStateError("Invoices with recorded payments cannot be cancelled; remove the payments or issue a credit note");
+      }
+      if (current.amountCredited > 0) {
+        throw new InvoiceStateError("Invoices with issued credit notes cannot be cancelled; cancel the credit notes first");
+      }
+      tx.update(invoices)
+        .set({ status, cancelledAt: now, cancellationReason: reason.trim() })
+        .where(eq(invoices.id, id))
+        .run();
+    } else {
+      if (status === "issued" && current.documentType === "credit_note" && current.originalInvoiceId) {
+        this.assertCreditAvailable(tx, this.resolveOriginalInvoice(tx, current.originalInvoiceId), current.total);
+      }
+      tx.update(invoices)
+        .set({ status, ...(status === "issued" ? { issuedAt: now } : { sentAt: now }) })
+        .where(eq(invoices.id, id))
+        .run();
+    }
+
+    // Issuing or cancelling a credit note changes what is still owed on the original
+    if (current.originalInvoiceId) this.refreshPaymentStatus(tx, current.originalInvoiceId);
+    this.recordRevision(tx, id, changedBy);
+  }
+
+  // Applies the action to each invoice in a savepoint of one transaction: an invoice the
+  // action is not allowed on is rolled back alone and reported, and the rest commit together
+  async bulkInvoiceAction(
+    ids: string[],
+    action: BulkInvoiceAction,
+    options: { reason?: string; changedBy?: string | null } = {}
+  ): Promise<BulkActionReport> {
+    const uniqueIds = Array.from(new Set(ids));
+    const results = db.transaction((tx) => {
+      const found = tx.select().from(invoices).where(inArray(invoices.id, uniqueIds)).all();
+      const byId = new Map(found.map(invoice => [invoice.id, invoice]));
+
+      return uniqueIds.map((id): BulkActionResult => {
+        const current = byId.get(id);
+        if (!current) return { id, invoiceNumber: null, ok: false, error: "Invoice not found" };
+        try {
+          tx.transaction((savepoint) => {
+            // Reread, as an earlier invoice in the batch may have changed this one (a credit note its original)
+            const [latest] = savepoint.select().from(invoices).where(eq(invoices.id, id)).all();
+            const status = bulkActionStatuses[action];
+            if (status) {
+              this.applyTransition(savepoint, latest, status, options.reason, options.changedBy);
+            } else {
+              this.trashInvoice(savepoint, latest);
+            }
+          });
+          return { id, invoiceNumber: current.invoiceNumber, ok: true, error: null };
+        } catch (error) {
+          if (!(error instanceof InvoiceStateError || error instanceof CreditLimitError)) throw error;
+          return { id, invoiceNumber: current.invoiceNumber, ok: false, error: error.message };
+        }
+      });
+    });
+
+    const succeeded = results.filter(result => result.ok).length;
+    return { action, succeeded, failed: results.length - succeeded, results };
+  }
+
+  async getInvoiceStats(): Promise<InvoiceStats> {
+    // Credit notes are not receivables; debit notes are counted with invoices
+    const allInvoices = await db
+      .select()
+      .from(invoices)
+      .where(and(ne(invoices.documentType, "credit_note"), isNull(invoices.deletedAt)));
+    const now = new Date();
+
+    // Counted by due date as well as status, so the figures are right even before the job has run
+    const overdueInvoices = allInvoices.filter(i =>
+      i.status === 'overdue' || (['issued', 'sent', 'partially_paid'].includes(i.status) && isPastDue(i, now))
+    );
+    const overdueIds = new Set(overdueInvoices.map(i => i.id));
+
     const stats = {
       total: allInvoices.length,
       paid: allInvoices.filter(i => i.status === 'paid').length,
-      pending: allInvoices.filter(i => i.status === 'pending').length,
-      overdue: allInvoices.filter(i => i.status === 'overdue').length
+      partiallyPaid: allInvoices.filter(i => i.status === 'partially_paid' && !overdueIds.has(i.id)).length,
+      pending: allInvoices.filter(i => ['issued', 'sent'].includes(i.status) && !overdueIds.has(i.id)).length,
+      overdue: overdueInvoices.length,
+      overdueAmount: overdueInvoices.reduce((sum, i) => sum + Math.max(balanceDue(i.total, i.amountPaid, i.amountCredited), 0), 0),
+      draft: allInvoices.filter(i => i.status === 'draft').length,
+      cancelled: allInvoices.filter(i => i.status === 'cancelled').length
     };
 
     return stats;
   }
 
+  // Flags unpaid invoices past their due date as overdue, and lifts the flag from any
+  // that no longer qualify (due date moved out, or settled)
+  async recomputeInvoiceStatuses(now: Date = new Date()): Promise<{ markedOverdue: number; cleared: number }> {
+    return db.transaction((tx) => {
+      const candidates = tx
+        .select()
+        .from(invoices)
+        .where(and(inArray(invoices.status, openStatuses), ne(invoices.documentType, "credit_note")))
+        .all();
+
+      let markedOverdue = 0;
+      let cleared = 0;
+      candidates.forEach(invoice => {
+        const pastDue = isPastDue(invoice, now);
+        if (pastDue && invoice.status !== 'overdue') {
+          tx.update(invoices).set({ status: 'overdue', overdueAt: now }).where(eq(invoices.id, invoice.id)).run();
+          markedOverdue++;
+        } else if (!pastDue && invoice.status === 'overdue') {
+          const unpaid = unpaidStatus(invoice);
+          tx.update(invoices)
+            .set({ status: derivePaymentStatus(invoice.total, invoice.amountPaid, invoice.amountCredited, unpaid, unpaid), overdueAt: null })
+            .where(eq(invoices.id, invoice.id))
+            .run();
+          cleared++;
+        }
+      });
+
+      return { markedOverdue, cleared };
+    });
+  }
+
+  // Payments
+  async getPayments(invoiceId: string): Promise<Payment[]> {
+    return await db
+      .select()
+      .from(payments)
+      .where(eq(payments.invoiceId, invoiceId))
+      .orderBy(desc(payments.paymentDate));
+  }
+
+  async createPayment(invoiceId: string, payment: InsertPayment, allowOverpayment = false): Promise<Payment | undefined> {
+    const id = crypto.randomUUID();
+    const created = db.transaction((tx) => {
+      const [invoice] = tx.select().from(invoices).where(eq(invoices.id, invoiceId)).all();
+      if (!invoice) return false;
+      if (invoice.documentType === "credit_note") {
+        throw new InvoiceStateError("Payments cannot be recorded against credit notes");
+      }
+      if (!payableStatuses.includes(invoice.status as InvoiceStatus)) {
+        throw new InvoiceStateError(`Payments cannot be recorded against ${statusLabel(invoice.status).toLowerCase()} invoices`);
+      }
+
+      const due = balanceDue(invoice.total, invoice.amountPaid, invoice.amountCredited);
+      if (!allowOverpayment && payment.amount > due) {
+        throw new OverpaymentError(Math.max(due, 0));
+      }
+
+      tx.insert(payments).values({ ...payment, id, invoiceId }).run();
+      this.refreshPaymentStatus(tx, invoiceId);
+      return true;
+    });
+    if (!created) return undefined;
+
+    const [newPayment] = await db.select().from(payments).where(eq(payments.id, id));
+    return newPayment;
+  }
+
+  async deletePayment(invoiceId: string, paymentId: string): Promise<void> {
+    db.transaction((tx) => {
+      tx.delete(payments)
+        .where(and(eq(payments.id, paymentId), eq(payments.invoiceId, invoiceId)))
+        .run();
+      this.refreshPaymentStatus(tx, invoiceId);
+    });
+  }
+
+  // Attachments
+  async getInvoiceAttachments(invoiceId: string): Promise<InvoiceAttachment[]> {
+    return await db
+      .select()
+      .from(invoiceAttachments)
+      .where(eq(invoiceAttachments.invoiceId, invoiceId))
+      .orderBy(invoiceAttachments.createdAt);
+  }
+
+  // The file is checked against its stored checksum, so a damaged file is never served
+  async getInvoiceAttachmentContent(invoiceId: string, attachmentId: string): Promise<{ attachment: InvoiceAttachment; content: Buffer } | undefined> {
+    const [attachment] = await db
+      .select()
+      .from(invoiceAttachments)
+      .where(and(eq(invoiceAttachments.id, attachmentId), eq(invoiceAttachments.invoiceId, invoiceId)));
+    if (!attachment) return undefined;
+
+    const content = await readAttachmentFile(attachment.invoiceId, attachment.storedName);
+    if (!content) return undefined;
+    if (checksumOf(content) !== attachment.checksum) {
+      throw new Error(`Attachment ${attachment.fileName} does not match its checksum`);
+    }
+    return { attachment, content };
+  }
+
+  async createInvoiceAttachment(invoiceId: string, upload: AttachmentUpload): Promise<InvoiceAttachment | undefined> {
+    if (!isAllowedAttachmentType(upload.mimeType)) {
+      throw new AttachmentError("Attach a PDF, image, text, Word or Excel file");
+    }
+    if (upload.content.length === 0) {
+      throw new AttachmentError("The file is empty");
+    }
+    if (upload.content.length > maxAttachmentSize) {
+      throw new AttachmentError(`Attachments can be at most ${formatFileSize(maxAttachmentSize)}`);
+    }
+
+    const [invoice] = await db.select({ id: invoices.id }).from(invoices).where(eq(invoices.id, invoiceId));
+    if (!invoice) return undefined;
+    const [{ count }] = await db
+      .select({ count: sql<number>`count(*)` })
+      .from(invoiceAttachments)
+      .where(eq(invoiceAttachments.invoiceId, invoice.id));
+    if (Number(count) >= maxAttachmentsPerInvoice) {
+      throw new AttachmentError(`An invoice can have at most ${maxAttachmentsPerInvoice} attachments`);
+    }
+
+    const id = crypto.randomUUID();
+    const storedName = `${id}${attachmentTypes[upload.mimeType]}`;
+    await writeAttachmentFile(invoice.id, storedName, upload.content);
+    try {
+      await db.insert(invoiceAttachments).values({
+        id,
+        invoiceId: invoice.id,
+        fileName: path.basename(upload.fileName) || storedName,
+        storedName,
+        mimeType: upload.mimeType,
+        size: upload.content.length,
+        checksum: checksumOf(upload.content),
+        createdAt: new Date(),
+      });
+    } catch (error) {
+      await removeAttachmentFile(invoice.id, storedName);
+      throw error;
+    }
+
+    const [attachment] = await db.select().from(invoiceAttachments).where(eq(invoiceAttachments.id, id));
+    return attachment;
+  }
+
+  async deleteInvoiceAttachment(invoiceId: string, attachmentId: string): Promise<void> {
+    const [attachment] = await db
+      .select()
+      .from(invoiceAttachments)
+      .where(and(eq(invoiceAttachments.id, attachmentId), eq(invoiceAttachments.invoiceId, invoiceId)));
+    if (!attachment) return;
+
+    await db.delete(invoiceAttachments).where(eq(invoiceAttachments.id, attachment.id));
+    await removeAttachmentFile(attachment.invoiceId, attachment.storedName);
+  }
+
+  // Revisions, newest first; the snapshots are only loaded one at a time
+  async getInvoiceRevisions(invoiceId: string): Promise<Omit<InvoiceRevision, "snapshot">[]> {
+    return await db
+      .select({
+        id: invoiceRevisions.id,
+        invoiceId: invoiceRevisions.invoiceId,
+        revision: invoiceRevisions.revision,
+        changedBy: invoiceRevisions.changedBy,
+        createdAt: invoiceRevisions.createdAt,
+      })
+      .from(invoiceRevisions)
+      .where(eq(invoiceRevisions.invoiceId, invoiceId))
+      .orderBy(desc(invoiceRevisions.revision));
+  }
+
+  async getInvoiceRevision(invoiceId: string, revision: number): Promise<InvoiceRevision | undefined> {
+    const [found] = await db
+      .select()
+      .from(invoiceRevisions)
+      .where(and(eq(invoiceRevisions.invoiceId, invoiceId), eq(invoiceRevisions.revision, revision)));
+    return found;
+  }
+
+  // Field-level changes going from one revision to another, which may be earlier or later
+  async diffInvoiceRevisions(invoiceId: string, from: number, to: number): Promise<RevisionDiff | undefined> {
+    const [before, after] = await Promise.all([
+      this.getInvoiceRevision(invoiceId, from),
+      this.getInvoiceRevision(invoiceId, to),
+    ]);
+    if (!before || !after) return undefined;
+    return { from, to, ...diffSnapshots(before.snapshot, after.snapshot) };
+  }
+
+  // Recomputes the amounts paid and credited from the ledger and the issued credit
+  // notes, and derives the status from them
+  private refreshPaymentStatus(tx: Transaction, invoiceId: string): void {
+    const [invoice] = tx.select().from(invoices).where(eq(invoices.id, invoiceId)).all();
+    if (!invoice) return;
+
+    const [{ paid }] = tx
+      .select({ paid: sql<number>`coalesce(sum(${payments.amount}), 0)` })
+      .from(payments)
+      .where(eq(payments.invoiceId, invoiceId))
+      .all();
+    const amountPaid = Number(paid);
+    const amountCredited = this.creditedAmount(tx, invoiceId);
+
+    tx.update(invoices)
+      .set({
+        amountPaid,
+        amountCredited,
+        status: derivePaymentStatus(invoice.total, amountPaid, amountCredited, invoice.status, unpaidStatus(invoice))
+      })
+      .where(eq(invoices.id, invoiceId))
+      .run();
+  }
+
+  // Credit notes count against the original once issued, until they are cancelled
+  private creditedAmount(tx: Transaction, invoiceId: string): Paise {
+    const [{ credited }] = tx
+      .select({ credited: sql<number>`coalesce(sum(${invoices.total}), 0)` })
+      .from(invoices)
+      .where(and(
+        eq(invoices.originalInvoiceId, invoiceId),
+        eq(invoices.documentType, "credit_note"),
+        notInArray(invoices.status, ["draft", "cancelled"])
+      ))
+      .all();
+    return Number(credited);
+  }
+
+  // Notes can only adjust an invoice that has been issued and not cancelled
+  private resolveOriginalInvoice(tx: Transaction, originalInvoiceId: string | null | undefined): Invoice {
+    if (!originalInvoiceId) {
+      throw new InvoiceStateError("Credit and debit notes must reference an original invoice");
+    }
+    const [original] = tx.select().from(invoices).where(eq(invoices.id, originalInvoiceId)).all();
+    if (!original || original.documentType !== "invoice") {
+      throw new InvoiceStateError("The original invoice does not exist");
+    }
+    if (!payableStatuses.includes(original.status as InvoiceStatus)) {
+      throw new InvoiceStateError(`Notes cannot be raised against ${statusLabel(original.status).toLowerCase()} invoices`);
+    }
+    return original;
+  }
+
+  // All credit notes together may not exceed the original invoice's total
+  private assertCreditAvailable(tx: Transaction, original: Invoice, amount: Paise): void {
+    const available = original.total - this.creditedAmount(tx, original.id);
+    if (amount > available) {
+      throw new CreditLimitError(Math.max(available, 0));
+    }
+  }
+
+  // Estimates
+  private async getEstimateDetails(where?: ReturnType<typeof eq>): Promise<EstimateWithDetails[]> {
+    const rows = await db
+      .select({
+        estimates,
+        customers,
+        convertedInvoice: { id: invoices.id, invoiceNumber: invoices.invoiceNumber },
+      })
+      .from(estimates)
+      .leftJoin(customers, eq(estimates.customerId, customers.id))
+      .leftJoin(invoices, eq(estimates.convertedInvoiceId, invoices.id))
+      .where(where)
+      .orderBy(desc(estimates.createdAt));
+    if (rows.length === 0) return [];
+
+    const estimateIds = rows.map(row => row.estimates.id);
+    const lineRows = await db
+      .select()
+      .from(estimateLineItems)
+      .leftJoin(items, eq(estimateLineItems.itemId, items.id))
+      .where(inArray(estimateLineItems.estimateId, estimateIds));
+    const taxRows = await db
+      .select()
+      .from(estimateLineTaxes)
+      .where(inArray(estimateLineTaxes.estimateId, estimateIds));
+
+    const taxesByLine = new Map<string, EstimateLineTax[]>();
+    taxRows.forEach(row => {
+      const list = taxesByLine.get(row.lineItemId) || [];
+      list.push(row);
+      taxesByLine.set(row.lineItemId, list);
+    });
+
+    return rows.map(row => ({
+      ...row.estimates,
+      customer: row.customers!,
+      convertedInvoice: row.convertedInvoice?.id ? row.convertedInvoice : null,
+      lineItems: lineRows
+        .filter(line => line.estimate_line_items.estimateId === row.estimates.id)
+        .map(line => ({
+          ...line.estimate_line_items,
+          item: line.items!,
+          taxes: taxesByLine.get(line.estimate_line_items.id) || []
+        }))
+    }));
+  }
+
+  async getEstimates(): Promise<EstimateWithDetails[]> {
+    return this.getEstimateDetails();
+  }
+
+  async getEstimate(id: string): Promise<EstimateWithDetails | undefined> {
+    const [estimate] = await this.getEstimateDetails(eq(estimates.id, id));
+    return estimate;
+  }
+
+  // Priced exactly like an invoice, with the same tax snapshot per line. Saved lines sent
+  // back with their id are updated in place, the same way saveLineItems keeps invoice lines.
+  private saveEstimateLineItems(
+    tx: Transaction,
+    estimateId: string,
+    lineItems: Pick<EstimateLineInput, "id" | "itemId">[],
+    lines: PricedLineItem[],
+    totals: InvoiceTotals
+  ): void {
+    const savedIds = new Set(tx
+      .select({ id: estimateLineItems.id })
+      .from(estimateLineItems)
+      .where(eq(estimateLineItems.estimateId, estimateId))
+      .all()
+      .map(line => line.id));
+    const keptIds = new Set<string>();
+    // Estimate lines always come from the catalog, so there is no ad-hoc text to keep
+    const lineRows = lines.map(({ itemId: _itemId, itemName: _itemName, description: _description, hsnSac: _hsnSac, ...line }, index) => {
+      const row = { ...line, itemId: lineItems[index].itemId, estimateId };
+      const id = lineItems[index].id;
+      if (id && savedIds.has(id) && !keptIds.has(id)) {
+        keptIds.add(id);
+        return { ...row, id, isNew: false };
+      }
+      return { ...row, id: crypto.randomUUID(), isNew: true };
+    });
+
+    const removedIds = Array.from(savedIds).filter(id => !keptIds.has(id));
+    if (removedIds.length > 0) {
+      tx.delete(estimateLineItems).where(inArray(estimateLineItems.id, removedIds)).run();
+    }
+    if (keptIds.size > 0) {
+      tx.delete(estimateLineTaxes).where(inArray(estimateLineTaxes.lineItemId, Array.from(keptIds))).run();
+    }
+
+    lineRows.forEach(({ isNew, ...line }) => {
+      if (!isNew) tx.update(estimateLineItems).set(line).where(eq(estimateLineItems.id, line.id)).run();
+    });
+    const newRows = lineRows.flatMap(({ isNew, ...line }) => isNew ? [line] : []);
+    if (newRows.length > 0) {
+      tx.insert(estimateLineItems).values(newRows).run();
+    }
+
+    const taxRows = lineRows.flatMap((line, index) =>
+      totals.lines[index].taxes.map(tax => ({
+        id: crypto.randomUUID(),
+        estimateId,
+        lineItemId: line.id,
+        taxId: tax.id ?? null,
+        taxName: tax.name,
+        rate: tax.percentage,
+        taxableAmount: totals.lines[index].taxableAmount,
+        taxAmount: tax.amount
+      }))
+    );
+    if (taxRows.length > 0) {
+      tx.insert(estimateLineTaxes).values(taxRows).run();
+    }
+  }
+
+  async createEstimate(estimate: InsertEstimate, lineItems: EstimateLineInput[], sequenceId?: string): Promise<Estimate> {
+    const id = crypto.randomUUID();
+    const { totals, lines } = this.priceInvoice(db, estimate, lineItems);
+    const status = estimate.status ?? "draft";
+
+    db.transaction((tx) => {
+      if (estimate.estimateNumber) {
+        this.assertNumberFree(tx, "estimate", estimate.estimateNumber);
+      }
+      const estimateNumber = estimate.estimateNumber || this.allocateNumber(tx, "estimate", estimate.issueDate, sequenceId);
+      tx.insert(estimates).values({
+        ...estimate,
+        id,
+        estimateNumber,
+        status,
+        sentAt: status === "sent" ? new Date() : null,
+        subtotal: totals.subtotal,
+        totalTax: totals.totalTax,
+        discount: totals.discount,
+        roundOff: totals.roundOff,
+        total: totals.total
+      }).run();
+      this.saveEstimateLineItems(tx, id, lineItems, lines, totals);
+    });
+
+    const [newEstimate] = await db.select().from(estimates).where(eq(estimates.id, id));
+    return newEstimate;
+  }
+
+  // Undefined when there is no such estimate. As with invoices, the checks, the pricing and
+  // the write share one transaction, so the estimate cannot be sent or converted in between.
+  async updateEstimate(id: string, estimate: Partial<InsertEstimate>, lineItems: EstimateLineInput[]): Promise<Estimate | undefined> {
+    const found = db.transaction((tx) => {
+      const [current] = tx.select().from(estimates).where(eq(estimates.id, id)).all();
+      if (!current) return false;
+      if (!isEstimateEditable(current.status) || current.convertedInvoiceId) {
+        throw new EstimateStateError(`${current.convertedInvoiceId ? "Converted" : estimateStatusLabel(current.status)} estimates cannot be edited`);
+      }
+
+      const { totals, lines } = this.priceInvoice(tx, estimate, lineItems, current);
+      const { estimateNumber, status: _status, ...rest } = estimate;
+      if (estimateNumber && estimateNumber !== current.estimateNumber) {
+        this.assertNumberFree(tx, "estimate", estimateNumber, id);
+      }
+
+      tx.update(estimates).set({
+        ...rest,
+        ...(estimateNumber ? { estimateNumber } : {}),
+        subtotal: totals.subtotal,
+        totalTax: totals.totalTax,
+        discount: totals.discount,
+        roundOff: totals.roundOff,
+        total: totals.total
+      }).where(eq(estimates.id, id)).run();
+      this.saveEstimateLineItems(tx, id, lineItems, lines, totals);
+      return true;
+    });
+    if (!found) return undefined;
+
+    const [updatedEstimate] = await db.select().from(estimates).where(eq(estimates.id, id));
+    return updatedEstimate;
+  }
+
+  // Checked in the same transaction as the delete, so a conversion cannot slip in between
+  async deleteEstimate(id: string): Promise<void> {
+    db.transaction((tx) => {
+      const [current] = tx.select().from(estimates).where(eq(estimates.id, id)).all();
+      if (current?.convertedInvoiceId) {
+        throw new EstimateStateError("Estimates that have been converted into an invoice cannot be deleted");
+      }
+      tx.delete(estimates).where(eq(estimates.id, id)).run();
+    });
+  }
+
+  async transitionEstimate(id: string, status: EstimateStatus): Promise<Estimate | undefined> {
+    const found = db.transaction((tx) => {
+      const [current] = tx.select().from(estimates).where(eq(estimates.id, id)).all();
+      if (!current) return false;
+
+      if (!canTransitionEstimate(current.status, status)) {
+        throw new EstimateStateError(`Cannot move a ${estimateStatusLabel(current.status).toLowerCase()} estimate to ${estimateStatusLabel(status).toLowerCase()}`);
+      }
+      if (status === "accepted" && isEstimateExpired(current)) {
+        throw new EstimateStateError("This estimate is past its validity date and can no longer be accepted");
+      }
+
+      const now = new Date();
+      const timestamps = {
+        sent: { sentAt: now },
+        accepted: { acceptedAt: now },
+        declined: { declinedAt: now },
+      }[status as "sent" | "accepted" | "declined"];
+      tx.update(estimates).set({ status, ...timestamps }).where(eq(estimates.id, id)).run();
+      return true;
+    });
+    if (!found) return undefined;
+
+    const [updatedEstimate] = await db.select().from(estimates).where(eq(estimates.id, id));
+    return updatedEstimate;
+  }
+
+  // Copies the customer, lines, tax snapshots and discounts into a new draft invoice
+  // dated today, and marks the estimate accepted and linked to it
+  async convertEstimate(id: string, sequenceId?: string): Promise<Invoice | undefined> {
+    const invoiceId = crypto.randomUUID();
+    const converted = db.transaction((tx) => {
+      const [estimate] = tx.select().from(estimates).where(eq(estimates.id, id)).all();
+      if (!estimate) return false;
+
+      if (!isConvertible(estimate)) {
+        throw new EstimateStateError(estimate.convertedInvoiceId
+          ? "This estimate has already been converted into an invoice"
+          : `${estimateStatusLabel(estimate.status)} estimates cannot be converted into an invoice`);
+      }
+      if (estimate.status !== "accepted" && isEstimateExpired(estimate)) {
+        throw new EstimateStateError("This estimate is past its validity date and can no longer be converted");
+      }
+
+      const now = new Date();
+      const issueDate = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+      tx.insert(invoices).values({
+        id: invoiceId,
+        invoiceNumber: this.allocateNumber(tx, "invoice", issueDate, sequenceId),
+        customerId: estimate.customerId,
+        issueDate,
+        ...this.invoiceTerms(tx, { issueDate, dueDate: null }),
+        subtotal: estimate.subtotal,
+        totalTax: estimate.totalTax,
+        discountType: estimate.discountType,
+        discountValue: estimate.discountValue,
+        discount: estimate.discount,
+        roundingPolicy: estimate.roundingPolicy,
+        roundOff: estimate.roundOff,
+        total: estimate.total,
+        status: "draft",
+      }).run();
+
+      const lines = tx
+        .select()
+        .from(estimateLineItems)
+        .leftJoin(items, eq(estimateLineItems.itemId, items.id))
+        .where(eq(estimateLineItems.estimateId, id))
+        .all();
+      const lineIds = new Map<string, string>();
+      if (lines.length > 0) {
+        tx.insert(invoiceLineItems).values(lines.map(({ estimate_line_items: line, items: item }) => {
+          const lineId = crypto.randomUUID();
+          lineIds.set(line.id, lineId);
+          return {
+            id: lineId,
+            invoiceId,
+            itemId: line.itemId,
+            ...this.lineSnapshot({}, item ?? undefined),
+            quantity: line.quantity,
+            unit: line.unit,
+            unitPrice: line.unitPrice,
+            discountType: line.discountType,
+            discountValue: line.discountValue,
+            discount: line.discount,
+            total: line.total
+          };
+        })).run();
+      }
+
+      const lineTaxes = tx.select().from(estimateLineTaxes).where(eq(estimateLineTaxes.estimateId, id)).all();
+      if (lineTaxes.length > 0) {
+        tx.insert(invoiceLineTaxes).values(lineTaxes.map(tax => ({
+          id: crypto.randomUUID(),
+          invoiceId,
+          lineItemId: lineIds.get(tax.lineItemId)!,
+          taxId: tax.taxId,
+          taxName: tax.taxName,
+          rate: tax.rate,
+          taxableAmount: tax.taxableAmount,
+          taxAmount: tax.taxAmount
+        }))).run();
+      }
+
+      tx.update(estimates)
+        .set({
+          status: "accepted",
+          acceptedAt: estimate.acceptedAt ?? now,
+          convertedInvoiceId: invoiceId,
+          convertedAt: now
+        })
+        .where(eq(estimates.id, id))
+        .run();
+      this.recordRevision(tx, invoiceId);
+      return true;
+    });
+    if (!converted) return undefined;
+
+    const [invoice] = await db.select().from(invoices).where(eq(invoices.id, invoiceId));
+    return invoice;
+  }
+
+  // Marks unanswered estimates whose validity date has passed as expired
+  async expireEstimates(now: Date = new Date()): Promise<number> {
+    return db.transaction((tx) => {
+      const pending = tx
+        .select()
+        .from(estimates)
+        .where(inArray(estimates.status, pendingEstimateStatuses))
+        .all()
+        .filter(estimate => isEstimateExpired(estimate, now));
+
+      pending.forEach(estimate => {
+        tx.update(estimates).set({ status: "expired", expiredAt: now }).where(eq(estimates.id, estimate.id)).run();
+      });
+      return pending.length;
+    });
+  }
+
+  // Recurring profiles
+  private async getRecurringProfileDetails(where?: ReturnType<typeof eq>): Promise<RecurringProfileWithDetails[]> {
+    const rows = await db
+      .select()
+      .from(recurringProfiles)
+      .leftJoin(customers, eq(recurringProfiles.customerId, customers.id))
+      .where(where)
+      .orderBy(recurringProfiles.name);
+    if (rows.length === 0) return [];
+
+    const profileIds = rows.map(row => row.recurring_profiles.id);
+    const lineRows = await db
+      .select()
+      .from(recurringProfileLineItems)
+      .leftJoin(items, eq(recurringProfileLineItems.itemId, items.id))
+      .where(inArray(recurringProfileLineItems.profileId, profileIds));
+    const runs = await db
+      .select()
+      .from(recurringInvoiceRuns)
+      .where(inArray(recurringInvoiceRuns.profileId, profileIds))
+      .orderBy(desc(recurringInvoiceRuns.scheduledFor));
+
+    return rows.map(row => ({
+      ...row.recurring_profiles,
+      customer: row.customers!,
+      lineItems: lineRows
+        .filter(line => line.recurring_profile_line_items.profileId === row.recurring_profiles.id)
+        .map(line => ({ ...line.recurring_profile_line_items, item: line.items! })),
+      lastRun: runs.find(run => run.profileId === row.recurring_profiles.id) ?? null
+    }));
+  }
+
+  async getRecurringProfiles(): Promise<RecurringProfileWithDetails[]> {
+    return this.getRecurringProfileDetails();
+  }
+
+  async getRecurringProfile(id: string): Promise<RecurringProfileWithDetails | undefined> {
+    const [profile] = await this.getRecurringProfileDetails(eq(recurringProfiles.id, id));
+    return profile;
+  }
+
+  // The first billing date on or after the given date, or null once past the end date
+  private scheduleFrom(profile: Pick<RecurringProfile, "dayOfMonth" | "endDate">, from: Date): Date | null {
+    const next = firstOccurrence(from, profile.dayOfMonth);
+    return profile.endDate && next.getTime() > profile.endDate.getTime() ? null : next;
+  }
+
+  private insertProfileLineItems(tx: Transaction, profileId: string, lineItems: InsertRecurringProfileLineItem[]): void {
+    if (lineItems.length === 0) return;
+    const resolved = this.resolveLines(tx, lineItems);
+    tx.insert(recurringProfileLineItems).values(lineItems.map((line, index) => ({
+      ...line,
+      unit: resolved[index].unit,
+      id: crypto.randomUUID(),
+      profileId
+    }))).run();
+  }
+
+  async createRecurringProfile(profile: InsertRecurringProfile, lineItems: InsertRecurringProfileLineItem[]): Promise<RecurringProfile> {
+    const id = crypto.randomUUID();
+    db.transaction((tx) => {
+      tx.insert(recurringProfiles).values({
+        ...profile,
+        id,
+        nextRunDate: this.scheduleFrom({ dayOfMonth: profile.dayOfMonth, endDate: profile.endDate ?? null }, profile.startDate)
+      }).run();
+      this.insertProfileLineItems(tx, id, lineItems);
+    });
+
+    const [newProfile] = await db.select().from(recurringProfiles).where(eq(recurringProfiles.id, id));
+    return newProfile;
+  }
+
+  // A schedule change takes effect from the period after the last one billed
+  async updateRecurringProfile(id: string, profile: Partial<InsertRecurringProfile>, lineItems: InsertRecurringProfileLineItem[]): Promise<RecurringProfile> {
+    db.transaction((tx) => {
+      const [current] = tx.select().from(recurringProfiles).where(eq(recurringProfiles.id, id)).all();
+      if (!current) return;
+
+      const merged = { ...current, ...profile, endDate: profile.endDate !== undefined ? profile.endDate : current.endDate };
+      const [lastRun] = tx
+        .select()
+        .from(recurringInvoiceRuns)
+        .where(and(eq(recurringInvoiceRuns.profileId, id), eq(recurringInvoiceRuns.status, "created")))
+        .orderBy(desc(recurringInvoiceRuns.scheduledFor))
+        .limit(1)
+        .all();
+      let from = lastRun && addDays(lastRun.scheduledFor, 1).getTime() > merged.startDate.getTime()
+        ? addDays(lastRun.scheduledFor, 1)
+        : merged.startDate;
+      // Periods skipped while paused are not billed on resume
+      if (!current.isActive && merged.isActive && from.getTime() < Date.now()) {
+        from = new Date();
+      }
+
+      tx.update(recurringProfiles)
+        .set({ ...profile, nextRunDate: this.scheduleFrom(merged, from) })
+        .where(eq(recurringProfiles.id, id))
+        .run();
+      tx.delete(recurringProfileLineItems).where(eq(recurringProfileLineItems.profileId, id)).run();
+      this.insertProfileLineItems(tx, id, lineItems);
+    });
+
+    const [updatedProfile] = await db.select().from(recurringProfiles).where(eq(recurringProfiles.id, id));
+    return updatedProfile;
+  }
+
+  async deleteRecurringProfile(id: string): Promise<void> {
+    await db.delete(recurringProfiles).where(eq(recurringProfiles.id, id));
+  }
+
+  async getRecurringRuns(profileId: string): Promise<RecurringInvoiceRun[]> {
+    return await db
+      .select()
+      .from(recurringInvoiceRuns)
+      .where(eq(recurringInvoiceRuns.profileId, profileId))
+      .orderBy(desc(recurringInvoiceRuns.scheduledFor));
+  }
+
+  // Raises an invoice for every period that has come due, oldest first, through the
+  // same insertInvoice path as the API. A failed period is recorded and retried on the
+  // next run; later periods of that profile wait so invoices stay in date order.
+  async runRecurringProfiles(now: Date = new Date()): Promise<{ created: number; failed: number }> {
+    const profiles = await db
+      .select()
+      .from(recurringProfiles)
+      .where(and(eq(recurringProfiles.isActive, true), isNotNull(recurringProfiles.nextRunDate)));
+
+    let created = 0;
+    let failed = 0;
+    for (const profile of profiles) {
+      const lineItems = (await db
+        .select()
+        .from(recurringProfileLineItems)
+        .where(eq(recurringProfileLineItems.profileId, profile.id)))
+        .map(line => ({ ...line, discountType: line.discountType === "percent" ? "percent" as const : "flat" as const }));
+
+      for (const scheduledFor of dueOccurrences(profile, now)) {
+        try {
+          const invoiceData = {
+            customerId: profile.customerId,
+            issueDate: scheduledFor,
+            // The profile sets its own due date rather than the organisation's payment terms
+            paymentTerms: "custom" as const,
+            dueDate: profile.dueInDays != null ? addDays(scheduledFor, profile.dueInDays) : null,
+            discountType: profile.discountType === "percent" ? "percent" as const : "flat" as const,
+            discountValue: profile.discountValue,
+            roundingPolicy: profile.roundingPolicy as RoundingPolicy,
+            status: profile.autoIssue ? "issued" as const : "draft" as const,
+          };
+          // The invoice and its run commit together, and the profile is read again first so a
+          // period that an overlapping run has just billed is not billed a second time
+          const billed = db.transaction((tx) => {
+            const [latest] = tx.select().from(recurringProfiles).where(eq(recurringProfiles.id, profile.id)).all();
+            if (!latest?.isActive || dueOccurrences(latest, now)[0]?.getTime() !== scheduledFor.getTime()) return false;
+
+            const invoiceId = this.insertInvoice(tx, invoiceData, lineItems, profile.sequenceId ?? undefined);
+            this.recordRun(tx, profile, scheduledFor, now, { status: "created", invoiceId, error: null });
+            return true;
+          });
+          if (!billed) break;
+          created++;
+        } catch (error) {
+          db.transaction((tx) => this.recordRun(tx, profile, scheduledFor, now, {
+            status: "failed",
+            invoiceId: null,
+            error: error instanceof Error ? error.message : String(error)
+          }));
+          failed++;
+          break;
+        }
+      }
+    }
+
+    return { created, failed };
+  }
+
+  // Records the outcome for a period; a success also moves the profile on to its next period
+  private recordRun(
+    tx: Transaction,
+    profile: RecurringProfile,
+    scheduledFor: Date,
+    now: Date,
+    outcome: Pick<RecurringInvoiceRun, "status" | "invoiceId" | "error">
+  ): void {
+    tx.insert(recurringInvoiceRuns)
+      .values({ id: crypto.randomUUID(), profileId: profile.id, scheduledFor, ranAt: now, ...outcome })
+      .onConflictDoUpdate({
+        target: [recurringInvoiceRuns.profileId, recurringInvoiceRuns.scheduledFor],
+        set: { ranAt: now, ...outcome },
+      })
+      .run();
+
+    const next = nextOccurrence(scheduledFor, profile.interval, profile.dayOfMonth);
+    tx.update(recurringProfiles)
+      .set({
+        lastRunAt: now,
+        ...(outcome.status === "created"
+          ? { nextRunDate: profile.endDate && next.getTime() > profile.endDate.getTime() ? null : next }
+          : {})
+      })
+      .where(eq(recurringProfiles.id, profile.id))
+      .run();
+  }
+
+  // Number sequences
+  async getNumberSequences(): Promise<NumberSequence[]> {
+    return await db.select().from(numberSequences).orderBy(numberSequences.documentType, numberSequences.name);
+  }
+
+  async createNumberSequence(sequence: InsertNumberSequence): Promise<NumberSequence> {
+    const id = crypto.randomUUID();
+    db.transaction((tx) => {
+      if (sequence.isDefault) this.clearDefaultSequence(tx, sequence.documentType);
+      tx.insert(numberSequences).values({ ...sequence, id }).run();
+    });
+    const [newSequence] = await db.select().from(numberSequences).where(eq(numberSequences.id, id));
+    return newSequence;
+  }
+
+  async updateNumberSequence(id: string, sequence: Partial<InsertNumberSequence>): Promise<NumberSequence> {
+    db.transaction((tx) => {
+      if (sequence.isDefault) {
+        const [current] = tx.select().from(numberSequences).where(eq(numberSequences.id, id)).all();
+        if (current) this.clearDefaultSequence(tx, sequence.documentType ?? current.documentType);
+      }
+      tx.update(numberSequences).set(sequence).where(eq(numberSequences.id, id)).run();
+    });
+    const [updatedSequence] = await db.select().from(numberSequences).where(eq(numberSequences.id, id));
+    return updatedSequence;
+  }
+
+  async previewDocumentNumber(documentType: DocumentType, date: Date, sequenceId?: string): Promise<string> {
+    return db.transaction((tx) => {
+      const sequence = this.resolveSequence(tx, documentType, sequenceId);
+      const period = sequencePeriod(sequence.resetPolicy, date);
+      const [counter] = tx
+        .select()
+        .from(numberSequenceCounters)
+        .where(and(eq(numberSequenceCounters.sequenceId, sequence.id), eq(numberSequenceCounters.period, period)))
+        .all();
+      return formatDocumentNumber(sequence.pattern, counter?.nextValue ?? sequence.startValue, date);
+    });
+  }
+
+  private clearDefaultSequence(tx: Transaction, documentType: string): void {
+    tx.update(numberSequences)
+      .set({ isDefault: false })
+      .where(eq(numberSequences.documentType, documentType))
+      .run();
+  }
+
+  // The requested sequence, else the default for the document type, created on first use
+  private resolveSequence(tx: Transaction, documentType: DocumentType, sequenceId?: string): NumberSequence {
+    if (sequenceId) {
+      const [sequence] = tx.select().from(numberSequences).where(eq(numberSequences.id, sequenceId)).all();
+      if (!sequence || sequence.documentType !== documentType) {
+        throw new Error(`Number sequence ${sequenceId} does not exist for ${documentType}`);
+      }
+      return sequence;
+    }
+
+    const [sequence] = tx
+      .select()
+      .from(numberSequences)
+      .where(eq(numberSequences.documentType, documentType))
+      .orderBy(desc(numberSequences.isDefault), numberSequences.createdAt)
+      .limit(1)
+      .all();
+    if (sequence) return sequence;
+
+    const id = crypto.randomUUID();
+    tx.insert(numberSequences).values({
+      id,
+      name: `Default ${documentType.replace(/_/g, " ")}`,
+      documentType,
+      pattern: defaultSequencePatterns[documentType],
+      isDefault: true,
+    }).run();
+    const [created] = tx.select().from(numberSequences).where(eq(numberSequences.id, id)).all();
+    return created;
+  }
+
+  // Skips over numbers a document was given by hand, so an allocated number never collides
+  private allocateNumber(tx: Transaction, documentType: DocumentType, date: Date, sequenceId?: string): string {
+    const sequence = this.resolveSequence(tx, documentType, sequenceId);
+    const period = sequencePeriod(sequence.resetPolicy, date);
+    for (;;) {
+      const [counter] = tx
+        .insert(numberSequenceCounters)
+        .values({ sequenceId: sequence.id, period, nextValue: sequence.startValue + 1 })
+        .onConflictDoUpdate({
+          target: [numberSequenceCounters.sequenceId, numberSequenceCounters.period],
+          set: { nextValue: sql`${numberSequenceCounters.nextValue} + 1` },
+        })
+        .returning()
+        .all();
+      const number = formatDocumentNumber(sequence.pattern, counter.nextValue - 1, date);
+      if (!this.isNumberTaken(tx, documentType, number)) return number;
+    }
+  }
+
+  // Invoices and notes share one set of numbers; estimates have their own
+  private isNumberTaken(tx: Pick<Transaction, "select">, documentType: DocumentType, number: string, exceptId?: string): boolean {
+    const taken = documentType === "estimate"
+      ? tx.select({ id: estimates.id }).from(estimates)
+          .where(and(eq(estimates.estimateNumber, number), exceptId ? ne(estimates.id, exceptId) : undefined)).all()
+      : tx.select({ id: invoices.id }).from(invoices)
+          .where(and(eq(invoices.invoiceNumber, number), exceptId ? ne(invoices.id, exceptId) : undefined)).all();
+    return taken.length > 0;
+  }
+
+  private assertNumberFree(tx: Pick<Transaction, "select">, documentType: DocumentType, number: string, exceptId?: string) {
+    if (this.isNumberTaken(tx, documentType, number, exceptId)) {
+      throw new DuplicateNumberError(number);
+    }
+  }
+
   // Templates
   async getTemplates(): Promise<Template[]> {
     return await db.select().from(templates).orderBy(desc(templates.createdAt));
@@ -385,6 +2040,129 @@ export class DatabaseStorage implements IStorage {
   async deleteTemplate(id: string): Promise<void> {
     await db.delete(templates).where(eq(templates.id, id));
   }
+
+  // Trash
+  async getTrash(): Promise<TrashEntry[]> {
+    const { trashRetentionDays } = await this.getSettings();
+    const [trashedInvoices, trashedCustomers, trashedItems] = await Promise.all([
+      db.select({ id: invoices.id, name: invoices.invoiceNumber, deletedAt: invoices.deletedAt }).from(invoices).where(isNotNull(invoices.deletedAt)),
+      db.select({ id: customers.id, name: customers.name, deletedAt: customers.deletedAt }).from(customers).where(isNotNull(customers.deletedAt)),
+      db.select({ id: items.id, name: items.name, deletedAt: items.deletedAt }).from(items).where(isNotNull(items.deletedAt)),
+    ]);
+
+    const entries = (type: TrashEntityType, rows: { id: string; name: string; deletedAt: Date | null }[]): TrashEntry[] =>
+      rows.map(row => ({
+        type,
+        id: row.id,
+        name: row.name,
+        deletedAt: row.deletedAt!,
+        purgeAt: purgeDate(row.deletedAt!, trashRetentionDays),
+      }));
+
+    return [
+      ...entries("invoice", trashedInvoices),
+      ...entries("customer", trashedCustomers),
+      ...entries("item", trashedItems),
+    ].sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  }
+
+  // False if there is no such record in the trash
+  async restoreFromTrash(type: TrashEntityType, id: string): Promise<boolean> {
+    const table = trashTables[type];
+    const result = await db
+      .update(table)
+      .set({ deletedAt: null })
+      .where(and(eq(table.id, id), isNotNull(table.deletedAt)));
+    return result.changes > 0;
+  }
+
+  // Deletes a trashed record for good. Anything still pointing at it, such as invoices
+  // for a customer or estimates for an item, keeps it in the trash.
+  async purgeFromTrash(type: TrashEntityType, id: string): Promise<boolean> {
+    const table = trashTables[type];
+    let result;
+    try {
+      result = await db.delete(table).where(and(eq(table.id, id), isNotNull(table.deletedAt)));
+    } catch (error) {
+      if (isForeignKeyError(error)) {
+        throw new TrashError(`This ${trashEntityLabels[type].toLowerCase()} is still used elsewhere and cannot be deleted permanently`);
+      }
+      throw error;
+    }
+    if (result.changes === 0) return false;
+
+    // The invoice's rows went with it; its files have to be removed separately
+    if (type === "invoice") await removeInvoiceAttachmentFiles(id);
+    return true;
+  }
+
+  // Purges everything deleted longer ago than the retention period. A record that is still
+  // in use stays in the trash and is tried again on the next run.
+  async purgeExpiredTrash(now: Date = new Date()): Promise<{ purged: number; kept: number }> {
+    const { trashRetentionDays } = await this.getSettings();
+    const cutoff = purgeDate(now, -trashRetentionDays);
+
+    let purged = 0;
+    let kept = 0;
+    for (const type of trashEntityTypes) {
+      const table = trashTables[type];
+      const expired = await db.select({ id: table.id }).from(table).where(lte(table.deletedAt, cutoff));
+      for (const { id } of expired) {
+        try {
+          if (await this.purgeFromTrash(type, id)) purged++;
+        } catch (error) {
+          if (!(error instanceof TrashError)) throw error;
+          kept++;
+        }
+      }
+    }
+    return { purged, kept };
+  }
+
+  // Organisation settings. The single row is created with its defaults on first use.
+  private readSettings(tx: Pick<Transaction, "select" | "insert">): OrganisationSettings {
+    tx.insert(organisationSettings).values({ id: "default", updatedAt: new Date() }).onConflictDoNothing().run();
+    return tx.select().from(organisationSettings).where(eq(organisationSettings.id, "default")).all()[0];
+  }
+
+  async getSettings(): Promise<OrganisationSettings> {
+    return this.readSettings(db);
+  }
+
+  async updateSettings(settings: Partial<InsertOrganisationSettings>): Promise<OrganisationSettings> {
+    return db.transaction((tx) => {
+      this.readSettings(tx);
+      tx.update(organisationSettings)
+        .set({ ...settings, updatedAt: new Date() })
+        .where(eq(organisationSettings.id, "default"))
+        .run();
+      return this.readSettings(tx);
+    });
+  }
+
+  // Best matches first, with a title hit counting well above one in the details
+  async search(text: string, limit = maxSearchResults): Promise<SearchResult[]> {
+    const match = matchQuery(text);
+    if (!match) return [];
+
+    const rows = await db.all<{ type: SearchEntityType; id: string; title: string; snippet: string }>(sql`
+      SELECT
+        entity_type AS type,
+        entity_id AS id,
+        highlight(search_index, 2, ${highlightStart}, ${highlightEnd}) AS title,
+        snippet(search_index, 3, ${highlightStart}, ${highlightEnd}, '…', 12) AS snippet
+      FROM search_index
+      WHERE search_index MATCH ${match}
+      ORDER BY bm25(search_index, 0, 0, 10, 1)
+      LIMIT ${limit}
+    `);
+    return rows.map(row => ({
+      type: row.type,
+      id: row.id,
+      title: highlightParts(row.title),
+      snippet: highlightParts(row.snippet),
+    }));
+  }
 }
 
 export const storage = new DatabaseStorage();
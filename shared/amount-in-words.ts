@@ -0,0 +1,69 @@
+import type { Paise } from "./money";
+
+// Spells out amounts for the "amount in words" line on tax invoices, e.g.
+// "Rupees One Lakh Twenty Thousand and Fifty Paise Only". Rupees use the Indian
+// system (thousand, lakh, crore); other currencies use million and billion.
+
+export type NumberingSystem = "indian" | "international";
+
+export interface CurrencyWords {
+  major: string; // plural name of the main unit, e.g. Rupees
+  minor: string; // e.g. Paise
+  system: NumberingSystem;
+}
+
+export const currencyWords: Record<string, CurrencyWords> = {
+  INR: { major: "Rupees", minor: "Paise", system: "indian" },
+  USD: { major: "Dollars", minor: "Cents", system: "international" },
+  EUR: { major: "Euros", minor: "Cents", system: "international" },
+  GBP: { major: "Pounds", minor: "Pence", system: "international" },
+  AED: { major: "Dirhams", minor: "Fils", system: "international" },
+};
+
+const ones = [
+  "Zero", "One", "Two", "Three", "Four", "Five", "Six", "Seven", "Eight", "Nine", "Ten",
+  "Eleven", "Twelve", "Thirteen", "Fourteen", "Fifteen", "Sixteen", "Seventeen", "Eighteen", "Nineteen",
+];
+const tens = ["", "", "Twenty", "Thirty", "Forty", "Fifty", "Sixty", "Seventy", "Eighty", "Ninety"];
+
+// Largest unit first; anything above the largest is spelt recursively ("Ten Lakh Crore")
+const scales: Record<NumberingSystem, [number, string][]> = {
+  indian: [[10_000_000, "Crore"], [100_000, "Lakh"], [1_000, "Thousand"], [100, "Hundred"]],
+  international: [[1_000_000_000_000, "Trillion"], [1_000_000_000, "Billion"], [1_000_000, "Million"], [1_000, "Thousand"], [100, "Hundred"]],
+};
+
+function belowHundred(n: number): string {
+  if (n < 20) return ones[n];
+  return n % 10 === 0 ? tens[Math.floor(n / 10)] : `${tens[Math.floor(n / 10)]} ${ones[n % 10]}`;
+}
+
+// Whole numbers only, e.g. 120050 -> "One Lakh Twenty Thousand Fifty"
+export function numberToWords(value: number, system: NumberingSystem = "indian"): string {
+  const n = Math.floor(Math.abs(value));
+  if (n === 0) return ones[0];
+
+  const words: string[] = [];
+  let rest = n;
+  for (const [size, name] of scales[system]) {
+    if (rest >= size) {
+      words.push(`${numberToWords(Math.floor(rest / size), system)} ${name}`);
+      rest %= size;
+    }
+  }
+  if (rest > 0) words.push(belowHundred(rest));
+
+  return `${value < 0 ? "Minus " : ""}${words.join(" ")}`;
+}
+
+export function amountInWords(amount: Paise, currency = "INR"): string {
+  const { major, minor, system } = currencyWords[currency] ?? currencyWords.INR;
+  const total = Math.abs(Math.round(Number(amount)));
+  const whole = Math.floor(total / 100);
+  const fraction = total % 100;
+
+  const parts: string[] = [];
+  if (whole > 0 || fraction === 0) parts.push(`${major} ${numberToWords(whole, system)}`);
+  if (fraction > 0) parts.push(`${numberToWords(fraction, system)} ${minor}`);
+
+  return `${amount < 0 ? "Minus " : ""}${parts.join(" and ")} Only`;
+}
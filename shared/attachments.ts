@@ -0,0 +1,31 @@
+// Files attached to invoices: signed delivery receipts, purchase orders, timesheets.
+// The server enforces these limits; the client uses them to reject a file before upload.
+
+export const maxAttachmentSize = 10 * 1024 * 1024; // bytes
+
+export const maxAttachmentsPerInvoice = 20;
+
+// Accepted content types and the extension each is stored with
+export const attachmentTypes: Record<string, string> = {
+  "application/pdf": ".pdf",
+  "image/png": ".png",
+  "image/jpeg": ".jpg",
+  "image/webp": ".webp",
+  "text/plain": ".txt",
+  "text/csv": ".csv",
+  "application/msword": ".doc",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": ".docx",
+  "application/vnd.ms-excel": ".xls",
+  "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": ".xlsx",
+};
+
+export const isAllowedAttachmentType = (mimeType: string): boolean => mimeType in attachmentTypes;
+
+// For the file picker's accept attribute
+export const attachmentAccept = Object.keys(attachmentTypes).join(",");
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
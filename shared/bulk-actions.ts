@@ -0,0 +1,39 @@
+import type { InvoiceStatus } from "./invoice-status";
+
+// Actions that can be applied to many invoices at once. Each invoice is checked on its
+// own, exactly as if the action had been taken on it alone; the ones that pass are saved
+// together and the rest are reported back with the reason.
+export type BulkInvoiceAction = "issue" | "send" | "cancel" | "delete";
+
+export const bulkInvoiceActions: [BulkInvoiceAction, ...BulkInvoiceAction[]] = ["issue", "send", "cancel", "delete"];
+
+// The status each transition moves an invoice to; delete moves it to the trash instead
+export const bulkActionStatuses: Partial<Record<BulkInvoiceAction, InvoiceStatus>> = {
+  issue: "issued",
+  send: "sent",
+  cancel: "cancelled",
+};
+
+export const bulkActionLabels: Record<BulkInvoiceAction, string> = {
+  issue: "Issue",
+  send: "Mark as sent",
+  cancel: "Cancel",
+  delete: "Delete",
+};
+
+// Per request, for both actions and PDF export
+export const maxBulkInvoices = 200;
+
+export interface BulkActionResult {
+  id: string;
+  invoiceNumber: string | null; // null when there is no such invoice
+  ok: boolean;
+  error: string | null;
+}
+
+export interface BulkActionReport {
+  action: BulkInvoiceAction;
+  succeeded: number;
+  failed: number;
+  results: BulkActionResult[];
+}
@@ -0,0 +1,49 @@
+// Estimate lifecycle. Drafts and sent estimates can still be revised; the customer's
+// answer settles it, and an unanswered estimate expires once its validity date passes.
+//
+//   draft -> sent -> accepted | declined
+//   draft, sent -> expired                  (set by the expiry job)
+//   draft, sent, accepted -> converted into an invoice (recorded on convertedInvoiceId)
+
+export const estimateStatuses = ["draft", "sent", "accepted", "declined", "expired"] as const;
+
+export type EstimateStatus = (typeof estimateStatuses)[number];
+
+export const estimateStatusLabels: Record<EstimateStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  accepted: "Accepted",
+  declined: "Declined",
+  expired: "Expired",
+};
+
+export const manualEstimateTransitions: Record<EstimateStatus, EstimateStatus[]> = {
+  draft: ["sent", "accepted", "declined"],
+  sent: ["accepted", "declined"],
+  accepted: [],
+  declined: [],
+  expired: [],
+};
+
+// Statuses the expiry job watches
+export const pendingEstimateStatuses: EstimateStatus[] = ["draft", "sent"];
+
+export const canTransitionEstimate = (from: string, to: string): boolean =>
+  (manualEstimateTransitions[from as EstimateStatus] || []).includes(to as EstimateStatus);
+
+export const isEstimateEditable = (status: string): boolean =>
+  pendingEstimateStatuses.includes(status as EstimateStatus);
+
+// Converting an estimate also accepts it, so anything the customer has not turned down qualifies
+export const isConvertible = (estimate: { status: string; convertedInvoiceId: string | null }): boolean =>
+  !estimate.convertedInvoiceId && ["draft", "sent", "accepted"].includes(estimate.status);
+
+export const estimateStatusLabel = (status: string): string =>
+  estimateStatusLabels[status as EstimateStatus] || status;
+
+// Past its validity once the whole valid-until date has gone by
+export function isEstimateExpired(estimate: { validUntil: Date | string | null }, now: Date = new Date()): boolean {
+  if (!estimate.validUntil) return false;
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return new Date(estimate.validUntil).getTime() < startOfToday.getTime();
+}
@@ -0,0 +1,146 @@
+import type { Invoice, InvoiceLineItem, InvoiceLineTax } from "./schema";
+
+// Every save of an invoice records the header and lines as they stood afterwards. A
+// revision is stored as JSON, so dates in a snapshot are ISO strings.
+type Jsonified<T> = { [K in keyof T]: T[K] extends Date ? string : T[K] extends Date | null ? string | null : T[K] };
+
+export type SnapshotValue = string | number | boolean | null;
+
+export type SnapshotHeader = Jsonified<Omit<Invoice, "id" | "createdAt">>;
+
+export type SnapshotLineTax = Omit<InvoiceLineTax, "id" | "invoiceId" | "lineItemId">;
+
+// Revisions saved before lines kept their id across saves have no line id
+export type SnapshotLine = Omit<InvoiceLineItem, "id" | "invoiceId"> & { id?: string; taxes: SnapshotLineTax[] };
+
+export interface InvoiceSnapshot {
+  header: SnapshotHeader;
+  lines: SnapshotLine[];
+}
+
+export function toSnapshot(invoice: Invoice, lines: (InvoiceLineItem & { taxes: InvoiceLineTax[] })[]): InvoiceSnapshot {
+  const { id: _id, createdAt: _createdAt, ...header } = invoice;
+  return JSON.parse(JSON.stringify({
+    header,
+    lines: lines.map(({ invoiceId: _invoiceId, taxes, ...line }) => ({
+      ...line,
+      taxes: taxes.map(({ id: _taxId, invoiceId: _taxInvoiceId, lineItemId: _lineItemId, ...tax }) => tax),
+    })),
+  }));
+}
+
+export const headerFieldLabels: Partial<Record<keyof SnapshotHeader, string>> = {
+  invoiceNumber: "Invoice number",
+  customerId: "Customer",
+  issueDate: "Issue date",
+  dueDate: "Due date",
+  paymentTerms: "Payment terms",
+  notes: "Notes",
+  terms: "Terms & conditions",
+  noteReason: "Reason",
+  discountType: "Discount type",
+  discountValue: "Discount",
+  roundingPolicy: "Rounding",
+  subtotal: "Subtotal",
+  totalTax: "Tax",
+  discount: "Discount amount",
+  roundOff: "Round off",
+  total: "Total",
+  amountPaid: "Amount paid",
+  amountCredited: "Amount credited",
+  status: "Status",
+  cancellationReason: "Cancellation reason",
+};
+
+export const lineFieldLabels: Partial<Record<keyof SnapshotLine, string>> = {
+  itemName: "Item",
+  description: "Description",
+  hsnSac: "HSN/SAC",
+  quantity: "Quantity",
+  unit: "Unit",
+  unitPrice: "Unit price",
+  discountType: "Discount type",
+  discountValue: "Discount",
+  discount: "Discount amount",
+  total: "Amount",
+  taxes: "Taxes",
+};
+
+// Fields held in paise, for display
+export const moneyFields = new Set<string>([
+  "subtotal", "totalTax", "discount", "roundOff", "total", "amountPaid", "amountCredited", "unitPrice",
+]);
+
+export const dateFields = new Set<string>(["issueDate", "dueDate"]);
+
+export interface FieldChange {
+  field: string;
+  label: string;
+  before: SnapshotValue;
+  after: SnapshotValue;
+}
+
+export interface LineChange {
+  kind: "added" | "removed" | "changed";
+  name: string; // what the line prints as
+  changes: FieldChange[]; // every field for an added or removed line
+}
+
+export interface RevisionDiff {
+  from: number;
+  to: number;
+  header: FieldChange[];
+  lines: LineChange[];
+}
+
+const taxSummary = (taxes: SnapshotLineTax[]): string =>
+  taxes.map(tax => `${tax.taxName} ${tax.rate}%`).join(", ");
+
+const lineValue = (line: SnapshotLine, field: keyof SnapshotLine): SnapshotValue =>
+  field === "taxes" ? taxSummary(line.taxes) : line[field] as SnapshotValue;
+
+const lineName = (line: SnapshotLine): string => line.itemName ?? line.description ?? "Line";
+
+// A line is matched to the earlier revision's line with the same id. Where either revision
+// predates stable line ids, it falls back to the same item, or the same text for an ad-hoc line.
+const lineKey = (line: SnapshotLine): string => line.itemId ?? `text:${line.description ?? ""}`;
+const isSameLine = (before: SnapshotLine, after: SnapshotLine): boolean =>
+  before.id && after.id ? before.id === after.id : lineKey(before) === lineKey(after);
+
+function compareFields<T>(
+  labels: Partial<Record<keyof T, string>>,
+  before: T | undefined,
+  after: T | undefined,
+  value: (row: T, field: keyof T) => SnapshotValue
+): FieldChange[] {
+  return (Object.keys(labels) as (keyof T)[]).flatMap(field => {
+    const beforeValue = before ? value(before, field) ?? null : null;
+    const afterValue = after ? value(after, field) ?? null : null;
+    if (before && after && beforeValue === afterValue) return [];
+    if (!before && afterValue === null) return [];
+    if (!after && beforeValue === null) return [];
+    return [{ field: String(field), label: labels[field]!, before: beforeValue, after: afterValue }];
+  });
+}
+
+export function diffSnapshots(before: InvoiceSnapshot, after: InvoiceSnapshot): Pick<RevisionDiff, "header" | "lines"> {
+  const header = compareFields(headerFieldLabels, before.header, after.header, (row, field) => row[field] as SnapshotValue);
+
+  const unmatched = [...before.lines];
+  const lines: LineChange[] = [];
+  for (const line of after.lines) {
+    const match = unmatched.findIndex(candidate => isSameLine(candidate, line));
+    if (match === -1) {
+      lines.push({ kind: "added", name: lineName(line), changes: compareFields(lineFieldLabels, undefined, line, lineValue) });
+      continue;
+    }
+    const [previous] = unmatched.splice(match, 1);
+    const changes = compareFields(lineFieldLabels, previous, line, lineValue);
+    if (changes.length > 0) lines.push({ kind: "changed", name: lineName(line), changes });
+  }
+  for (const line of unmatched) {
+    lines.push({ kind: "removed", name: lineName(line), changes: compareFields(lineFieldLabels, line, undefined, lineValue) });
+  }
+
+  return { header, lines };
+}
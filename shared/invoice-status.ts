@@ -0,0 +1,52 @@
+// Invoice lifecycle. Only drafts can be edited or deleted; once issued, an invoice
+// is corrected by cancelling it (the number stays used) or through a credit note.
+//
+//   draft -> issued -> sent
+//   issued, sent, overdue -> cancelled        (only while no payments are recorded)
+//   issued, sent, overdue <-> partially_paid, paid    (derived from payments)
+//   issued, sent, overdue <-> credited                 (derived from credit notes, with no payments)
+//   issued, sent, partially_paid <-> overdue           (derived from the due date)
+
+export const invoiceStatuses = ["draft", "issued", "sent", "partially_paid", "paid", "credited", "overdue", "cancelled"] as const;
+
+export type InvoiceStatus = (typeof invoiceStatuses)[number];
+
+export const invoiceStatusLabels: Record<InvoiceStatus, string> = {
+  draft: "Draft",
+  issued: "Issued",
+  sent: "Sent",
+  partially_paid: "Partially Paid",
+  paid: "Paid",
+  credited: "Credited",
+  overdue: "Overdue",
+  cancelled: "Cancelled",
+};
+
+// Transitions a user may request; payment and overdue states are only ever set by the system
+export const manualTransitions: Record<InvoiceStatus, InvoiceStatus[]> = {
+  draft: ["issued"],
+  issued: ["sent", "cancelled"],
+  sent: ["cancelled"],
+  partially_paid: [],
+  paid: [],
+  credited: [],
+  overdue: ["cancelled"],
+  cancelled: [],
+};
+
+// Statuses an invoice may be created in
+export const initialStatuses: InvoiceStatus[] = ["draft", "issued"];
+
+// Unpaid statuses the overdue job watches
+export const openStatuses: InvoiceStatus[] = ["issued", "sent", "partially_paid", "overdue"];
+
+// Payments can be recorded against issued, unsettled or already settled invoices
+export const payableStatuses: InvoiceStatus[] = ["issued", "sent", "partially_paid", "paid", "credited", "overdue"];
+
+export const canTransition = (from: string, to: string): boolean =>
+  (manualTransitions[from as InvoiceStatus] || []).includes(to as InvoiceStatus);
+
+export const isEditable = (status: string): boolean => status === "draft";
+
+export const statusLabel = (status: string): string =>
+  invoiceStatusLabels[status as InvoiceStatus] || status;
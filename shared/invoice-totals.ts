@@ -0,0 +1,175 @@
+// Pure invoice calculation shared by the server (authoritative) and the
+// invoice form (preview), so stored and displayed totals never diverge.
+// All amounts are integer paise; see shared/money.ts for the rounding rule.
+//
+// Discounts are applied before tax, as GST requires tax on the discounted value:
+//   1. each line's own discount comes off its gross amount (quantity x rate, to the paisa),
+//   2. the invoice-level discount is spread over the lines in proportion to
+//      their discounted amounts,
+//   3. tax is computed per line on what remains (the taxable amount).
+// The grand total is then rounded by the invoice's rounding policy (shared/rounding.ts).
+
+import {
+  divideRounded, fromBasisPoints, fromPaise, percentOf, toBasisPoints, toPaise, type BasisPoints, type Paise
+} from "./money";
+import { applyRounding, type RoundingPolicy } from "./rounding";
+import { lineAmount } from "./units";
+
+export type DiscountType = "flat" | "percent";
+
+export const discountTypes: DiscountType[] = ["flat", "percent"];
+
+// A flat value is in paise, a percentage in basis points
+export interface Discount {
+  type?: DiscountType | string | null;
+  value?: Paise | BasisPoints | string | null;
+}
+
+export interface TaxRate {
+  id?: string;
+  name: string;
+  percentage: number; // as configured on the tax, e.g. 18
+}
+
+export interface LineInput {
+  quantity: number;
+  unitPrice: Paise;
+  taxes: TaxRate[];
+  discount?: Discount;
+}
+
+export interface LineTax extends TaxRate {
+  amount: Paise;
+}
+
+export interface LineTotals {
+  grossAmount: Paise;
+  discount: Paise;
+  // Line amount after its own discount, before tax
+  lineTotal: Paise;
+  // Line amount after its share of the invoice discount; tax is charged on this
+  taxableAmount: Paise;
+  taxes: LineTax[];
+  taxAmount: Paise;
+}
+
+export interface TotalsOptions {
+  discount?: Discount;
+  // Applied to the grand total only; the difference is reported as roundOff
+  rounding?: RoundingPolicy | string | null;
+}
+
+export interface InvoiceTotals {
+  lines: LineTotals[];
+  taxes: LineTax[];
+  subtotal: Paise;
+  discount: Paise;
+  taxableAmount: Paise;
+  totalTax: Paise;
+  roundOff: Paise;
+  total: Paise;
+}
+
+export type TotalsSummary = Pick<InvoiceTotals, "subtotal" | "totalTax" | "total">;
+
+// Forms take discounts in rupees or percent; stored values are scaled by 100 either way
+export const toDiscountValue = (type: string | null | undefined, input: number | string | null | undefined): Paise | BasisPoints =>
+  type === "percent" ? toBasisPoints(input) : toPaise(input);
+
+export const fromDiscountValue = (type: string | null | undefined, value: Paise | BasisPoints): number =>
+  type === "percent" ? fromBasisPoints(value) : fromPaise(value);
+
+const sum = (amounts: Paise[]): Paise => amounts.reduce((total, amount) => total + amount, 0);
+
+// Resolves a discount to an amount, never negative and never more than the base
+export function discountAmount(base: Paise, discount?: Discount): Paise {
+  const value = Math.max(Math.round(Number(discount?.value)) || 0, 0);
+  const amount = discount?.type === "percent" ? percentOf(base, Math.min(value, 10000)) : value;
+  return Math.min(amount, Math.max(base, 0));
+}
+
+// Each tax is rounded on its own, per line, before anything is summed
+function taxLine(taxableAmount: Paise, taxes: TaxRate[]): Pick<LineTotals, "taxes" | "taxAmount"> {
+  const lineTaxes = taxes.map((tax) => ({
+    ...tax,
+    amount: percentOf(taxableAmount, toBasisPoints(tax.percentage)),
+  }));
+
+  return {
+    taxes: lineTaxes,
+    taxAmount: sum(lineTaxes.map((tax) => tax.amount)),
+  };
+}
+
+export function calculateLineTotals(line: LineInput): LineTotals {
+  const quantity = Number(line.quantity) || 0;
+  const unitPrice = Math.round(Number(line.unitPrice)) || 0;
+  const grossAmount = lineAmount(quantity, unitPrice);
+  const discount = discountAmount(grossAmount, line.discount);
+  const lineTotal = grossAmount - discount;
+
+  return {
+    grossAmount,
+    discount,
+    lineTotal,
+    taxableAmount: lineTotal,
+    ...taxLine(lineTotal, line.taxes),
+  };
+}
+
+export function calculateInvoiceTotals(lineItems: LineInput[], options: TotalsOptions = {}): InvoiceTotals {
+  const baseLines = lineItems.map(calculateLineTotals);
+  const subtotal = sum(baseLines.map((line) => line.lineTotal));
+  const discount = discountAmount(subtotal, options.discount);
+
+  // Spread the invoice discount pro rata; the largest line absorbs any rounding remainder
+  const shares = baseLines.map((line) =>
+    subtotal === 0 ? 0 : divideRounded(discount * line.lineTotal, subtotal)
+  );
+  if (baseLines.length > 0) {
+    const largest = baseLines.reduce((best, line, index) => (line.lineTotal > baseLines[best].lineTotal ? index : best), 0);
+    shares[largest] += discount - sum(shares);
+  }
+
+  const lines = baseLines.map((line, index) => {
+    if (shares[index] === 0) return line;
+    const taxableAmount = line.lineTotal - shares[index];
+    return { ...line, taxableAmount, ...taxLine(taxableAmount, lineItems[index].taxes) };
+  });
+
+  // Per-tax summary keyed by name and rate, in first-seen order
+  const taxSummary = new Map<string, LineTax>();
+  lines.forEach((line) => {
+    line.taxes.forEach((tax) => {
+      const key = `${tax.name}|${tax.percentage}`;
+      const existing = taxSummary.get(key);
+      if (existing) {
+        existing.amount += tax.amount;
+      } else {
+        taxSummary.set(key, { ...tax });
+      }
+    });
+  });
+
+  const taxableAmount = subtotal - discount;
+  const totalTax = sum(lines.map((line) => line.taxAmount));
+  const beforeRounding = taxableAmount + totalTax;
+
+  const total = applyRounding(beforeRounding, options.rounding);
+
+  return {
+    lines,
+    taxes: Array.from(taxSummary.values()),
+    subtotal,
+    discount,
+    taxableAmount,
+    totalTax,
+    roundOff: total - beforeRounding,
+    total,
+  };
+}
+
+// Amounts are exact paise, so client and server totals must agree exactly
+export function totalsMatch(a: TotalsSummary, b: TotalsSummary): boolean {
+  return Number(a.subtotal) === b.subtotal && Number(a.totalTax) === b.totalTax && Number(a.total) === b.total;
+}
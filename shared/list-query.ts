@@ -0,0 +1,94 @@
+import { z } from "zod";
+import { invoiceStatuses } from "./invoice-status";
+import { paiseSchema } from "./money";
+
+// Paging, filtering and sorting for the invoice, customer and item lists. A list endpoint
+// always returns a Page; without a limit it holds the whole filtered list, which the
+// pickers in the forms rely on.
+
+export const defaultPageSize = 25;
+
+export const maxPageSize = 100;
+
+export type SortOrder = "asc" | "desc";
+
+export interface Page<T> {
+  data: T[];
+  total: number; // matching rows across all pages
+  limit: number;
+  offset: number;
+}
+
+// Query strings carry everything as text, and an empty field means no filter
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess(value => (value === "" ? undefined : value), schema.optional());
+
+const listQuery = {
+  limit: optional(z.coerce.number().int().min(1).max(maxPageSize)),
+  offset: z.coerce.number().int().min(0).default(0),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  search: optional(z.string().trim().min(1)),
+};
+
+// status=issued,overdue
+const statusList = z
+  .string()
+  .transform(value => value.split(",").map(status => status.trim()).filter(Boolean))
+  .pipe(z.array(z.enum(invoiceStatuses)).min(1));
+
+export const invoiceSortKeys = ["createdAt", "issueDate", "dueDate", "invoiceNumber", "customer", "total"] as const;
+export type InvoiceSortKey = (typeof invoiceSortKeys)[number];
+
+export const invoiceListQuerySchema = z.object({
+  ...listQuery,
+  sort: z.enum(invoiceSortKeys).default("createdAt"),
+  status: optional(statusList),
+  customerId: optional(z.string()),
+  // Dates are whole days; the "to" end includes the day itself
+  issuedFrom: optional(z.coerce.date()),
+  issuedTo: optional(z.coerce.date()),
+  dueFrom: optional(z.coerce.date()),
+  dueTo: optional(z.coerce.date()),
+  minTotal: optional(paiseSchema),
+  maxTotal: optional(paiseSchema),
+});
+
+export type InvoiceListQuery = z.infer<typeof invoiceListQuerySchema>;
+
+// Date filters arrive as the start of a day; the "to" end is compared against the start of the next
+export const dayAfter = (date: Date): Date => new Date(date.getTime() + 24 * 60 * 60 * 1000);
+
+export const customerSortKeys = ["createdAt", "name", "email"] as const;
+export type CustomerSortKey = (typeof customerSortKeys)[number];
+
+export const customerListQuerySchema = z.object({
+  ...listQuery,
+  sort: z.enum(customerSortKeys).default("createdAt"),
+});
+
+export type CustomerListQuery = z.infer<typeof customerListQuerySchema>;
+
+export const itemSortKeys = ["createdAt", "name", "unitPrice"] as const;
+export type ItemSortKey = (typeof itemSortKeys)[number];
+
+export const itemListQuerySchema = z.object({
+  ...listQuery,
+  sort: z.enum(itemSortKeys).default("createdAt"),
+});
+
+export type ItemListQuery = z.infer<typeof itemListQuerySchema>;
+
+// Builds the query string for a list request, leaving out anything unset
+export function listQueryString(params: Record<string, string | number | Date | string[] | null | undefined>): string {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value === null || value === undefined || value === "") continue;
+    if (Array.isArray(value)) {
+      if (value.length > 0) search.set(key, value.join(","));
+    } else {
+      search.set(key, value instanceof Date ? value.toISOString() : String(value));
+    }
+  }
+  const query = search.toString();
+  return query ? `?${query}` : "";
+}
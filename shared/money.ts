@@ -0,0 +1,50 @@
+import { z } from "zod";
+
+// Money is held as integer paise (1/100 rupee) in the database, over the API and in
+// calculations, so sums are exact. Rupees only appear where people type or read
+// amounts: forms convert with toPaise on the way in and formatMoney on the way out.
+//
+// Rounding rule: any step that can produce a fraction of a paisa (a percentage of an
+// amount) is rounded to the nearest paisa, halves away from zero, as soon as it is
+// computed. Per line that is the line discount and each tax; per invoice it is the
+// invoice discount. Everything else is a sum of already-rounded paise.
+export type Paise = number;
+
+// Percentages in discounts are held on the same scale as paise: hundredths of a
+// percent (basis points), so 18% is 1800 and 12.5% is 1250
+export type BasisPoints = number;
+
+// Scales a decimal by 100 to an integer without float artefacts (1.005 -> 101, not 100)
+const hundredths = (value: number | string | null | undefined): number => {
+  const number = Number(value);
+  if (!Number.isFinite(number)) return 0;
+  return Math.round(Number((number * 100).toPrecision(15)));
+};
+
+export const toPaise = (rupees: number | string | null | undefined): Paise => hundredths(rupees);
+
+export const toBasisPoints = (percent: number | string | null | undefined): BasisPoints => hundredths(percent);
+
+// For form inputs, which edit rupees and percentages
+export const fromPaise = (paise: Paise): number => Number(paise) / 100;
+
+export const fromBasisPoints = (basisPoints: BasisPoints): number => Number(basisPoints) / 100;
+
+// Integer division rounded to the nearest whole number, halves away from zero
+export function divideRounded(numerator: number, denominator: number): number {
+  const quotient = Math.floor((2 * Math.abs(numerator) + denominator) / (2 * denominator));
+  return numerator < 0 ? -quotient : quotient;
+}
+
+export const percentOf = (amount: Paise, basisPoints: BasisPoints): Paise =>
+  divideRounded(amount * basisPoints, 10000);
+
+const rupeeFormat = new Intl.NumberFormat("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatMoney = (paise: Paise | string): string => {
+  const amount = Number(paise);
+  return `${amount < 0 ? "-" : ""}₹${rupeeFormat.format(Math.abs(amount) / 100)}`;
+};
+
+// Request bodies carry paise; fractional values mean the client sent rupees
+export const paiseSchema = z.coerce.number().int("Amounts must be whole paise");
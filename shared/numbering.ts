@@ -0,0 +1,71 @@
+// Document number patterns, e.g. "INV/{FY}/{seq:0000}" -> "INV/2025-26/0042".
+//
+// Supported tokens:
+//   {FY}        financial year, "2025-26"
+//   {FY_SHORT}  financial year, "25-26"
+//   {YYYY} {YY} {MM}  calendar year and month of the document date
+//   {seq}       the counter, {seq:0000} zero-pads it to the given width
+
+export type DocumentType = "invoice" | "credit_note" | "debit_note" | "estimate";
+
+export const documentTypes: DocumentType[] = ["invoice", "credit_note", "debit_note", "estimate"];
+
+// Credit and debit notes adjust an original invoice and are numbered separately from it
+export const noteTypes: DocumentType[] = ["credit_note", "debit_note"];
+
+export const documentTypeLabels: Record<DocumentType, string> = {
+  invoice: "Invoice",
+  credit_note: "Credit Note",
+  debit_note: "Debit Note",
+  estimate: "Estimate",
+};
+
+export type ResetPolicy = "never" | "financial_year";
+
+export const resetPolicies: ResetPolicy[] = ["never", "financial_year"];
+
+export const defaultSequencePatterns: Record<DocumentType, string> = {
+  invoice: "INV/{FY}/{seq:0000}",
+  credit_note: "CN/{FY}/{seq:0000}",
+  debit_note: "DN/{FY}/{seq:0000}",
+  estimate: "EST/{FY}/{seq:0000}",
+};
+
+// The Indian financial year runs from April 1 to March 31
+export function financialYearStart(date: Date): number {
+  return date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+}
+
+export function financialYearLabel(date: Date, short = false): string {
+  const start = financialYearStart(date);
+  const end = String((start + 1) % 100).padStart(2, "0");
+  return short ? `${String(start % 100).padStart(2, "0")}-${end}` : `${start}-${end}`;
+}
+
+// Counters restart whenever this key changes
+export function sequencePeriod(resetPolicy: ResetPolicy | string, date: Date): string {
+  return resetPolicy === "financial_year" ? financialYearLabel(date) : "all";
+}
+
+export function formatDocumentNumber(pattern: string, value: number, date: Date): string {
+  return pattern.replace(/\{(FY_SHORT|FY|YYYY|YY|MM|seq)(?::(\d+))?\}/g, (_match, token: string, padding?: string) => {
+    switch (token) {
+      case "FY":
+        return financialYearLabel(date);
+      case "FY_SHORT":
+        return financialYearLabel(date, true);
+      case "YYYY":
+        return String(date.getFullYear());
+      case "YY":
+        return String(date.getFullYear() % 100).padStart(2, "0");
+      case "MM":
+        return String(date.getMonth() + 1).padStart(2, "0");
+      default:
+        return String(value).padStart(padding ? padding.length : 0, "0");
+    }
+  });
+}
+
+export function isValidPattern(pattern: string): boolean {
+  return /\{seq(?::\d+)?\}/.test(pattern);
+}
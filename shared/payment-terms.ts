@@ -0,0 +1,38 @@
+import { addDays } from "./recurrence";
+
+// When an invoice falls due. Every preset derives the due date from the issue date on
+// the server; "custom" keeps the due date typed on the invoice, or none at all.
+export type PaymentTerms = "due_on_receipt" | "net_15" | "net_30" | "net_45" | "end_of_month" | "custom";
+
+export const paymentTermsOptions: { value: PaymentTerms; label: string }[] = [
+  { value: "due_on_receipt", label: "Due on receipt" },
+  { value: "net_15", label: "Net 15" },
+  { value: "net_30", label: "Net 30" },
+  { value: "net_45", label: "Net 45" },
+  { value: "end_of_month", label: "Due end of month" },
+  { value: "custom", label: "Custom" },
+];
+
+export const paymentTermsValues = paymentTermsOptions.map(option => option.value) as [PaymentTerms, ...PaymentTerms[]];
+
+export const defaultPaymentTerms: PaymentTerms = "due_on_receipt";
+
+export const paymentTermsLabel = (terms: string): string =>
+  paymentTermsOptions.find(option => option.value === terms)?.label || terms;
+
+const netDays: Partial<Record<PaymentTerms, number>> = {
+  due_on_receipt: 0,
+  net_15: 15,
+  net_30: 30,
+  net_45: 45,
+};
+
+// The due date the terms give for an invoice issued on the given date, or undefined for
+// custom terms, where the date is whatever was entered
+export function dueDateFor(terms: string | null | undefined, issueDate: Date): Date | undefined {
+  if (terms === "end_of_month") {
+    return new Date(issueDate.getFullYear(), issueDate.getMonth() + 1, 0);
+  }
+  const days = netDays[terms as PaymentTerms];
+  return days === undefined ? undefined : addDays(issueDate, days);
+}
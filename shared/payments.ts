@@ -0,0 +1,57 @@
+import type { Paise } from "./money";
+
+export type PaymentMode = "upi" | "neft" | "rtgs" | "imps" | "cash" | "cheque" | "card" | "other";
+
+export const paymentModes: { value: PaymentMode; label: string }[] = [
+  { value: "upi", label: "UPI" },
+  { value: "neft", label: "NEFT" },
+  { value: "rtgs", label: "RTGS" },
+  { value: "imps", label: "IMPS" },
+  { value: "cash", label: "Cash" },
+  { value: "cheque", label: "Cheque" },
+  { value: "card", label: "Card" },
+  { value: "other", label: "Other" },
+];
+
+// Statuses that follow from the payments and credit notes recorded against an invoice
+export const paymentStatuses = ["partially_paid", "paid", "credited"];
+
+// Negative when the customer has paid more than the invoice total. Issued credit
+// notes against the invoice reduce what is owed just as payments do.
+export const balanceDue = (total: Paise, amountPaid: Paise, amountCredited: Paise = 0): Paise =>
+  Number(total) - Number(amountPaid) - Number(amountCredited);
+
+// Drafts and cancelled invoices are left alone; unpaidStatus is where an invoice
+// returns to once payments no longer cover anything (issued or sent). Credits settle an
+// invoice as payments do, but one settled by credits alone is "credited", not "paid",
+// as no money was received for it.
+export function derivePaymentStatus(
+  total: Paise,
+  amountPaid: Paise,
+  amountCredited: Paise,
+  currentStatus: string,
+  unpaidStatus = "issued"
+): string {
+  if (currentStatus === "draft" || currentStatus === "cancelled") return currentStatus;
+
+  const paid = Number(amountPaid);
+  if (balanceDue(total, paid, amountCredited) <= 0) {
+    if (paid > 0) return "paid";
+    if (Number(amountCredited) > 0) return "credited";
+  }
+  // An overdue invoice stays overdue until it is settled
+  if (currentStatus === "overdue") return currentStatus;
+  if (paid > 0) return "partially_paid";
+  // With no payments left, fall back from a payment status to unpaid
+  return paymentStatuses.includes(currentStatus) ? unpaidStatus : currentStatus;
+}
+
+// Past due once the whole due date has gone by with money still owed
+export function isPastDue(
+  invoice: { dueDate: Date | string | null; total: Paise; amountPaid: Paise; amountCredited?: Paise },
+  now: Date = new Date()
+): boolean {
+  if (!invoice.dueDate || balanceDue(invoice.total, invoice.amountPaid, invoice.amountCredited) <= 0) return false;
+  const startOfToday = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return new Date(invoice.dueDate).getTime() < startOfToday.getTime();
+}
@@ -0,0 +1,60 @@
+// Schedules for recurring invoice profiles. A profile bills on a fixed day of the month
+// every one, three or twelve months; in shorter months the day falls back to the last
+// day, e.g. a profile on the 31st bills on Feb 28 and then Mar 31 again.
+
+export type RecurrenceInterval = "monthly" | "quarterly" | "yearly";
+
+export const recurrenceIntervals: { value: RecurrenceInterval; label: string; months: number }[] = [
+  { value: "monthly", label: "Monthly", months: 1 },
+  { value: "quarterly", label: "Quarterly", months: 3 },
+  { value: "yearly", label: "Yearly", months: 12 },
+];
+
+export const intervalLabel = (interval: string): string =>
+  recurrenceIntervals.find(option => option.value === interval)?.label || interval;
+
+const intervalMonths = (interval: string): number =>
+  recurrenceIntervals.find(option => option.value === interval)?.months || 1;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+// The given day in the given month, clamped to the month's length
+function dayInMonth(year: number, month: number, dayOfMonth: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(dayOfMonth, lastDay));
+}
+
+// First billing date on or after the given date
+export function firstOccurrence(onOrAfter: Date, dayOfMonth: number): Date {
+  const from = startOfDay(onOrAfter);
+  const candidate = dayInMonth(from.getFullYear(), from.getMonth(), dayOfMonth);
+  return candidate.getTime() >= from.getTime()
+    ? candidate
+    : dayInMonth(from.getFullYear(), from.getMonth() + 1, dayOfMonth);
+}
+
+export function nextOccurrence(previous: Date, interval: string, dayOfMonth: number): Date {
+  return dayInMonth(previous.getFullYear(), previous.getMonth() + intervalMonths(interval), dayOfMonth);
+}
+
+// Occurrences up to and including today that have not been billed yet, oldest first.
+// After downtime this returns every missed period so they can be caught up in order.
+export function dueOccurrences(
+  profile: { nextRunDate: Date | null; endDate: Date | null; interval: string; dayOfMonth: number },
+  now: Date = new Date()
+): Date[] {
+  const dates: Date[] = [];
+  const today = startOfDay(now).getTime();
+  const end = profile.endDate ? startOfDay(profile.endDate).getTime() : Infinity;
+
+  let next = profile.nextRunDate ? startOfDay(profile.nextRunDate) : null;
+  while (next && next.getTime() <= today && next.getTime() <= end) {
+    dates.push(next);
+    next = nextOccurrence(next, profile.interval, profile.dayOfMonth);
+  }
+  return dates;
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
@@ -0,0 +1,36 @@
+import { divideRounded, type Paise } from "./money";
+
+// How the grand total is rounded. Indian invoices usually round to the nearest rupee and
+// show the difference as a separate "Round off" line; the taxes themselves are never rounded.
+export type RoundingPolicy = "none" | "nearest_rupee" | "nearest_five_paise" | "up_rupee" | "down_rupee";
+
+export const roundingPolicies: { value: RoundingPolicy; label: string }[] = [
+  { value: "none", label: "No rounding" },
+  { value: "nearest_rupee", label: "Nearest ₹1" },
+  { value: "nearest_five_paise", label: "Nearest ₹0.05" },
+  { value: "up_rupee", label: "Always up to ₹1" },
+  { value: "down_rupee", label: "Always down to ₹1" },
+];
+
+export const roundingPolicyValues = roundingPolicies.map(policy => policy.value) as [RoundingPolicy, ...RoundingPolicy[]];
+
+// Used wherever no policy is given: by the column defaults, the server's pricing and the forms
+export const defaultRoundingPolicy: RoundingPolicy = "none";
+
+export const roundingPolicyLabel = (policy: string): string =>
+  roundingPolicies.find(option => option.value === policy)?.label || policy;
+
+export function applyRounding(amount: Paise, policy?: RoundingPolicy | string | null): Paise {
+  switch (policy) {
+    case "nearest_rupee":
+      return divideRounded(amount, 100) * 100;
+    case "nearest_five_paise":
+      return divideRounded(amount, 5) * 5;
+    case "up_rupee":
+      return Math.ceil(amount / 100) * 100;
+    case "down_rupee":
+      return Math.floor(amount / 100) * 100;
+    default:
+      return amount;
+  }
+}
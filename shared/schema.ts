@@ -1,7 +1,13 @@
 import { sql, relations } from "drizzle-orm";
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, primaryKey, index, uniqueIndex, type AnySQLiteColumn } from "drizzle-orm/sqlite-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { paiseSchema } from "./money";
+import { defaultRoundingPolicy, roundingPolicyValues } from "./rounding";
+import { paymentTermsValues } from "./payment-terms";
+import { maxQuantityDecimals, quantitySchema, unitCodes } from "./units";
+import { maxTrashRetentionDays } from "./trash";
+import type { InvoiceSnapshot } from "./invoice-revisions";
 
 export const users = sqliteTable("users", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -17,7 +23,12 @@ export const customers = sqliteTable("customers", {
   gstin: text("gstin"),
   billingAddress: text("billing_address"),
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
-});
+  deletedAt: integer("deleted_at", { mode: "timestamp" }), // in the trash since; see shared/trash.ts
+}, (table) => ({
+  // For the paged list; see shared/list-query.ts
+  nameIdx: index("customers_name_idx").on(table.deletedAt, table.name),
+  createdAtIdx: index("customers_created_at_idx").on(table.deletedAt, table.createdAt),
+}));
 
 export const taxes = sqliteTable("taxes", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -30,9 +41,16 @@ export const items = sqliteTable("items", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   name: text("name").notNull(),
   description: text("description"),
-  unitPrice: real("unit_price").notNull(),
+  hsnSac: text("hsn_sac"), // HSN code for goods, SAC for services
+  unitPrice: integer("unit_price").notNull(),
+  unit: text("unit").notNull().default("NOS"), // see shared/units.ts
+  quantityDecimals: integer("quantity_decimals").notNull().default(0), // decimal places allowed on line quantities
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
-});
+  deletedAt: integer("deleted_at", { mode: "timestamp" }), // in the trash since; see shared/trash.ts
+}, (table) => ({
+  nameIdx: index("items_name_idx").on(table.deletedAt, table.name),
+  createdAtIdx: index("items_created_at_idx").on(table.deletedAt, table.createdAt),
+}));
 
 export const itemTaxes = sqliteTable("item_taxes", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
@@ -43,25 +61,235 @@ export const itemTaxes = sqliteTable("item_taxes", {
 export const invoices = sqliteTable("invoices", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   invoiceNumber: text("invoice_number").notNull().unique(),
+  // invoice, credit_note or debit_note; notes point at the invoice they adjust
+  documentType: text("document_type").notNull().default("invoice"),
+  originalInvoiceId: text("original_invoice_id").references((): AnySQLiteColumn => invoices.id),
+  noteReason: text("note_reason"), // e.g. sales return, price correction
   customerId: text("customer_id").notNull().references(() => customers.id),
   issueDate: integer("issue_date", { mode: "timestamp" }).notNull(),
   dueDate: integer("due_date", { mode: "timestamp" }),
-  subtotal: real("subtotal").notNull(),
-  totalTax: real("total_tax").notNull(),
-  total: real("total").notNull(),
-  status: text("status").notNull().default("pending"), // pending, paid, overdue
+  // See shared/payment-terms.ts; any preset sets the due date from the issue date
+  paymentTerms: text("payment_terms").notNull().default("custom"),
+  notes: text("notes"), // printed on the invoice, e.g. a thank-you or bank details
+  terms: text("terms"), // terms and conditions
+  subtotal: integer("subtotal").notNull(),
+  totalTax: integer("total_tax").notNull(),
+  // Amounts are integer paise (see shared/money.ts). The invoice-level discount is kept as
+  // entered, paise for a flat amount or basis points for a percentage, with the resulting
+  // amount alongside; it applies before tax
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+  discount: integer("discount").default(0),
+  roundingPolicy: text("rounding_policy").notNull().default(defaultRoundingPolicy), // see shared/rounding.ts
+  roundOff: integer("round_off").notNull().default(0), // total less the unrounded total
+  total: integer("total").notNull(),
+  amountPaid: integer("amount_paid").notNull().default(0), // sum of payments, kept in step by storage
+  amountCredited: integer("amount_credited").notNull().default(0), // sum of issued credit notes against it
+  status: text("status").notNull().default("draft"), // see shared/invoice-status.ts
+  issuedAt: integer("issued_at", { mode: "timestamp" }),
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+  overdueAt: integer("overdue_at", { mode: "timestamp" }), // when the overdue job flagged it
+  cancelledAt: integer("cancelled_at", { mode: "timestamp" }),
+  cancellationReason: text("cancellation_reason"),
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
-});
+  deletedAt: integer("deleted_at", { mode: "timestamp" }), // in the trash since; see shared/trash.ts
+}, (table) => ({
+  // The list always filters on document type and the trash, then on whatever else was asked for
+  createdAtIdx: index("invoices_created_at_idx").on(table.documentType, table.deletedAt, table.createdAt),
+  issueDateIdx: index("invoices_issue_date_idx").on(table.documentType, table.deletedAt, table.issueDate),
+  dueDateIdx: index("invoices_due_date_idx").on(table.documentType, table.deletedAt, table.dueDate),
+  totalIdx: index("invoices_total_idx").on(table.documentType, table.deletedAt, table.total),
+  statusIdx: index("invoices_status_idx").on(table.status),
+  customerIdx: index("invoices_customer_idx").on(table.customerId),
+}));
 
 export const invoiceLineItems = sqliteTable("invoice_line_items", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  // Null for an ad-hoc line (a courier fee, a one-off service), which carries its own
+  // description and HSN/SAC and is taxed with the taxes picked on the line
+  itemId: text("item_id").references(() => items.id, { onDelete: "set null" }),
+  // What the line prints as, copied from the item at save time so later catalog edits
+  // never change an invoice already sent. The description can be overridden per line;
+  // an ad-hoc line has no item name and its description is the line's text.
+  itemName: text("item_name"),
+  description: text("description"),
+  hsnSac: text("hsn_sac"),
+  quantity: real("quantity").notNull(),
+  unit: text("unit").notNull().default("NOS"), // from the item unless overridden on the line
+  unitPrice: integer("unit_price").notNull(),
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+  discount: integer("discount").notNull().default(0),
+  total: integer("total").notNull(), // quantity x unit price less the line discount, before tax
+}, (table) => ({
+  invoiceIdx: index("invoice_line_items_invoice_idx").on(table.invoiceId),
+}));
+
+// Tax applied to a line at save time, so later catalog edits never change issued invoices
+export const invoiceLineTaxes = sqliteTable("invoice_line_taxes", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  lineItemId: text("line_item_id").notNull().references(() => invoiceLineItems.id, { onDelete: "cascade" }),
+  taxId: text("tax_id").references(() => taxes.id, { onDelete: "set null" }),
+  taxName: text("tax_name").notNull(),
+  rate: real("rate").notNull(),
+  taxableAmount: integer("taxable_amount").notNull(),
+  taxAmount: integer("tax_amount").notNull(),
+});
+
+export const payments = sqliteTable("payments", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  paymentDate: integer("payment_date", { mode: "timestamp" }).notNull(),
+  amount: integer("amount").notNull(),
+  mode: text("mode").notNull(), // upi, neft, rtgs, imps, cash, cheque, card, other
+  referenceNumber: text("reference_number"),
+  notes: text("notes"),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Files attached to an invoice; the content is on disk (see server/attachments.ts)
+export const invoiceAttachments = sqliteTable("invoice_attachments", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  fileName: text("file_name").notNull(), // as uploaded
+  storedName: text("stored_name").notNull(), // name on disk
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(), // bytes
+  checksum: text("checksum").notNull(), // SHA-256 of the content, hex
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// The invoice as it stood after each save, numbered from 1 per invoice. Rows are only ever
+// inserted; see shared/invoice-revisions.ts for the snapshot and how two are compared.
+export const invoiceRevisions = sqliteTable("invoice_revisions", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  invoiceId: text("invoice_id").notNull().references(() => invoices.id, { onDelete: "cascade" }),
+  revision: integer("revision").notNull(),
+  snapshot: text("snapshot", { mode: "json" }).$type<InvoiceSnapshot>().notNull(),
+  changedBy: text("changed_by"), // who saved it, when known
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+}, (table) => ({
+  revisionIdx: uniqueIndex("invoice_revisions_revision_idx").on(table.invoiceId, table.revision),
+}));
+
+// Quotations sent before invoicing; an accepted estimate is converted into a draft invoice
+export const estimates = sqliteTable("estimates", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  estimateNumber: text("estimate_number").notNull().unique(),
+  customerId: text("customer_id").notNull().references(() => customers.id),
+  issueDate: integer("issue_date", { mode: "timestamp" }).notNull(),
+  validUntil: integer("valid_until", { mode: "timestamp" }),
+  subtotal: integer("subtotal").notNull(),
+  totalTax: integer("total_tax").notNull(),
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+  discount: integer("discount").notNull().default(0),
+  roundingPolicy: text("rounding_policy").notNull().default(defaultRoundingPolicy),
+  roundOff: integer("round_off").notNull().default(0),
+  total: integer("total").notNull(),
+  status: text("status").notNull().default("draft"), // see shared/estimate-status.ts
+  sentAt: integer("sent_at", { mode: "timestamp" }),
+  acceptedAt: integer("accepted_at", { mode: "timestamp" }),
+  declinedAt: integer("declined_at", { mode: "timestamp" }),
+  expiredAt: integer("expired_at", { mode: "timestamp" }),
+  convertedInvoiceId: text("converted_invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  convertedAt: integer("converted_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+export const estimateLineItems = sqliteTable("estimate_line_items", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  estimateId: text("estimate_id").notNull().references(() => estimates.id, { onDelete: "cascade" }),
   itemId: text("item_id").notNull().references(() => items.id),
-  quantity: integer("quantity").notNull(),
-  unitPrice: real("unit_price").notNull(),
-  total: real("total").notNull(),
+  quantity: real("quantity").notNull(),
+  unit: text("unit").notNull().default("NOS"),
+  unitPrice: integer("unit_price").notNull(),
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+  discount: integer("discount").notNull().default(0),
+  total: integer("total").notNull(),
 });
 
+// Same snapshot as invoice_line_taxes, carried over to the invoice on conversion
+export const estimateLineTaxes = sqliteTable("estimate_line_taxes", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  estimateId: text("estimate_id").notNull().references(() => estimates.id, { onDelete: "cascade" }),
+  lineItemId: text("line_item_id").notNull().references(() => estimateLineItems.id, { onDelete: "cascade" }),
+  taxId: text("tax_id").references(() => taxes.id, { onDelete: "set null" }),
+  taxName: text("tax_name").notNull(),
+  rate: real("rate").notNull(),
+  taxableAmount: integer("taxable_amount").notNull(),
+  taxAmount: integer("tax_amount").notNull(),
+});
+
+// Template for invoices raised on a schedule; see shared/recurrence.ts
+export const recurringProfiles = sqliteTable("recurring_profiles", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull(),
+  customerId: text("customer_id").notNull().references(() => customers.id),
+  interval: text("interval").notNull(), // monthly, quarterly, yearly
+  dayOfMonth: integer("day_of_month").notNull(),
+  startDate: integer("start_date", { mode: "timestamp" }).notNull(),
+  endDate: integer("end_date", { mode: "timestamp" }),
+  nextRunDate: integer("next_run_date", { mode: "timestamp" }), // null once the profile has ended
+  autoIssue: integer("auto_issue", { mode: "boolean" }).notNull().default(false), // otherwise invoices are left as drafts
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  dueInDays: integer("due_in_days"),
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+  roundingPolicy: text("rounding_policy").notNull().default(defaultRoundingPolicy),
+  sequenceId: text("sequence_id").references(() => numberSequences.id, { onDelete: "set null" }),
+  lastRunAt: integer("last_run_at", { mode: "timestamp" }),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Priced when each invoice is generated, with the item taxes current at that time
+export const recurringProfileLineItems = sqliteTable("recurring_profile_line_items", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  profileId: text("profile_id").notNull().references(() => recurringProfiles.id, { onDelete: "cascade" }),
+  itemId: text("item_id").notNull().references(() => items.id),
+  quantity: real("quantity").notNull(),
+  unit: text("unit").notNull().default("NOS"),
+  unitPrice: integer("unit_price").notNull(),
+  discountType: text("discount_type").notNull().default("flat"),
+  discountValue: integer("discount_value").notNull().default(0),
+});
+
+// One row per billing period, so a period is never invoiced twice
+export const recurringInvoiceRuns = sqliteTable("recurring_invoice_runs", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  profileId: text("profile_id").notNull().references(() => recurringProfiles.id, { onDelete: "cascade" }),
+  scheduledFor: integer("scheduled_for", { mode: "timestamp" }).notNull(),
+  status: text("status").notNull(), // created, failed
+  invoiceId: text("invoice_id").references(() => invoices.id, { onDelete: "set null" }),
+  error: text("error"),
+  ranAt: integer("ran_at", { mode: "timestamp" }).notNull(),
+}, (table) => ({
+  periodIdx: uniqueIndex("recurring_invoice_runs_period_idx").on(table.profileId, table.scheduledFor),
+}));
+
+export const numberSequences = sqliteTable("number_sequences", {
+  id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
+  name: text("name").notNull().unique(),
+  documentType: text("document_type").notNull(), // invoice, credit_note, debit_note, estimate
+  pattern: text("pattern").notNull(), // e.g. INV/{FY}/{seq:0000}
+  resetPolicy: text("reset_policy").notNull().default("financial_year"), // never, financial_year
+  startValue: integer("start_value").notNull().default(1),
+  isDefault: integer("is_default", { mode: "boolean" }).default(false),
+  createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
+// Next value per sequence and reset period, so back-dated documents draw from their own year
+export const numberSequenceCounters = sqliteTable("number_sequence_counters", {
+  sequenceId: text("sequence_id").notNull().references(() => numberSequences.id, { onDelete: "cascade" }),
+  period: text("period").notNull(),
+  nextValue: integer("next_value").notNull(),
+}, (table) => ({
+  pk: primaryKey({ columns: [table.sequenceId, table.period] }),
+}));
+
 export const templates = sqliteTable("templates", {
   id: text("id").primaryKey().$defaultFn(() => crypto.randomUUID()),
   name: text("name").notNull(),
@@ -71,6 +299,16 @@ export const templates = sqliteTable("templates", {
   createdAt: integer("created_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
 });
 
+// Organisation-wide defaults for new invoices. There is a single row, id "default".
+export const organisationSettings = sqliteTable("organisation_settings", {
+  id: text("id").primaryKey().default("default"),
+  defaultNotes: text("default_notes"),
+  defaultTerms: text("default_terms"),
+  defaultPaymentTerms: text("default_payment_terms").notNull().default("due_on_receipt"),
+  trashRetentionDays: integer("trash_retention_days").notNull().default(30), // before deleted records are purged
+  updatedAt: integer("updated_at", { mode: "timestamp" }).default(sql`CURRENT_TIMESTAMP`),
+});
+
 // Relations
 export const customersRelations = relations(customers, ({ many }) => ({
   invoices: many(invoices),
@@ -82,9 +320,39 @@ export const invoicesRelations = relations(invoices, ({ one, many }) => ({
     references: [customers.id],
   }),
   lineItems: many(invoiceLineItems),
+  payments: many(payments),
+  attachments: many(invoiceAttachments),
+  revisions: many(invoiceRevisions),
+  originalInvoice: one(invoices, {
+    fields: [invoices.originalInvoiceId],
+    references: [invoices.id],
+    relationName: "notes",
+  }),
+  notes: many(invoices, { relationName: "notes" }),
+}));
+
+export const paymentsRelations = relations(payments, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [payments.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const invoiceAttachmentsRelations = relations(invoiceAttachments, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceAttachments.invoiceId],
+    references: [invoices.id],
+  }),
+}));
+
+export const invoiceRevisionsRelations = relations(invoiceRevisions, ({ one }) => ({
+  invoice: one(invoices, {
+    fields: [invoiceRevisions.invoiceId],
+    references: [invoices.id],
+  }),
 }));
 
-export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) => ({
+export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one, many }) => ({
   invoice: one(invoices, {
     fields: [invoiceLineItems.invoiceId],
     references: [invoices.id],
@@ -93,6 +361,84 @@ export const invoiceLineItemsRelations = relations(invoiceLineItems, ({ one }) =
     fields: [invoiceLineItems.itemId],
     references: [items.id],
   }),
+  taxes: many(invoiceLineTaxes),
+}));
+
+export const invoiceLineTaxesRelations = relations(invoiceLineTaxes, ({ one }) => ({
+  lineItem: one(invoiceLineItems, {
+    fields: [invoiceLineTaxes.lineItemId],
+    references: [invoiceLineItems.id],
+  }),
+  tax: one(taxes, {
+    fields: [invoiceLineTaxes.taxId],
+    references: [taxes.id],
+  }),
+}));
+
+export const estimatesRelations = relations(estimates, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [estimates.customerId],
+    references: [customers.id],
+  }),
+  convertedInvoice: one(invoices, {
+    fields: [estimates.convertedInvoiceId],
+    references: [invoices.id],
+  }),
+  lineItems: many(estimateLineItems),
+}));
+
+export const estimateLineItemsRelations = relations(estimateLineItems, ({ one, many }) => ({
+  estimate: one(estimates, {
+    fields: [estimateLineItems.estimateId],
+    references: [estimates.id],
+  }),
+  item: one(items, {
+    fields: [estimateLineItems.itemId],
+    references: [items.id],
+  }),
+  taxes: many(estimateLineTaxes),
+}));
+
+export const estimateLineTaxesRelations = relations(estimateLineTaxes, ({ one }) => ({
+  lineItem: one(estimateLineItems, {
+    fields: [estimateLineTaxes.lineItemId],
+    references: [estimateLineItems.id],
+  }),
+  tax: one(taxes, {
+    fields: [estimateLineTaxes.taxId],
+    references: [taxes.id],
+  }),
+}));
+
+export const recurringProfilesRelations = relations(recurringProfiles, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [recurringProfiles.customerId],
+    references: [customers.id],
+  }),
+  lineItems: many(recurringProfileLineItems),
+  runs: many(recurringInvoiceRuns),
+}));
+
+export const recurringProfileLineItemsRelations = relations(recurringProfileLineItems, ({ one }) => ({
+  profile: one(recurringProfiles, {
+    fields: [recurringProfileLineItems.profileId],
+    references: [recurringProfiles.id],
+  }),
+  item: one(items, {
+    fields: [recurringProfileLineItems.itemId],
+    references: [items.id],
+  }),
+}));
+
+export const recurringInvoiceRunsRelations = relations(recurringInvoiceRuns, ({ one }) => ({
+  profile: one(recurringProfiles, {
+    fields: [recurringInvoiceRuns.profileId],
+    references: [recurringProfiles.id],
+  }),
+  invoice: one(invoices, {
+    fields: [recurringInvoiceRuns.invoiceId],
+    references: [invoices.id],
+  }),
 }));
 
 export const itemsRelations = relations(items, ({ many }) => ({
@@ -120,9 +466,17 @@ export const insertUserSchema = createInsertSchema(users).omit({
   id: true,
 });
 
+// Blank is stored as no code
+const hsnSacSchema = z.string().trim()
+  .regex(/^(\d{4,8})?$/, "HSN/SAC must be 4 to 8 digits")
+  .transform(code => code || null)
+  .nullable()
+  .optional();
+
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertTaxSchema = createInsertSchema(taxes, {
@@ -133,29 +487,172 @@ export const insertTaxSchema = createInsertSchema(taxes, {
 });
 
 export const insertItemSchema = createInsertSchema(items, {
-  unitPrice: z.coerce.number(),
+  hsnSac: hsnSacSchema,
+  unitPrice: paiseSchema,
+  unit: z.enum(unitCodes).optional(),
+  quantityDecimals: z.coerce.number().int().min(0).max(maxQuantityDecimals).optional(),
 }).omit({
   id: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertInvoiceSchema = createInsertSchema(invoices, {
+  // Left blank, the number is allocated from the invoice sequence
+  invoiceNumber: z.string().trim().optional(),
   issueDate: z.coerce.date(),
   dueDate: z.coerce.date().nullable(),
-  subtotal: z.coerce.number(),
-  totalTax: z.coerce.number(),
-  total: z.coerce.number(),
+  // Left out, the organisation defaults apply
+  paymentTerms: z.enum(paymentTermsValues).optional(),
+  notes: z.string().trim().nullable().optional(),
+  terms: z.string().trim().nullable().optional(),
+  subtotal: paiseSchema,
+  totalTax: paiseSchema,
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).optional(),
+  total: paiseSchema,
+  status: z.enum(["draft", "issued"]).optional(),
+  documentType: z.enum(["invoice", "credit_note", "debit_note"]).optional(),
+  originalInvoiceId: z.string().nullable().optional(),
+  noteReason: z.string().trim().nullable().optional(),
 }).omit({
   id: true,
+  discount: true,
+  roundOff: true,
+  amountPaid: true,
+  amountCredited: true,
+  issuedAt: true,
+  sentAt: true,
+  overdueAt: true,
+  cancelledAt: true,
+  cancellationReason: true,
   createdAt: true,
+  deletedAt: true,
 });
 
 export const insertInvoiceLineItemSchema = createInsertSchema(invoiceLineItems, {
-  unitPrice: z.coerce.number(),
-  total: z.coerce.number(),
-  quantity: z.coerce.number(),
+  itemId: z.string().nullable().optional(),
+  description: z.string().trim().nullable().optional(),
+  hsnSac: hsnSacSchema,
+  unitPrice: paiseSchema.min(0, "Unit price cannot be negative"),
+  total: paiseSchema,
+  quantity: quantitySchema,
+  unit: z.enum(unitCodes).optional(),
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
 }).omit({
   id: true,
+  itemName: true,
+  discount: true,
+});
+
+// A line as sent with an invoice: either a catalog item, or an ad-hoc line with its own
+// description and the taxes to apply to it. An edited line carries the id it was saved with.
+export const invoiceLineInputSchema = insertInvoiceLineItemSchema.omit({
+  invoiceId: true,
+  total: true,
+}).extend({
+  id: z.string().optional(),
+  taxIds: z.array(z.string()).optional(),
+}).refine(line => line.itemId || line.description, {
+  message: "Choose an item or describe the line",
+  path: ["description"],
+});
+
+export const insertPaymentSchema = createInsertSchema(payments, {
+  paymentDate: z.coerce.date(),
+  amount: paiseSchema.positive("Amount must be greater than zero"),
+  mode: z.enum(["upi", "neft", "rtgs", "imps", "cash", "cheque", "card", "other"]),
+}).omit({
+  id: true,
+  invoiceId: true,
+  createdAt: true,
+});
+
+export const insertEstimateSchema = createInsertSchema(estimates, {
+  // Left blank, the number is allocated from the estimate sequence
+  estimateNumber: z.string().trim().optional(),
+  issueDate: z.coerce.date(),
+  validUntil: z.coerce.date().nullable(),
+  subtotal: paiseSchema,
+  totalTax: paiseSchema,
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).optional(),
+  total: paiseSchema,
+  status: z.enum(["draft", "sent"]).optional(),
+}).omit({
+  id: true,
+  discount: true,
+  roundOff: true,
+  sentAt: true,
+  acceptedAt: true,
+  declinedAt: true,
+  expiredAt: true,
+  convertedInvoiceId: true,
+  convertedAt: true,
+  createdAt: true,
+});
+
+export const insertEstimateLineItemSchema = createInsertSchema(estimateLineItems, {
+  unitPrice: paiseSchema,
+  total: paiseSchema,
+  quantity: quantitySchema,
+  unit: z.enum(unitCodes).optional(),
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  discount: true,
+});
+
+// A line as sent with an estimate; estimates only bill catalog items
+export const estimateLineInputSchema = insertEstimateLineItemSchema.omit({
+  estimateId: true,
+  total: true,
+}).extend({
+  id: z.string().optional(),
+  itemId: z.string({ required_error: "Choose an item", invalid_type_error: "Choose an item" }).trim().min(1, "Choose an item"),
+  unitPrice: paiseSchema.min(0, "Unit price cannot be negative"),
+});
+
+export const insertRecurringProfileSchema = createInsertSchema(recurringProfiles, {
+  name: z.string().trim().min(1, "Name is required"),
+  interval: z.enum(["monthly", "quarterly", "yearly"]),
+  dayOfMonth: z.coerce.number().int().min(1).max(31),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullable().optional(),
+  dueInDays: z.coerce.number().int().min(0).nullable().optional(),
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
+  roundingPolicy: z.enum(roundingPolicyValues).optional(),
+}).omit({
+  id: true,
+  nextRunDate: true,
+  lastRunAt: true,
+  createdAt: true,
+});
+
+export const insertRecurringProfileLineItemSchema = createInsertSchema(recurringProfileLineItems, {
+  unitPrice: paiseSchema.min(0, "Unit price cannot be negative"),
+  quantity: quantitySchema,
+  unit: z.enum(unitCodes).optional(),
+  discountType: z.enum(["flat", "percent"]).optional(),
+  discountValue: z.coerce.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  profileId: true,
+});
+
+export const insertNumberSequenceSchema = createInsertSchema(numberSequences, {
+  documentType: z.enum(["invoice", "credit_note", "debit_note", "estimate"]),
+  pattern: z.string().min(1).refine((pattern) => /\{seq(?::\d+)?\}/.test(pattern), "Pattern must contain {seq}"),
+  resetPolicy: z.enum(["never", "financial_year"]).optional(),
+  startValue: z.coerce.number().int().min(0).optional(),
+}).omit({
+  id: true,
+  createdAt: true,
 });
 
 export const insertTemplateSchema = createInsertSchema(templates).omit({
@@ -163,6 +660,16 @@ export const insertTemplateSchema = createInsertSchema(templates).omit({
   createdAt: true,
 });
 
+export const insertOrganisationSettingsSchema = createInsertSchema(organisationSettings, {
+  defaultNotes: z.string().trim().nullable().optional(),
+  defaultTerms: z.string().trim().nullable().optional(),
+  defaultPaymentTerms: z.enum(paymentTermsValues).optional(),
+  trashRetentionDays: z.coerce.number().int().min(1).max(maxTrashRetentionDays).optional(),
+}).omit({
+  id: true,
+  updatedAt: true,
+});
+
 // Types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -181,8 +688,64 @@ export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
 
 export type InvoiceLineItem = typeof invoiceLineItems.$inferSelect;
 export type InsertInvoiceLineItem = z.infer<typeof insertInvoiceLineItemSchema>;
+export type InvoiceLineInput = z.infer<typeof invoiceLineInputSchema>;
 
 export type Template = typeof templates.$inferSelect;
 export type InsertTemplate = z.infer<typeof insertTemplateSchema>;
 
+export type OrganisationSettings = typeof organisationSettings.$inferSelect;
+export type InsertOrganisationSettings = z.infer<typeof insertOrganisationSettingsSchema>;
+
 export type ItemTax = typeof itemTaxes.$inferSelect;
+
+export type InvoiceLineTax = typeof invoiceLineTaxes.$inferSelect;
+
+export type NumberSequence = typeof numberSequences.$inferSelect;
+export type InsertNumberSequence = z.infer<typeof insertNumberSequenceSchema>;
+
+export type InvoiceLineItemWithDetails = InvoiceLineItem & { taxes: InvoiceLineTax[] };
+export type InvoiceWithDetails = Invoice & {
+  customer: Customer;
+  lineItems: InvoiceLineItemWithDetails[];
+  balanceDue: number;
+  amountInWords: string; // the total spelt out for the printed invoice
+  // The invoice a credit or debit note adjusts
+  originalInvoice: Pick<Invoice, "id" | "invoiceNumber" | "issueDate"> | null;
+};
+
+export type Estimate = typeof estimates.$inferSelect;
+export type InsertEstimate = z.infer<typeof insertEstimateSchema>;
+
+export type EstimateLineItem = typeof estimateLineItems.$inferSelect;
+export type InsertEstimateLineItem = z.infer<typeof insertEstimateLineItemSchema>;
+export type EstimateLineInput = z.infer<typeof estimateLineInputSchema>;
+
+export type EstimateLineTax = typeof estimateLineTaxes.$inferSelect;
+
+export type EstimateLineItemWithDetails = EstimateLineItem & { item: Item; taxes: EstimateLineTax[] };
+export type EstimateWithDetails = Estimate & {
+  customer: Customer;
+  lineItems: EstimateLineItemWithDetails[];
+  convertedInvoice: Pick<Invoice, "id" | "invoiceNumber"> | null;
+};
+
+export type RecurringProfile = typeof recurringProfiles.$inferSelect;
+export type InsertRecurringProfile = z.infer<typeof insertRecurringProfileSchema>;
+
+export type RecurringProfileLineItem = typeof recurringProfileLineItems.$inferSelect;
+export type InsertRecurringProfileLineItem = z.infer<typeof insertRecurringProfileLineItemSchema>;
+
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
+
+export type RecurringProfileWithDetails = RecurringProfile & {
+  customer: Customer;
+  lineItems: (RecurringProfileLineItem & { item: Item })[];
+  lastRun: RecurringInvoiceRun | null;
+};
+
+export type InvoiceAttachment = typeof invoiceAttachments.$inferSelect;
+
+export type InvoiceRevision = typeof invoiceRevisions.$inferSelect;
+
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
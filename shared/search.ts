@@ -0,0 +1,33 @@
+import { documentTypeLabels } from "./numbering";
+
+// Global search over invoices, customers and items, backed by the search_index FTS5 table
+// (migrations/0020_search_index.sql). Every word typed must match, as a word or the start of one.
+// Invoices and credit and debit notes are typed by their document type.
+export type SearchEntityType = "invoice" | "credit_note" | "debit_note" | "customer" | "item";
+
+export const searchEntityLabels: Record<SearchEntityType, string> = {
+  invoice: documentTypeLabels.invoice,
+  credit_note: documentTypeLabels.credit_note,
+  debit_note: documentTypeLabels.debit_note,
+  customer: "Customer",
+  item: "Item",
+};
+
+export const maxSearchResults = 20;
+
+export const maxSearchLength = 200;
+
+// A run of text from a result, marked where it matched the query
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  title: HighlightPart[]; // the invoice number, or the customer or item name
+  snippet: HighlightPart[]; // from the notes, contact details or description; empty when there are none
+}
+
+export const plainText = (parts: HighlightPart[]): string => parts.map(part => part.text).join("");
@@ -0,0 +1,29 @@
+// Deleting an invoice, customer or item moves it to the trash by setting deletedAt. It
+// drops out of every list but can be restored until the retention period has passed,
+// after which the scheduler deletes it for good.
+export type TrashEntityType = "invoice" | "customer" | "item";
+
+export const trashEntityTypes: [TrashEntityType, ...TrashEntityType[]] = ["invoice", "customer", "item"];
+
+export const trashEntityLabels: Record<TrashEntityType, string> = {
+  invoice: "Invoice",
+  customer: "Customer",
+  item: "Item",
+};
+
+export const defaultTrashRetentionDays = 30;
+
+export const maxTrashRetentionDays = 3650;
+
+export interface TrashEntry {
+  type: TrashEntityType;
+  id: string;
+  name: string; // the invoice number, or the customer or item name
+  deletedAt: Date;
+  purgeAt: Date;
+}
+
+const dayMs = 24 * 60 * 60 * 1000;
+
+export const purgeDate = (deletedAt: Date, retentionDays: number): Date =>
+  new Date(deletedAt.getTime() + retentionDays * dayMs);
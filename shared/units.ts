@@ -0,0 +1,76 @@
+import { z } from "zod";
+import { divideRounded, type Paise } from "./money";
+
+// Units of measure for line quantities. Codes are the GST Unique Quantity Codes (UQC)
+// used in returns; hours and months are not UQCs and are reported as OTH.
+export interface UnitOfMeasure {
+  code: string;
+  label: string;
+  uqc: string;
+  decimals: number; // suggested quantity precision for new items
+}
+
+export const unitsOfMeasure: UnitOfMeasure[] = [
+  { code: "NOS", label: "Numbers", uqc: "NOS", decimals: 0 },
+  { code: "PCS", label: "Pieces", uqc: "PCS", decimals: 0 },
+  { code: "UNT", label: "Units", uqc: "UNT", decimals: 0 },
+  { code: "SET", label: "Sets", uqc: "SET", decimals: 0 },
+  { code: "PRS", label: "Pairs", uqc: "PRS", decimals: 0 },
+  { code: "DOZ", label: "Dozens", uqc: "DOZ", decimals: 0 },
+  { code: "BOX", label: "Box", uqc: "BOX", decimals: 0 },
+  { code: "PAC", label: "Packs", uqc: "PAC", decimals: 0 },
+  { code: "BTL", label: "Bottles", uqc: "BTL", decimals: 0 },
+  { code: "BAG", label: "Bags", uqc: "BAG", decimals: 0 },
+  { code: "ROL", label: "Rolls", uqc: "ROL", decimals: 0 },
+  { code: "KGS", label: "Kilograms", uqc: "KGS", decimals: 3 },
+  { code: "GMS", label: "Grams", uqc: "GMS", decimals: 0 },
+  { code: "QTL", label: "Quintal", uqc: "QTL", decimals: 3 },
+  { code: "TON", label: "Tonnes", uqc: "TON", decimals: 3 },
+  { code: "LTR", label: "Litres", uqc: "LTR", decimals: 3 },
+  { code: "MLT", label: "Millilitres", uqc: "MLT", decimals: 0 },
+  { code: "MTR", label: "Metres", uqc: "MTR", decimals: 2 },
+  { code: "CMS", label: "Centimetres", uqc: "CMS", decimals: 0 },
+  { code: "KME", label: "Kilometres", uqc: "KME", decimals: 2 },
+  { code: "SQF", label: "Square feet", uqc: "SQF", decimals: 2 },
+  { code: "SQM", label: "Square metres", uqc: "SQM", decimals: 2 },
+  { code: "HRS", label: "Hours", uqc: "OTH", decimals: 2 },
+  { code: "DAY", label: "Days", uqc: "OTH", decimals: 1 },
+  { code: "MON", label: "Months", uqc: "OTH", decimals: 2 },
+  { code: "OTH", label: "Others", uqc: "OTH", decimals: 2 },
+];
+
+export const unitCodes = unitsOfMeasure.map(unit => unit.code) as [string, ...string[]];
+
+export const defaultUnit = "NOS";
+
+export const findUnit = (code: string | null | undefined): UnitOfMeasure | undefined =>
+  unitsOfMeasure.find(unit => unit.code === code);
+
+// Quantities are stored as decimals but never finer than this, so that a quantity is
+// always a whole number of thousandths and line amounts can be computed exactly
+export const maxQuantityDecimals = 3;
+
+export const quantityThousandths = (quantity: number | string): number =>
+  Math.round(Number((Number(quantity) * 1000).toPrecision(15)));
+
+export function hasAtMostDecimals(quantity: number | string, decimals: number): boolean {
+  const thousandths = quantityThousandths(quantity);
+  return Math.abs(Number(quantity) * 1000 - thousandths) < 1e-6
+    && thousandths % 10 ** (maxQuantityDecimals - Math.min(Math.max(decimals, 0), maxQuantityDecimals)) === 0;
+}
+
+export function roundQuantity(quantity: number | string, decimals: number): number {
+  const places = Math.min(Math.max(decimals, 0), maxQuantityDecimals);
+  return divideRounded(quantityThousandths(quantity), 10 ** (maxQuantityDecimals - places)) / 10 ** places;
+}
+
+// Quantity x unit price, rounded to the paisa
+export const lineAmount = (quantity: number | string, unitPrice: Paise): Paise =>
+  divideRounded(quantityThousandths(quantity) * unitPrice, 1000);
+
+export const formatQuantity = (quantity: number | string, unit?: string | null): string =>
+  `${Number(quantity).toLocaleString("en-IN", { maximumFractionDigits: maxQuantityDecimals })}${unit ? ` ${unit}` : ""}`;
+
+export const quantitySchema = z.coerce.number()
+  .positive("Quantity must be greater than zero")
+  .refine(quantity => hasAtMostDecimals(quantity, maxQuantityDecimals), `Quantity can have at most ${maxQuantityDecimals} decimal places`);